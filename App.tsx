@@ -1,4 +1,4 @@
-import React, {useState, useEffect, useRef} from 'react';
+import React, {useState, useEffect, useRef, useMemo} from 'react';
 import {
   SafeAreaView,
   StyleSheet,
@@ -16,13 +16,44 @@ import {ChessBoard} from './src/components/board/chess-board';
 import {JanggiBoard} from './src/components/board/janggi-board';
 import {Janggi2Board} from './src/components/board/janggi2-board';
 import {Janggi3Board} from './src/components/board/janggi3-board';
+import {JanggiSetupPicker} from './src/components/ui/janggi-setup-picker';
 import {AnalysisPanel} from './src/components/analysis/analysis-panel';
+import {MoveList} from './src/components/analysis/move-list';
+import {PositionEditor} from './src/components/editor/position-editor';
+import {GameArchiveBrowser} from './src/components/archive/game-archive-browser';
 import {TermText} from './src/components/ui/tooltip';
 import {ToastNotification, Toast} from './src/components/ui/toast-notification';
-import {GameVariant, GameMode, Square, EngineAnalysis} from './src/types/game';
+import {ClockDisplay} from './src/components/ui/clock-display';
+import {GameVariant, GameMode, Square, EngineAnalysis, EngineScore, TimeControl} from './src/types/game';
 import {createXBoardEngine, XBoardEngine} from './src/services/xboard-engine';
+import {isEngineJobCancelled, EngineCrashedError, EngineError} from './src/services/engine-errors';
+import {EngineSupervisor, EngineIncident} from './src/services/engine-supervisor';
+import {MAX_STRENGTH, STRENGTH_PRESETS, strengthLabel} from './src/services/engine-strength';
 import {Chess} from 'chess.js';
 import {applyMoveToFEN, validateJanggiMove} from './src/utils/janggi-fen';
+import {parseMove, formatSquare, toBoardIndex} from './src/utils/move-notation';
+import {
+  describeScore,
+  formatScore,
+  isWhiteFavoured,
+  winProbability,
+} from './src/utils/engine-score';
+import {
+  GameClock,
+  ClockSide,
+  ClockSnapshot,
+  NO_TIME_CONTROL,
+  TIME_CONTROL_PRESETS,
+} from './src/utils/time-control';
+import {
+  GameStats,
+  GameOutcome,
+  ResultReason,
+  RESULT_REASON_LABELS,
+  EMPTY_STATS,
+  addGameResult,
+  normalizeStats,
+} from './src/utils/game-stats';
 import {
   setupNNUE,
   SetupProgress,
@@ -31,27 +62,69 @@ import {
   getManualDownloadInstructions,
 } from './src/utils/setup-nnue';
 import {
-  Board as Janggi3Board_Type,
+  Board as JanggiBoard_Type,
   Position,
+  Move as JanggiMove,
+  PositionOutcome,
+  JanggiOpponent,
   createInitialBoard,
-  applyMove as applyJanggi3Move,
-  getGameResult,
-} from './src/game/janggi3-game';
-import {getLegalMoves as getJanggi3LegalMoves} from './src/game/janggi3-moves';
-import {getAIMove as getJanggi3AIMove} from './src/game/janggi3-ai';
+  Setup,
+  SETUPS,
+  SETUP_LABELS,
+  GameSetups,
+  SetupPolicy,
+  DEFAULT_SETUP_POLICY,
+  chooseSetup,
+  applyMove as applyJanggiMove,
+  getLegalMoves as getJanggiLegalMoves,
+  getGameOutcome,
+  getPassMove,
+  isPassMove,
+  isBikjang,
+  boardToFEN as janggiBoardToFEN,
+  FENToBoard as janggiFENToBoard,
+  moveToEngineNotation as janggiMoveToEngineNotation,
+  hashBoard,
+  updateHash,
+  createEngineOpponent,
+  createStandaloneOpponent,
+  EngineFallbackListener,
+  SearchBudget,
+  SearchProgress,
+  MIN_SEARCH_DEPTH,
+  MAX_SEARCH_DEPTH,
+  DEFAULT_SEARCH_DEPTH,
+  SEARCH_TIME_MS,
+  clockedSearchTime,
+  JanggiGameRecord,
+  setupsFromBoard,
+  moveFromEngineNotation,
+  replayRecord,
+  recordStart,
+  exportJanggiPgn,
+  importJanggiPgn,
+  exportGib,
+  importGib,
+} from './src/game/janggi';
+import {
+  PositionHistory,
+  REPETITION_RULES,
+  AI_VS_AI_MOVE_CAP,
+  fenPositionKey,
+} from './src/utils/position-history';
+import {MoveHistory, GamePosition} from './src/utils/move-history';
+import {formatMoveLabels} from './src/utils/move-list';
+import {PgnResult, ImportedPgn, exportChessPgn, importChessPgn, formatPgnTimeControl, pgnPlayerName} from './src/utils/pgn';
+import {GameFileFormat, GameFileInfo, saveGameFile, listGameFiles, readGameFile} from './src/utils/game-files';
 import {
-  Board as Janggi2Board_Type,
-  Position as Janggi2Position,
-  createInitialBoard as createJanggi2InitialBoard,
-  applyMove as applyJanggi2Move,
-  getGameResult as getJanggi2GameResult,
-  boardToFEN as janggi2BoardToFEN,
-  FENToBoard as janggi2FENToBoard,
-  positionToNotation as janggi2PositionToNotation,
-  notationToPosition as janggi2NotationToPosition,
-} from './src/game/janggi2-game';
-import {getLegalMoves as getJanggi2LegalMoves} from './src/game/janggi2-moves';
-import {getAIMove as getJanggi2AIMove} from './src/game/janggi2-ai';
+  ArchivedGame,
+  archiveGame,
+  createArchiveId,
+  deleteArchivedGames,
+  exportArchivedGame,
+  loadArchive,
+  replayArchivedGame,
+} from './src/utils/game-archive';
 
 function App(): React.JSX.Element {
   const [selectedVariant, setSelectedVariant] =
@@ -64,6 +137,26 @@ function App(): React.JSX.Element {
   const [analysis, setAnalysis] = useState<EngineAnalysis[]>([]);
   const [analysisTurn, setAnalysisTurn] = useState<'w' | 'b' | null>(null); // Track which turn the analysis is for
   const [analysisFen, setAnalysisFen] = useState<string>(new Chess().fen()); // Track which FEN position the analysis is for
+  const [multiPVCount, setMultiPVCount] = useState(3); // Number of candidate lines requested from the engine (1-5)
+  const [timeControl, setTimeControl] = useState<TimeControl>(NO_TIME_CONTROL);
+  const [aiStrength, setAIStrength] = useState<Record<ClockSide, number>>({w: MAX_STRENGTH, b: MAX_STRENGTH}); // Per AI player, 1-20
+  const [janggiSearchDepth, setJanggiSearchDepth] = useState(DEFAULT_SEARCH_DEPTH); // Standalone Janggi AI, in plies
+  const [janggiSearchProgress, setJanggiSearchProgress] = useState<SearchProgress | null>(null); // While the standalone AI thinks
+  const [aiSetupPolicy, setAISetupPolicy] = useState<SetupPolicy>(DEFAULT_SETUP_POLICY); // How AI players choose their Janggi formation
+  const [pendingJanggiSetup, setPendingJanggiSetup] = useState<Partial<GameSetups> | null>(null); // Formations chosen so far, during the pre-game step
+  const [undoRedo, setUndoRedo] = useState({canUndo: false, canRedo: false}); // Enables the Undo / Redo buttons
+  const [historyMoves, setHistoryMoves] = useState<{moves: string[]; fens: (string | null)[]; firstTurn: ClockSide}>({
+    moves: [],
+    fens: [],
+    firstTurn: 'w',
+  }); // Played moves and the positions before them, for the move list
+  const [viewedPly, setViewedPly] = useState<number | null>(null); // Earlier position shown from the move list; null = live
+  const [isEditingPosition, setIsEditingPosition] = useState(false); // Position editor replaces the board
+  const [isBrowsingArchive, setIsBrowsingArchive] = useState(false); // Game archive replaces the board
+  const [archivedGames, setArchivedGames] = useState<ArchivedGame[]>([]);
+  const [isArchiveLoading, setIsArchiveLoading] = useState(false);
+  const [archiveAbandoned, setArchiveAbandoned] = useState(false); // Also archive games left unfinished
+  const [clockSnapshot, setClockSnapshot] = useState<ClockSnapshot>(() => new GameClock().snapshot());
   const [setupProgress, setSetupProgress] = useState<SetupProgress | null>(
     null,
   );
@@ -78,12 +171,7 @@ function App(): React.JSX.Element {
   const [gameStatus, setGameStatus] = useState<string>(''); // Track check/checkmate/stalemate
   const [fastMode, setFastMode] = useState(false); // Disable rendering for AI vs AI
   const [fastModeMovesPlayed, setFastModeMovesPlayed] = useState(0); // Track moves in fast mode
-  const [stats, setStats] = useState({
-    whiteWins: 0,
-    blackWins: 0,
-    draws: 0,
-    totalGames: 0,
-  });
+  const [stats, setStats] = useState<GameStats>(EMPTY_STATS);
   const [currentGameMoves, setCurrentGameMoves] = useState(0); // Track moves in current game
   const [recentMoveTimestamps, setRecentMoveTimestamps] = useState<number[]>([]); // Track move timestamps for last 2 seconds
   const [movesPerMinute, setMovesPerMinute] = useState(0); // Current game moves per minute (last 2 seconds * 30)
@@ -97,26 +185,34 @@ function App(): React.JSX.Element {
     height: 0,
   });
 
-  // Janggi3 standalone game state
-  const [janggi3Board, setJanggi3Board] = useState<Janggi3Board_Type>(createInitialBoard());
-  const [janggi3Turn, setJanggi3Turn] = useState<boolean>(true); // true = Han (red), false = Cho (blue)
-  const [janggi3HighlightedMoves, setJanggi3HighlightedMoves] = useState<Position[]>([]);
-
-  // Janggi2 engine-integrated game state
-  const [janggi2Board, setJanggi2Board] = useState<Janggi2Board_Type>(createJanggi2InitialBoard());
-  const [janggi2Turn, setJanggi2Turn] = useState<boolean>(true); // true = Han (red), false = Cho (blue)
-  const [janggi2HighlightedMoves, setJanggi2HighlightedMoves] = useState<Janggi2Position[]>([]);
-  const [janggi2Fen, setJanggi2Fen] = useState<string>(() => {
-    return janggi2BoardToFEN(createJanggi2InitialBoard(), true, 1);
+  // Standalone Janggi game state (janggi2: engine opponent, janggi3: built-in opponent)
+  const [janggiBoard, setJanggiBoard] = useState<JanggiBoard_Type>(createInitialBoard());
+  const [janggiTurn, setJanggiTurn] = useState<boolean>(true); // true = Han (red), false = Cho (blue)
+  const [janggiHighlightedMoves, setJanggiHighlightedMoves] = useState<Position[]>([]);
+  const [janggiFen, setJanggiFen] = useState<string>(() => {
+    return janggiBoardToFEN(createInitialBoard(), true, 1);
   });
 
   const engineRef = useRef<XBoardEngine | null>(null);
+  const supervisorRef = useRef<EngineSupervisor | null>(null); // Restarts the engine if it crashes or hangs
   const gameRef = useRef(new Chess());
+  const clockRef = useRef(new GameClock()); // Game clock for timed human games
   const autoPlayStopRef = useRef(false);
   const saveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const analysisRequestIdRef = useRef(0); // Track which analysis request is current
   const player1TypeRef = useRef<'human' | 'ai'>(player1Type); // Ref for AI chain to see latest value
   const player2TypeRef = useRef<'human' | 'ai'>(player2Type); // Ref for AI chain to see latest value
+  const aiStrengthRef = useRef(aiStrength); // Ref for AI chain to see latest value
+  const janggiSearchDepthRef = useRef(janggiSearchDepth); // Ref for AI chain to see latest value
+  const janggiOpponentRef = useRef<JanggiOpponent | null>(null); // Opponent whose Janggi move is pending
+  const janggiAITimerRef = useRef<ReturnType<typeof setTimeout> | null>(null); // Next AI vs AI move
+  const aiSetupPolicyRef = useRef(aiSetupPolicy); // Ref for the setup step to see latest value
+  const pendingJanggiSetupRef = useRef<Partial<GameSetups> | null>(null); // Mirrors pendingJanggiSetup for async callers
+  const gamePliesRef = useRef(0); // Plies in the current game, for the Janggi move limit (the AI chain can't see state)
+  const positionHistoryRef = useRef(new PositionHistory(fenPositionKey(new Chess().fen()))); // Positions of the current game, for repetition rules
+  const moveHistoryRef = useRef(new MoveHistory({fen: new Chess().fen(), key: fenPositionKey(new Chess().fen())})); // Moves of the current game, for undo/redo
+  const evaluationsRef = useRef(new Map<string, EngineScore>()); // Best engine score per analyzed FEN, for PGN %eval comments
+  const archiveEntryRef = useRef({id: createArchiveId(new Date()), isArchived: false}); // Archive entry of the current game
+  const viewedPlyRef = useRef<number | null>(null); // Ref for async analysis to see the latest viewed ply
 
   const showToast = (message: string, type: Toast['type'] = 'info') => {
     const id = Date.now().toString();
@@ -128,6 +224,142 @@ function App(): React.JSX.Element {
     }, 5000);
   };
 
+  // Searches cancelled or superseded inside the engine service are expected, not errors
+  const reportEngineError = (context: string, error: unknown) => {
+    if (!isEngineJobCancelled(error)) {
+      console.error(context, error);
+    }
+  };
+
+  // Multi-PV results arrive as the main line with all ranked lines in `multipv`
+  const toAnalysisLines = (result: EngineAnalysis): EngineAnalysis[] => {
+    return result.multipv && result.multipv.length > 0 ? result.multipv : [result];
+  };
+
+  // Clocks run in timed games with a human player (AI vs AI keeps fixed think times)
+  const isClockedGame = (): boolean => {
+    return (
+      clockRef.current.isTimed() &&
+      gameMode !== 'analysis' &&
+      (player1TypeRef.current === 'human' || player2TypeRef.current === 'human')
+    );
+  };
+
+  // `side` just moved: charge its thinking time and start the opponent's clock
+  const punchClock = (side: ClockSide) => {
+    if (isClockedGame()) {
+      clockRef.current.punch(side);
+      setClockSnapshot(clockRef.current.snapshot());
+    }
+  };
+
+  // Game ended on the board: freeze both clocks
+  const stopClock = () => {
+    clockRef.current.pause();
+    setClockSnapshot(clockRef.current.snapshot());
+  };
+
+  // Undo / Redo buttons and the move list follow the move history
+  const refreshMoveHistory = () => {
+    const history = moveHistoryRef.current;
+    setUndoRedo({canUndo: history.canUndo(), canRedo: history.canRedo()});
+    const moves = history.moves();
+    const start = history.positionAt(0);
+    setHistoryMoves({
+      moves,
+      fens: moves.map((_, ply) => history.positionAt(ply)?.fen ?? null),
+      firstTurn: start ? positionTurn(start) : 'w',
+    });
+
+    // A viewed position that was taken back (undo, new game) is gone
+    if (viewedPlyRef.current !== null && viewedPlyRef.current >= history.ply()) {
+      viewedPlyRef.current = null;
+      setViewedPly(null);
+    }
+  };
+
+  // New game from `start`: clear the position and move history and the ply count
+  const resetGameHistory = (start?: GamePosition) => {
+    positionHistoryRef.current.reset(start?.key);
+    moveHistoryRef.current.reset(start);
+    evaluationsRef.current.clear();
+    archiveEntryRef.current = {id: createArchiveId(new Date()), isArchived: false};
+    gamePliesRef.current = 0;
+    refreshMoveHistory();
+  };
+
+  // A move was played: record the position it leads to (repetitions, undo/redo)
+  const recordPly = (move: string, position: GamePosition) => {
+    positionHistoryRef.current.push(position.key);
+    moveHistoryRef.current.push(move, position);
+    refreshMoveHistory();
+  };
+
+  // Zobrist hash of the standalone Janggi position after `move`
+  const janggiHashAfter = (board: JanggiBoard_Type, isHanTurn: boolean, move: JanggiMove): number => {
+    const current = positionHistoryRef.current.current();
+    return typeof current === 'number'
+      ? updateHash(current, board, move)
+      : hashBoard(applyJanggiMove(board, move), !isHanTurn);
+  };
+
+  const janggiResultText = (result: number): string => {
+    return result === 1 ? 'Han wins!' : result === -1 ? 'Cho wins!' : 'Draw';
+  };
+
+  // Status line for a standalone Janggi position
+  const janggiStatusText = (outcome: PositionOutcome): string => {
+    if (outcome.result === null) {
+      return outcome.inCheck ? 'Janggun!' : outcome.bikjang ? 'Bikjang!' : '';
+    }
+    return `Game Over: ${janggiResultText(outcome.result)}`;
+  };
+
+  // Standalone Janggi: show the result, or "Janggun!" / "Bikjang!" while play goes on
+  // Returns true if the game is over
+  const applyJanggiOutcome = (outcome: PositionOutcome): boolean => {
+    setGameStatus(janggiStatusText(outcome));
+    if (outcome.result === null) {
+      return false;
+    }
+
+    const resultText = janggiResultText(outcome.result);
+    let reasonText = outcome.reason ? RESULT_REASON_LABELS[outcome.reason].toLowerCase() : '';
+    if (outcome.points) {
+      // Decided by counting: Han's count includes the deom
+      reasonText = `${outcome.reason === 'bikjang' ? 'bikjang' : 'move limit'}, Han ${outcome.points.han} - Cho ${outcome.points.cho}`;
+    }
+    stopClock();
+    showToast(`Game Over: ${resultText} (${reasonText})`, 'info');
+    recordGameResult({
+      winner: outcome.result === 1 ? 'w' : outcome.result === -1 ? 'b' : null,
+      reason: outcome.reason || 'draw',
+    });
+    return true;
+  };
+
+  // A move can't be played once a flag has fallen
+  const isFlagDown = (): boolean => {
+    if (clockRef.current.getFlagged()) {
+      showToast('Game over: time ran out. Start a new game.', 'info');
+      return true;
+    }
+    return false;
+  };
+
+  const handleFlagFall = (side: ClockSide) => {
+    // Drop the engine's search, the game is decided
+    engineRef.current?.stop();
+    setIsEngineThinking(false);
+
+    const isChess = selectedVariant === 'chess';
+    const loser = side === 'w' ? (isChess ? 'White' : 'Han') : (isChess ? 'Black' : 'Cho');
+    const winner = side === 'w' ? (isChess ? 'Black' : 'Cho') : (isChess ? 'White' : 'Han');
+    setGameStatus(`${loser} lost on time`);
+    showToast(`Time out: ${winner} wins!`, 'info');
+    recordGameResult({winner: side === 'w' ? 'b' : 'w', reason: 'time'});
+  };
+
   const dismissToast = (id: string) => {
     setToasts(prev => prev.filter(t => t.id !== id));
   };
@@ -148,13 +380,7 @@ function App(): React.JSX.Element {
   };
 
   const resetStats = () => {
-    const emptyStats = {
-      whiteWins: 0,
-      blackWins: 0,
-      draws: 0,
-      totalGames: 0,
-    };
-    setStats(emptyStats);
+    setStats(EMPTY_STATS);
     showToast('Statistics reset', 'info');
   };
 
@@ -172,7 +398,11 @@ function App(): React.JSX.Element {
 
           // Load game stats
           if (savedData.stats) {
-            setStats(savedData.stats);
+            setStats(normalizeStats(savedData.stats));
+          }
+
+          if (typeof savedData.archiveAbandoned === 'boolean') {
+            setArchiveAbandoned(savedData.archiveAbandoned);
           }
 
           // Load section positions
@@ -198,6 +428,7 @@ function App(): React.JSX.Element {
         stats,
         sectionPositions,
         windowSize,
+        archiveAbandoned,
         lastUpdated: new Date().toISOString(),
       };
 
@@ -226,36 +457,54 @@ function App(): React.JSX.Element {
     }, 1000); // Save 1 second after last change
   };
 
-  const recordGameResult = async () => {
-    if (!gameRef.current.isGameOver()) {
-      console.log('Game not over, not recording result');
-      return;
-    }
+  // Record a finished game: the ending is given for time losses and Janggi
+  // (Han = 'w', Cho = 'b'), otherwise it is read from the chess game
+  const recordGameResult = async (ending?: {winner: ClockSide | null; reason: ResultReason}) => {
+    let winner: ClockSide | null;
+    let reason: ResultReason;
 
-    const newStats = {...stats};
-    newStats.totalGames += 1;
+    if (ending) {
+      ({winner, reason} = ending);
+      console.log(`Recording ${winner === null ? 'draw' : winner === 'w' ? 'White/Han win' : 'Black/Cho win'} (${reason})`);
+    } else {
+      if (!gameRef.current.isGameOver()) {
+        console.log('Game not over, not recording result');
+        return;
+      }
 
-    if (gameRef.current.isCheckmate()) {
-      // Winner is the opposite of current turn (current turn is the loser)
-      if (currentTurn === 'w') {
-        newStats.blackWins += 1;
-        console.log('Recording Black win');
+      if (gameRef.current.isCheckmate()) {
+        // Side to move is the one that got mated
+        winner = gameRef.current.turn() === 'w' ? 'b' : 'w';
+        reason = 'checkmate';
+        console.log(`Recording ${winner === 'w' ? 'White' : 'Black'} win`);
       } else {
-        newStats.whiteWins += 1;
-        console.log('Recording White win');
+        // Draw (stalemate, insufficient material, etc.)
+        winner = null;
+        reason = gameRef.current.isStalemate() ? 'stalemate' :
+          gameRef.current.isInsufficientMaterial() ? 'insufficient-material' :
+          gameRef.current.isThreefoldRepetition() ? 'threefold-repetition' : 'draw';
+        console.log('Recording Draw - isStalemate:', gameRef.current.isStalemate(),
+                    'isDraw:', gameRef.current.isDraw(),
+                    'isInsufficientMaterial:', gameRef.current.isInsufficientMaterial(),
+                    'isThreefoldRepetition:', gameRef.current.isThreefoldRepetition());
       }
-    } else {
-      // Draw (stalemate, insufficient material, etc.)
-      newStats.draws += 1;
-      console.log('Recording Draw - isStalemate:', gameRef.current.isStalemate(),
-                  'isDraw:', gameRef.current.isDraw(),
-                  'isInsufficientMaterial:', gameRef.current.isInsufficientMaterial(),
-                  'isThreefoldRepetition:', gameRef.current.isThreefoldRepetition());
     }
 
-    console.log('New stats:', newStats);
-    setStats(newStats);
+    // Human vs AI games are also counted per AI strength level
+    // (the level in effect when the game ends; janggi3's search AI is rated by depth, not level)
+    const blackIsAI = player1TypeRef.current === 'ai';
+    const whiteIsAI = player2TypeRef.current === 'ai';
+    const aiSide: ClockSide | null =
+      blackIsAI !== whiteIsAI && selectedVariant !== 'janggi3' ? (whiteIsAI ? 'w' : 'b') : null;
+    const outcome: GameOutcome = aiSide
+      ? {winner, reason, ai: {side: aiSide, strength: aiStrengthRef.current[aiSide]}}
+      : {winner, reason};
+
+    // Functional update: this can run from the clock's interval
+    setStats(prev => addGameResult(prev, outcome));
     // UI state will be saved automatically via the useEffect hook
+
+    saveToArchive({winner, reason});
   };
 
   // Load saved data on mount
@@ -281,7 +530,7 @@ function App(): React.JSX.Element {
     if (windowSize.width > 0 && windowSize.height > 0) {
       saveUIState();
     }
-  }, [sectionPositions, windowSize]);
+  }, [sectionPositions, windowSize, archiveAbandoned]);
 
   // Save immediately when stats change (game result)
   useEffect(() => {
@@ -315,6 +564,7 @@ function App(): React.JSX.Element {
 
     return () => {
       // Cleanup on unmount
+      supervisorRef.current?.stop();
       if (engineRef.current) {
         engineRef.current.quit();
       }
@@ -333,48 +583,118 @@ function App(): React.JSX.Element {
     }
   }, [selectedVariant, engineReady]);
 
+  // Keep engine's candidate line count in sync with the analysis panel selector
+  useEffect(() => {
+    if (engineRef.current && engineReady) {
+      engineRef.current.setMultiPV(multiPVCount).catch(error => {
+        console.error('Failed to set MultiPV:', error);
+      });
+    }
+  }, [multiPVCount, engineReady]);
+
+  // Remember the evaluation of every analyzed position (PGN export)
+  useEffect(() => {
+    if (analysis.length > 0 && analysisFen) {
+      evaluationsRef.current.set(analysisFen, analysis[0].score);
+    }
+  }, [analysis, analysisFen]);
+
+  // Move list labels in the variant's notation
+  const moveLabels = useMemo(
+    () => formatMoveLabels(selectedVariant, historyMoves.fens, historyMoves.moves),
+    [selectedVariant, historyMoves],
+  );
+
+  // Feed live analysis snapshots (analysis mode) into the analysis panel
+  useEffect(() => {
+    if (!engineRef.current || !engineReady) return;
+
+    return engineRef.current.subscribeAnalysis((snapshot, fen) => {
+      setAnalysis(toAnalysisLines(snapshot));
+      setAnalysisTurn(fen.split(' ')[1] === 'b' ? 'b' : 'w');
+      setAnalysisFen(fen);
+    });
+  }, [engineReady]);
+
+  // Analysis mode: keep one infinite analysis running on the displayed position
+  useEffect(() => {
+    if (!engineRef.current || !engineReady) return;
+
+    if (gameMode !== 'analysis' || selectedVariant === 'janggi3') {
+      engineRef.current.stopAnalysis().catch(error => {
+        console.error('Failed to stop live analysis:', error);
+      });
+      return;
+    }
+
+    // The position viewed from the move list, otherwise the live one
+    const viewed = viewedPly !== null ? moveHistoryRef.current.positionAt(viewedPly) : null;
+    const fen = viewed?.fen ?? (selectedVariant === 'janggi2' ? janggiFen : currentFen);
+    engineRef.current.startAnalysis(fen).catch(error => {
+      console.error('Failed to start live analysis:', error);
+    });
+  }, [gameMode, selectedVariant, currentFen, janggiFen, engineReady, viewedPly]);
+
+  // New time control or variant: reset the clock (it starts with the first move)
+  useEffect(() => {
+    clockRef.current.reset(timeControl);
+    setClockSnapshot(clockRef.current.snapshot());
+  }, [timeControl, selectedVariant]);
+
+  // Tick the clock display and detect flag fall
+  useEffect(() => {
+    if (timeControl.type === 'none') return;
+
+    const interval = setInterval(() => {
+      const clock = clockRef.current;
+      const flagged = clock.checkFlag();
+      if (flagged) {
+        setClockSnapshot(clock.snapshot());
+        handleFlagFall(flagged);
+      } else if (clock.snapshot().running) {
+        setClockSnapshot(clock.snapshot());
+      }
+    }, 100); // Tenths are shown under ten seconds
+
+    return () => clearInterval(interval);
+  }, [timeControl, selectedVariant]);
+
   // Keep refs in sync with player type state so AI chains can see real-time changes
   useEffect(() => {
     player1TypeRef.current = player1Type;
     player2TypeRef.current = player2Type;
   }, [player1Type, player2Type]);
 
-  // Auto-start AI vs AI games for janggi3 when starting player is AI
   useEffect(() => {
-    // Only for standalone variant janggi3
-    if (selectedVariant !== 'janggi3') return;
+    aiStrengthRef.current = aiStrength;
+  }, [aiStrength]);
 
-    // Check if starting player (Han/player2) is AI and game is at start (move count = 0)
-    if (player2Type === 'ai' && currentGameMoves === 0) {
-      // Small delay to ensure board is rendered
-      const timer = setTimeout(() => {
-        makeJanggi3AIMove(janggi3Board, janggi3Turn);
-      }, 500);
-      return () => clearTimeout(timer);
-    }
-  }, [selectedVariant, player2Type, currentGameMoves]);
+  useEffect(() => {
+    janggiSearchDepthRef.current = janggiSearchDepth;
+  }, [janggiSearchDepth]);
 
-  // Auto-start AI vs AI games for janggi2 when starting player is AI
   useEffect(() => {
-    // Only for janggi2 variant
-    if (selectedVariant !== 'janggi2') return;
+    aiSetupPolicyRef.current = aiSetupPolicy;
+  }, [aiSetupPolicy]);
 
-    // Only if engine is ready
-    if (!engineRef.current || !engineReady) {
-      console.log(`[Janggi2 Auto-start] Engine not ready`);
+  // Auto-start standalone Janggi games when the starting player (Han) is AI
+  useEffect(() => {
+    if (selectedVariant !== 'janggi2' && selectedVariant !== 'janggi3') return;
+
+    // The engine opponent needs a ready engine
+    if (selectedVariant === 'janggi2' && (!engineRef.current || !engineReady)) {
+      console.log(`[Janggi Auto-start] Engine not ready`);
       return;
     }
 
     // Check if starting player (Han/player2) is AI and game is at start (move count = 0)
     if (player2Type === 'ai' && currentGameMoves === 0) {
-      console.log(`[Janggi2 Auto-start] Starting AI move (player2=${player2Type}, moves=${currentGameMoves})`);
+      console.log(`[Janggi Auto-start] Starting AI move (player2=${player2Type}, moves=${currentGameMoves})`);
       // Small delay to ensure board is rendered and engine is ready
       const timer = setTimeout(() => {
-        makeJanggi2AIMove(janggi2Board, janggi2Turn);
+        makeJanggiAIMove(janggiBoard, janggiTurn);
       }, 500);
       return () => clearTimeout(timer);
-    } else {
-      console.log(`[Janggi2 Auto-start] Not starting (player2=${player2Type}, moves=${currentGameMoves})`);
     }
   }, [selectedVariant, player2Type, currentGameMoves, engineReady]);
 
@@ -387,19 +707,21 @@ function App(): React.JSX.Element {
       // Only analyze if engine is ready and at least one player is human
       if (!engineRef.current || !engineReady) return;
       if (player1Type === 'ai' && player2Type === 'ai') return;
+      // Analysis mode streams its own updates
+      if (gameMode === 'analysis') return;
 
       // Check if current player is human
       const currentPlayerType = currentTurn === 'w' ? player2Type : player1Type;
       if (currentPlayerType === 'human') {
         try {
           setIsAnalyzing(true);
-          const fen = selectedVariant === 'janggi' ? currentFen : selectedVariant === 'janggi2' ? janggi2Fen : gameRef.current.fen();
+          const fen = selectedVariant === 'janggi' ? currentFen : selectedVariant === 'janggi2' ? janggiFen : gameRef.current.fen();
           const moveAnalysis = await engineRef.current.analyze(fen, 15);
-          setAnalysis([moveAnalysis]);
+          setAnalysis(toAnalysisLines(moveAnalysis));
           setAnalysisTurn(currentTurn);
           setAnalysisFen(fen);
         } catch (error) {
-          console.error('Error analyzing after player type change:', error);
+          reportEngineError('Error analyzing after player type change:', error);
         } finally {
           setIsAnalyzing(false);
         }
@@ -407,7 +729,7 @@ function App(): React.JSX.Element {
     };
 
     triggerAnalysis();
-  }, [player1Type, player2Type, janggi2Fen, currentTurn]);
+  }, [player1Type, player2Type, janggiFen, currentTurn]);
 
   const initializeApp = async () => {
     try {
@@ -527,6 +849,17 @@ function App(): React.JSX.Element {
     );
   };
 
+  // Engine supervisor reports: restarted (position restored) or gave up
+  const handleEngineIncident = (incident: EngineIncident) => {
+    const cause = incident.error instanceof EngineCrashedError ? 'crashed' : 'stopped responding';
+    if (incident.recovered) {
+      showToast(`Engine ${cause} - restarted and restored the position`, 'warning');
+    } else {
+      setEngineReady(false);
+      showToast(`Engine ${cause} and could not be restarted`, 'error');
+    }
+  };
+
   const initializeEngine = async () => {
     try {
       console.log('Initializing chess engine...');
@@ -536,6 +869,12 @@ function App(): React.JSX.Element {
       const engineVariant = selectedVariant === 'janggi2' ? 'janggi' : selectedVariant;
       const engine = await createXBoardEngine(engineVariant);
       engineRef.current = engine;
+      await engine.setMultiPV(multiPVCount);
+
+      // Watch the engine process; it is respawned in place if it dies or hangs
+      supervisorRef.current?.stop();
+      supervisorRef.current = new EngineSupervisor(engine, handleEngineIncident);
+      supervisorRef.current.start();
 
       setEngineReady(true);
       console.log('✅ Engine ready!');
@@ -544,12 +883,12 @@ function App(): React.JSX.Element {
       try {
         const startingFen = gameRef.current.fen();
         const initialAnalysis = await engine.analyze(startingFen, 15);
-        setAnalysis([initialAnalysis]);
+        setAnalysis(toAnalysisLines(initialAnalysis));
         setAnalysisTurn('w'); // Starting position is white's turn
         setAnalysisFen(startingFen); // Store the FEN this analysis is for
         console.log('✅ Initial analysis complete');
       } catch (error) {
-        console.error('Error getting initial analysis:', error);
+        reportEngineError('Error getting initial analysis:', error);
       }
     } catch (error) {
       console.error('Failed to initialize engine:', error);
@@ -563,86 +902,31 @@ function App(): React.JSX.Element {
   const switchVariant = async (variant: GameVariant) => {
     try {
       console.log(`Switching to variant: ${variant}`);
+      cancelJanggiAI();
+
+      // Standalone Janggi rules: janggi3 plays the built-in opponent, janggi2 the engine
+      if (variant === 'janggi2' || variant === 'janggi3') {
+        if (variant === 'janggi2') {
+          if (!engineRef.current || !engineReady) {
+            console.log('Engine not ready, cannot switch to janggi2');
+            return;
+          }
 
-      // Janggi3 is standalone - no engine needed
-      if (variant === 'janggi3') {
-        const initialBoard = createInitialBoard();
-        setJanggi3Board(initialBoard);
-        setJanggi3Turn(true); // Han starts
-        setJanggi3HighlightedMoves([]);
-
-        // Clear engine analysis (not used for janggi3)
-        setAnalysis([]);
-        setAnalysisTurn(null);
-        setAnalysisFen('');
-
-        // If Han (bottom/player2) is AI, make first move
-        if (player2Type === 'ai') {
-          Promise.resolve().then(() => makeJanggi3AIMove(initialBoard, true));
-        }
-
-        // Reset game counters
-        setCurrentGameMoves(0);
-        setRecentMoveTimestamps([]);
-        setMovesPerMinute(0);
-        setCurrentTurn('w');
-        setGameStatus('');
-        setMoveSequence([]);
-        setHoveredMove(null);
-
-        showToast(`Switched to ${variant}`, 'success');
-        console.log(`✅ Successfully switched to ${variant}`);
-        return; // Exit early - no engine needed
-      }
-
-      // Janggi2 - engine-integrated implementation
-      if (variant === 'janggi2') {
-        // For janggi2, check if engine is ready
-        if (!engineRef.current || !engineReady) {
-          console.log('Engine not ready, cannot switch to janggi2');
-          return;
-        }
-
-        // Tell engine to switch to janggi variant (janggi2 uses same rules)
-        await engineRef.current.setVariant('janggi');
-
-        // Initialize janggi2 board
-        const initialBoard = createJanggi2InitialBoard();
-        setJanggi2Board(initialBoard);
-        setJanggi2Turn(true); // Han starts
-        setJanggi2HighlightedMoves([]);
-
-        // Convert initial board to FEN for engine
-        const initialFen = janggi2BoardToFEN(initialBoard, true, 1);
-        setJanggi2Fen(initialFen);
-        setCurrentFen(initialFen);
-
-        // Get initial analysis for janggi2
-        try {
-          const initialAnalysis = await engineRef.current.analyze(initialFen, 15);
-          setAnalysis([initialAnalysis]);
-          setAnalysisTurn('w');
-          setAnalysisFen(initialFen);
-        } catch (error) {
-          console.error('Error getting initial analysis:', error);
+          // Tell engine to switch to janggi variant (janggi2 uses same rules)
+          await engineRef.current.stopAnalysis();
+          await engineRef.current.setVariant('janggi');
         }
 
-        // If Han (bottom/player2) is AI, make first move
-        if (player2Type === 'ai') {
-          Promise.resolve().then(() => makeJanggi2AIMove(initialBoard, true));
-        }
+        // Formations first; the game starts once both sides have chosen
+        beginJanggiSetup(variant);
 
         // Reset game counters
         setCurrentGameMoves(0);
         setRecentMoveTimestamps([]);
         setMovesPerMinute(0);
-        setCurrentTurn('w');
-        setGameStatus('');
-        setMoveSequence([]);
-        setHoveredMove(null);
 
         showToast(`Switched to ${variant}`, 'success');
-        console.log(`✅ Successfully switched to ${variant} with NNUE engine`);
+        console.log(`✅ Successfully switched to ${variant}`);
         return;
       }
 
@@ -653,47 +937,55 @@ function App(): React.JSX.Element {
       }
 
       // Tell engine to switch variant
+      await engineRef.current.stopAnalysis();
       await engineRef.current.setVariant(variant);
 
       // Reset game state based on variant
+      let startingFen: string | undefined;
       if (variant === 'chess') {
         // Standard chess starting position
         gameRef.current.reset();
-        const startingFen = gameRef.current.fen();
+        startingFen = gameRef.current.fen();
         setCurrentFen(startingFen);
 
-        // Get initial analysis for chess
-        try {
-          const initialAnalysis = await engineRef.current.analyze(startingFen, 15);
-          setAnalysis([initialAnalysis]);
-          setAnalysisTurn('w');
-          setAnalysisFen(startingFen);
-        } catch (error) {
-          console.error('Error getting initial analysis:', error);
+        // Get initial analysis for chess (analysis mode streams its own)
+        if (gameMode !== 'analysis') {
+          try {
+            const initialAnalysis = await engineRef.current.analyze(startingFen, 15);
+            setAnalysis(toAnalysisLines(initialAnalysis));
+            setAnalysisTurn('w');
+            setAnalysisFen(startingFen);
+          } catch (error) {
+            reportEngineError('Error getting initial analysis:', error);
+          }
         }
       } else if (variant === 'janggi') {
         // Janggi starting position (9x10 board)
         // Generals (k/K) are in the CENTER of their palaces (rank 1 and 8, file 4)
         const janggiStartingFen =
           'rnba1abnr/4k4/1c5c1/p1p1p1p1p/9/9/P1P1P1P1P/1C5C1/4K4/RNBA1ABNR w - - 0 1';
+        startingFen = janggiStartingFen;
         setCurrentFen(janggiStartingFen);
 
-        // Get initial analysis for Janggi
-        try {
-          const initialAnalysis = await engineRef.current.analyze(
-            janggiStartingFen,
-            15,
-          );
-          setAnalysis([initialAnalysis]);
-          setAnalysisTurn('w');
-          setAnalysisFen(janggiStartingFen);
-        } catch (error) {
-          console.error('Error getting initial analysis:', error);
+        // Get initial analysis for Janggi (analysis mode streams its own)
+        if (gameMode !== 'analysis') {
+          try {
+            const initialAnalysis = await engineRef.current.analyze(
+              janggiStartingFen,
+              15,
+            );
+            setAnalysis(toAnalysisLines(initialAnalysis));
+            setAnalysisTurn('w');
+            setAnalysisFen(janggiStartingFen);
+          } catch (error) {
+            reportEngineError('Error getting initial analysis:', error);
+          }
         }
       }
 
       // Reset game counters
       setCurrentGameMoves(0);
+      resetGameHistory(startingFen ? {fen: startingFen, key: fenPositionKey(startingFen)} : undefined);
       setRecentMoveTimestamps([]);
       setMovesPerMinute(0);
       setCurrentTurn('w');
@@ -709,58 +1001,271 @@ function App(): React.JSX.Element {
     }
   };
 
-  const handleJanggi3Move = async (from: Position, to: Position) => {
-    // Validate move is legal
-    const legalMoves = getJanggi3LegalMoves(janggi3Board, from, janggi3Turn);
-    const isLegalMove = legalMoves.some(
-      move => move.to.row === to.row && move.to.col === to.col
+  // Engine search for the janggi2 opponent, at the moving side's strength and clock
+  // Rejects while the engine is down: null would mean the side has no move
+  const searchJanggiEngine = async (fen: string, isHanTurn: boolean): Promise<string | null> => {
+    if (!engineRef.current || !engineReady) {
+      throw new EngineError('Engine not ready for janggi2 AI move');
+    }
+
+    const thinkTime = (player1TypeRef.current === 'ai' && player2TypeRef.current === 'ai') ? 50 : 500;
+    await engineRef.current.setStrength(aiStrengthRef.current[isHanTurn ? 'w' : 'b']);
+    return isClockedGame()
+      ? await engineRef.current.getClockedMove(fen, clockRef.current.engineClock())
+      : await engineRef.current.getBestMove(fen, thinkTime);
+  };
+
+  // Search budget for the janggi3 opponent: selected depth, think time from the moving side's clock
+  const getJanggiSearchBudget = (isHanTurn: boolean): SearchBudget => {
+    if (!isClockedGame()) {
+      return {maxDepth: janggiSearchDepthRef.current, timeMs: SEARCH_TIME_MS};
+    }
+    const clock = clockRef.current.engineClock();
+    const timeLeft = isHanTurn ? clock.whiteMs : clock.blackMs;
+    return {maxDepth: janggiSearchDepthRef.current, timeMs: clockedSearchTime(timeLeft, clock.incrementMs)};
+  };
+
+  // The engine's move was rejected and the built-in search moved instead
+  const handleEngineFallback: EngineFallbackListener = (engineMove, reason) => {
+    showToast(
+      reason === 'illegal'
+        ? `Engine move ${engineMove} is illegal here, the built-in AI moved instead`
+        : `Engine move ${engineMove} would repeat a position, the built-in AI moved instead`,
+      'warning',
     );
+  };
 
-    if (!isLegalMove) {
-      showToast('Invalid move', 'error');
-      return;
+  // Opponent provider over the shared Janggi rules
+  const getJanggiOpponent = (variant: GameVariant): JanggiOpponent => {
+    return variant === 'janggi2'
+      ? createEngineOpponent(searchJanggiEngine, handleEngineFallback)
+      : createStandaloneOpponent(getJanggiSearchBudget, setJanggiSearchProgress);
+  };
+
+  // Drop the pending Janggi AI move (new game, variant switch)
+  const cancelJanggiAI = () => {
+    if (janggiAITimerRef.current) {
+      clearTimeout(janggiAITimerRef.current);
+      janggiAITimerRef.current = null;
+    }
+    const opponent = janggiOpponentRef.current;
+    janggiOpponentRef.current = null;
+    if (opponent) {
+      opponent.cancel();
+      setIsEngineThinking(false);
     }
+    setJanggiSearchProgress(null);
+  };
 
-    // Apply move to create new board
-    const newBoard = applyJanggi3Move(janggi3Board, { from, to });
-    setJanggi3Board(newBoard);
+  const analyzeJanggiPosition = async (fen: string, isHanTurn: boolean) => {
+    if (!engineRef.current || !engineReady) return;
+
+    try {
+      setIsAnalyzing(true);
+      const moveAnalysis = await engineRef.current.analyze(fen, 15);
+      setAnalysis(toAnalysisLines(moveAnalysis));
+      setAnalysisTurn(isHanTurn ? 'w' : 'b');
+      setAnalysisFen(fen);
+    } catch (error) {
+      reportEngineError('Error analyzing position:', error);
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
 
-    // Switch turn
-    const newTurn = !janggi3Turn;
-    setJanggi3Turn(newTurn);
+  // Play a validated move on the Janggi board: update board, turn, clock, FEN,
+  // history and counters, then check for the end of the game
+  const playJanggiMove = (board: JanggiBoard_Type, isHanTurn: boolean, move: JanggiMove) => {
+    const newBoard = applyJanggiMove(board, move);
+    const newTurn = !isHanTurn;
+    setJanggiBoard(newBoard);
+    setJanggiTurn(newTurn);
+    punchClock(isHanTurn ? 'w' : 'b');
+
+    // FEN for the engine; currentTurn for the analysis panel (Han=w, Cho=b)
+    const newFen = janggiBoardToFEN(newBoard, newTurn, 1);
+    recordPly(janggiMoveToEngineNotation(move), {fen: newFen, key: janggiHashAfter(board, isHanTurn, move), board: newBoard});
+    setJanggiFen(newFen);
+    setCurrentFen(newFen);
+    setCurrentTurn(newTurn ? 'w' : 'b');
 
     // Increment move counter and add timestamp
     setCurrentGameMoves(prev => prev + 1);
+    gamePliesRef.current += 1;
     setRecentMoveTimestamps(prev => [...prev, Date.now()]);
 
     // Clear highlighted moves
-    setJanggi3HighlightedMoves([]);
-
-    // Check for game over
-    const gameResult = getGameResult(newBoard);
-    if (gameResult !== null) {
-      const resultText = gameResult === 1 ? 'Han wins!' : gameResult === -1 ? 'Cho wins!' : 'Draw';
-      setGameStatus(`Game Over: ${resultText}`);
-      showToast(`Game Over: ${resultText}`, 'info');
+    setJanggiHighlightedMoves([]);
+
+    const isGameOver = applyJanggiOutcome(getGameOutcome(newBoard, newTurn, board, gamePliesRef.current));
+    return {newBoard, newTurn, newFen, isGameOver};
+  };
+
+  // A move is allowed unless it repeats a position too often (the repeating side must vary)
+  const isJanggiMoveAllowed = (board: JanggiBoard_Type, isHanTurn: boolean, move: JanggiMove, variant: GameVariant) => {
+    return !positionHistoryRef.current.isForbidden(janggiHashAfter(board, isHanTurn, move), REPETITION_RULES[variant]);
+  };
+
+  const handleJanggiMove = async (from: Position, to: Position) => {
+    if (isFlagDown()) {
+      return;
+    }
+
+    // Validate move is legal (a pass is the general staying on its square)
+    const move = {from, to};
+    const isLegalMove = isPassMove(move)
+      ? getPassMove(janggiBoard, janggiTurn) !== null
+      : getJanggiLegalMoves(janggiBoard, from, janggiTurn).some(
+          legal => legal.to.row === to.row && legal.to.col === to.col
+        );
+
+    if (!isLegalMove) {
+      showToast('Invalid move', 'error');
+      return;
+    }
+
+    if (!isJanggiMoveAllowed(janggiBoard, janggiTurn, move, selectedVariant)) {
+      showToast('Repetition: this move repeats the position too often', 'error');
+      return;
+    }
+
+    const {newBoard, newTurn, newFen, isGameOver} = playJanggiMove(janggiBoard, janggiTurn, move);
+    if (isGameOver) {
       return;
     }
 
-    // Check if next player is AI and should auto-move
     // Han (bottom) = player2, Cho (top) = player1
     // Use refs to see real-time player type changes
-    const currentPlayerType = newTurn ? player2TypeRef.current : player1TypeRef.current;
-    if (currentPlayerType === 'ai') {
-      // Trigger AI move after a short delay
-      Promise.resolve().then(() => makeJanggi3AIMove(newBoard, newTurn));
+    const nextPlayerType = newTurn ? player2TypeRef.current : player1TypeRef.current;
+
+    // Get analysis for new position with the engine opponent (analysis mode streams its own)
+    // In timed games the engine's clock is already running: let it move first
+    const engineToMove = isClockedGame() && nextPlayerType === 'ai';
+    if (getJanggiOpponent(selectedVariant).usesEngine && gameMode !== 'analysis' && !engineToMove) {
+      await analyzeJanggiPosition(newFen, newTurn);
+    }
+
+    // Check if next player is AI and should auto-move
+    if (nextPlayerType === 'ai') {
+      Promise.resolve().then(() => makeJanggiAIMove(newBoard, newTurn));
+    }
+  };
+
+  const handleJanggiPass = () => {
+    if (pendingJanggiSetupRef.current) {
+      return;
+    }
+    const pass = getPassMove(janggiBoard, janggiTurn);
+    if (!pass) {
+      showToast('Cannot pass while in check (Janggun)', 'error');
+      return;
+    }
+    handleJanggiMove(pass.from, pass.to);
+  };
+
+  // Start a standalone Janggi game from the chosen formations
+  const startJanggiGame = async (variant: GameVariant, setups: GameSetups) => {
+    const initialBoard = createInitialBoard(setups.han, setups.cho);
+    setJanggiBoard(initialBoard);
+    setJanggiTurn(true); // Han starts
+    setJanggiHighlightedMoves([]);
+    setGameStatus('');
+
+    // FEN for the engine and the analysis panel
+    const initialFen = janggiBoardToFEN(initialBoard, true, 1);
+    resetGameHistory({fen: initialFen, key: hashBoard(initialBoard, true), board: initialBoard});
+    setJanggiFen(initialFen);
+    setCurrentFen(initialFen);
+    setCurrentTurn('w');
+
+    // Engine analysis only with the engine opponent (analysis mode streams its own)
+    setAnalysis([]);
+    setAnalysisTurn(null);
+    setAnalysisFen('');
+    setMoveSequence([]);
+    setHoveredMove(null);
+    if (getJanggiOpponent(variant).usesEngine && gameMode !== 'analysis') {
+      await analyzeJanggiPosition(initialFen, true);
+    }
+
+    // If Han (bottom/player2) is AI, make first move
+    if (player2TypeRef.current === 'ai') {
+      Promise.resolve().then(() => makeJanggiAIMove(initialBoard, true, variant));
+    }
+  };
+
+  // Pre-game formation step: Cho chooses first, then Han.
+  // AI players choose by policy, human players in the setup picker.
+  const advanceJanggiSetup = (variant: GameVariant, chosen: Partial<GameSetups>) => {
+    const next = {...chosen};
+    if (next.cho === undefined && player1TypeRef.current === 'ai') {
+      next.cho = chooseSetup(aiSetupPolicyRef.current, next.han ?? null);
+    }
+    if (next.cho !== undefined && next.han === undefined && player2TypeRef.current === 'ai') {
+      next.han = chooseSetup(aiSetupPolicyRef.current, next.cho);
+    }
+
+    if (next.cho !== undefined && next.han !== undefined) {
+      pendingJanggiSetupRef.current = null;
+      setPendingJanggiSetup(null);
+      console.log(`[Janggi] Formations: Han ${SETUP_LABELS[next.han]}, Cho ${SETUP_LABELS[next.cho]}`);
+      startJanggiGame(variant, {han: next.han, cho: next.cho});
+      return;
+    }
+
+    // Wait for the human player; the board previews the choices so far
+    pendingJanggiSetupRef.current = next;
+    setPendingJanggiSetup(next);
+    setJanggiBoard(createInitialBoard(next.han ?? Setup.MSSM, next.cho ?? Setup.MSSM));
+    setJanggiHighlightedMoves([]);
+    setGameStatus('');
+  };
+
+  const beginJanggiSetup = (variant: GameVariant) => {
+    advanceJanggiSetup(variant, {});
+  };
+
+  const handleJanggiSetupChoice = (setup: Setup) => {
+    const pending = pendingJanggiSetupRef.current;
+    if (!pending) {
+      return;
     }
+    const side = pending.cho === undefined ? 'cho' : 'han';
+    advanceJanggiSetup(selectedVariant, {...pending, [side]: setup});
   };
 
-  const makeJanggi3AIMove = async (board: Janggi3Board_Type, isHanTurn: boolean) => {
+  const makeJanggiAIMove = async (board: JanggiBoard_Type, isHanTurn: boolean, variant: GameVariant = selectedVariant) => {
+    // Not before the formations are chosen, and one move at a time
+    // (the auto-start timer can fire while the first move is being searched)
+    if (pendingJanggiSetupRef.current || janggiOpponentRef.current) {
+      return;
+    }
+    // The position was taken back before this move was started
+    if (moveHistoryRef.current.current()?.board !== board) {
+      return;
+    }
+
+    let opponent: JanggiOpponent | null = null;
     try {
+      console.log(`[Janggi AI] Starting move for ${isHanTurn ? 'Han (red)' : 'Cho (blue)'}`);
       setIsEngineThinking(true);
 
-      // Get AI move
-      const aiMove = getJanggi3AIMove(board, isHanTurn);
+      // Get the opponent's move, avoiding forbidden repetitions
+      opponent = getJanggiOpponent(variant);
+      janggiOpponentRef.current = opponent;
+      const aiMove = await opponent.getMove(board, isHanTurn, move =>
+        isJanggiMoveAllowed(board, isHanTurn, move, variant)
+      );
+      if (janggiOpponentRef.current !== opponent) {
+        console.log('[Janggi AI] Move cancelled');
+        return;
+      }
+      janggiOpponentRef.current = null;
+      setJanggiSearchProgress(null);
+      if (clockRef.current.getFlagged()) {
+        setIsEngineThinking(false);
+        return;
+      }
       if (!aiMove) {
         setGameStatus('No legal moves - Game Over');
         showToast('No legal moves available', 'info');
@@ -768,237 +1273,58 @@ function App(): React.JSX.Element {
         return;
       }
 
-      // Apply AI move
-      const newBoard = applyJanggi3Move(board, aiMove);
-      setJanggi3Board(newBoard);
-
-      // Switch turn
-      const newTurn = !isHanTurn;
-      setJanggi3Turn(newTurn);
-
-      // Increment move counter
-      setCurrentGameMoves(prev => prev + 1);
-      setRecentMoveTimestamps(prev => [...prev, Date.now()]);
-
+      const {newBoard, newTurn, newFen, isGameOver} = playJanggiMove(board, isHanTurn, aiMove);
       setIsEngineThinking(false);
-
-      // Check for game over
-      const gameResult = getGameResult(newBoard);
-      if (gameResult !== null) {
-        const resultText = gameResult === 1 ? 'Han wins!' : gameResult === -1 ? 'Cho wins!' : 'Draw';
-        setGameStatus(`Game Over: ${resultText}`);
-        showToast(`Game Over: ${resultText}`, 'info');
+      if (isGameOver) {
         return;
       }
 
+      // Get analysis for new position (engine opponent, at least one human player)
+      if (opponent.usesEngine && (player1TypeRef.current === 'human' || player2TypeRef.current === 'human')) {
+        await analyzeJanggiPosition(newFen, newTurn);
+      }
+
       // Check if next player is also AI (AI vs AI mode)
       // Han (bottom) = player2, Cho (top) = player1
       // Use refs to see real-time player type changes
       const nextPlayerType = newTurn ? player2TypeRef.current : player1TypeRef.current;
       if (nextPlayerType === 'ai') {
         // Continue AI vs AI
-        setTimeout(() => makeJanggi3AIMove(newBoard, newTurn), 1000);
+        janggiAITimerRef.current = setTimeout(() => {
+          janggiAITimerRef.current = null;
+          makeJanggiAIMove(newBoard, newTurn, variant);
+        }, 1000);
       }
     } catch (error) {
-      console.error('Error making AI move:', error);
+      reportEngineError('[Janggi AI] Error making AI move:', error);
+      if (!isEngineJobCancelled(error)) {
+        showToast(`The AI could not move: ${error instanceof Error ? error.message : String(error)}`, 'error');
+      }
       setIsEngineThinking(false);
+    } finally {
+      // A failed search must not leave the next AI move blocked behind this one
+      if (opponent && janggiOpponentRef.current === opponent) {
+        janggiOpponentRef.current = null;
+        setJanggiSearchProgress(null);
+      }
     }
   };
 
-  const handleJanggi2Move = async (from: Janggi2Position, to: Janggi2Position) => {
-    // Validate move is legal
-    const legalMoves = getJanggi2LegalMoves(janggi2Board, from, janggi2Turn);
-    const isLegalMove = legalMoves.some(
-      move => move.to.row === to.row && move.to.col === to.col
-    );
-
-    if (!isLegalMove) {
-      showToast('Invalid move', 'error');
+  const handleMove = async (from: Square, to: Square) => {
+    if (isFlagDown()) {
       return;
     }
 
-    // Apply move to create new board
-    const newBoard = applyJanggi2Move(janggi2Board, { from, to });
-    setJanggi2Board(newBoard);
-
-    // Switch turn
-    const newTurn = !janggi2Turn;
-    setJanggi2Turn(newTurn);
-
-    // Update FEN
-    const newFen = janggi2BoardToFEN(newBoard, newTurn, 1);
-    setJanggi2Fen(newFen);
-    setCurrentFen(newFen);
-
-    // Update currentTurn for analysis panel (Han=w, Cho=b)
-    setCurrentTurn(newTurn ? 'w' : 'b');
+    // DON'T clear analysis - keep previous suggestions visible during AI thinking
+    // (the engine discards the stale analysis itself once a newer request is queued)
 
     // Increment move counter and add timestamp
     setCurrentGameMoves(prev => prev + 1);
+    gamePliesRef.current += 1;
     setRecentMoveTimestamps(prev => [...prev, Date.now()]);
 
-    // Clear highlighted moves
-    setJanggi2HighlightedMoves([]);
-
-    // Check for game over
-    const gameResult = getJanggi2GameResult(newBoard);
-    if (gameResult !== null) {
-      const resultText = gameResult === 1 ? 'Han wins!' : gameResult === -1 ? 'Cho wins!' : 'Draw';
-      setGameStatus(`Game Over: ${resultText}`);
-      showToast(`Game Over: ${resultText}`, 'info');
-      return;
-    }
-
-    // Get analysis for new position (if engine is available)
-    if (engineRef.current && engineReady) {
-      try {
-        setIsAnalyzing(true);
-        const moveAnalysis = await engineRef.current.analyze(newFen, 15);
-        setAnalysis([moveAnalysis]);
-        setAnalysisTurn(newTurn ? 'w' : 'b');
-        setAnalysisFen(newFen);
-        setIsAnalyzing(false);
-      } catch (error) {
-        console.error('Error analyzing position:', error);
-        setIsAnalyzing(false);
-      }
-    }
-
-    // Check if next player is AI and should auto-move
-    // Han (bottom) = player2, Cho (top) = player1
-    // Use refs to see real-time player type changes
-    const currentPlayerType = newTurn ? player2TypeRef.current : player1TypeRef.current;
-    if (currentPlayerType === 'ai') {
-      // Trigger AI move after a short delay
-      Promise.resolve().then(() => makeJanggi2AIMove(newBoard, newTurn));
-    }
-  };
-
-  const makeJanggi2AIMove = async (board: Janggi2Board_Type, isHanTurn: boolean) => {
-    try {
-      console.log(`[Janggi2 AI] Starting move for ${isHanTurn ? 'Han (red)' : 'Cho (blue)'}`);
-      setIsEngineThinking(true);
-
-      // Check if engine is available
-      if (!engineRef.current || !engineReady) {
-        console.error('[Janggi2 AI] Engine not ready for janggi2 AI move');
-        setIsEngineThinking(false);
-        return;
-      }
-
-      // Convert board to FEN for engine
-      const currentFen = janggi2BoardToFEN(board, isHanTurn, 1);
-      console.log(`[Janggi2 AI] Current FEN: ${currentFen}`);
-
-      // Get best move from NNUE engine
-      const thinkTime = (player1TypeRef.current === 'ai' && player2TypeRef.current === 'ai') ? 50 : 500;
-      const engineMove = await engineRef.current.getBestMove(currentFen, thinkTime);
-      console.log(`[Janggi2 AI] Engine move: ${engineMove}`);
-
-      if (!engineMove) {
-        console.error('[Janggi2 AI] No legal moves available');
-        setGameStatus('No legal moves - Game Over');
-        showToast('No legal moves available', 'info');
-        setIsEngineThinking(false);
-        return;
-      }
-
-      // Parse engine move notation (e.g., "a0b1" or "a9b10") to Position objects
-      // Extract from square: first character is file, remaining digits until next letter are rank
-      const fromCol = engineMove.charCodeAt(0) - 'a'.charCodeAt(0);
-      let fromRankEnd = 1;
-      while (fromRankEnd < engineMove.length && /\d/.test(engineMove[fromRankEnd])) {
-        fromRankEnd++;
-      }
-      const fromRow = parseInt(engineMove.substring(1, fromRankEnd));
-
-      // Extract to square: next character after fromRank is file, remaining are rank
-      const toCol = engineMove.charCodeAt(fromRankEnd) - 'a'.charCodeAt(0);
-      const toRow = parseInt(engineMove.substring(fromRankEnd + 1));
-
-      const from: Janggi2Position = { row: fromRow, col: fromCol };
-      const to: Janggi2Position = { row: toRow, col: toCol };
-      console.log(`[Janggi2 AI] Parsed move: from (${fromRow}, ${fromCol}) to (${toRow}, ${toCol})`);
-
-      // Apply AI move
-      const newBoard = applyJanggi2Move(board, { from, to });
-      console.log(`[Janggi2 AI] Board updated, setting state`);
-      setJanggi2Board(newBoard);
-
-      // Switch turn
-      const newTurn = !isHanTurn;
-      setJanggi2Turn(newTurn);
-
-      // Update FEN
-      const newFen = janggi2BoardToFEN(newBoard, newTurn, 1);
-      setJanggi2Fen(newFen);
-      setCurrentFen(newFen);
-
-      // Update currentTurn for analysis panel (Han=w, Cho=b)
-      setCurrentTurn(newTurn ? 'w' : 'b');
-
-      // Increment move counter
-      setCurrentGameMoves(prev => prev + 1);
-      setRecentMoveTimestamps(prev => [...prev, Date.now()]);
-
-      setIsEngineThinking(false);
-
-      // Check for game over
-      const gameResult = getJanggi2GameResult(newBoard);
-      if (gameResult !== null) {
-        const resultText = gameResult === 1 ? 'Han wins!' : gameResult === -1 ? 'Cho wins!' : 'Draw';
-        setGameStatus(`Game Over: ${resultText}`);
-        showToast(`Game Over: ${resultText}`, 'info');
-        return;
-      }
-
-      // Get analysis for new position (if at least one player is human)
-      if (player1TypeRef.current === 'human' || player2TypeRef.current === 'human') {
-        try {
-          setIsAnalyzing(true);
-          const moveAnalysis = await engineRef.current.analyze(newFen, 15);
-          setAnalysis([moveAnalysis]);
-          setAnalysisTurn(newTurn ? 'w' : 'b');
-          setAnalysisFen(newFen);
-          setIsAnalyzing(false);
-        } catch (error) {
-          console.error('Error analyzing position:', error);
-          setIsAnalyzing(false);
-        }
-      }
-
-      // Check if next player is also AI (AI vs AI mode)
-      // Han (bottom) = player2, Cho (top) = player1
-      // Use refs to see real-time player type changes
-      const nextPlayerType = newTurn ? player2TypeRef.current : player1TypeRef.current;
-      console.log(`[Janggi2 AI] Next turn: ${newTurn ? 'Han' : 'Cho'}, player type: ${nextPlayerType}`);
-      if (nextPlayerType === 'ai') {
-        // Continue AI vs AI
-        console.log(`[Janggi2 AI] Scheduling next AI move in 1 second`);
-        setTimeout(() => makeJanggi2AIMove(newBoard, newTurn), 1000);
-      } else {
-        console.log(`[Janggi2 AI] Next player is human, waiting for input`);
-      }
-    } catch (error) {
-      console.error('[Janggi2 AI] Error making AI move:', error);
-      setIsEngineThinking(false);
-    }
-  };
-
-
-  const handleMove = async (from: Square, to: Square) => {
-    // Increment request ID to invalidate any pending analysis
-    analysisRequestIdRef.current += 1;
-    const thisRequestId = analysisRequestIdRef.current;
-
-    // DON'T clear analysis - keep previous suggestions visible during AI thinking
-
-    // Increment move counter and add timestamp
-    setCurrentGameMoves(prev => prev + 1);
-    setRecentMoveTimestamps(prev => [...prev, Date.now()]);
-
-    let newFen: string;
-    let newTurn: 'w' | 'b';
+    let newFen: string;
+    let newTurn: 'w' | 'b';
 
     if (selectedVariant === 'janggi') {
       // For Janggi (engine-based), we can't use chess.js (doesn't support Janggi)
@@ -1015,30 +1341,40 @@ function App(): React.JSX.Element {
       // Apply the move
       newFen = applyMoveToFEN(currentFen, moveNotation);
       setCurrentFen(newFen);
+      recordPly(moveNotation, {fen: newFen, key: fenPositionKey(newFen)});
       newTurn = currentTurn === 'w' ? 'b' : 'w';
       setCurrentTurn(newTurn);
+      punchClock(currentTurn);
       // Skip game status checks for Janggi (need engine to determine)
     } else {
       // Chess: use chess.js for move validation and game state
-      gameRef.current.move({from, to, promotion: 'q'});
+      const played = gameRef.current.move({from, to, promotion: 'q'});
 
       // Update FEN and turn
       newFen = gameRef.current.fen();
       newTurn = gameRef.current.turn();
+      recordPly(played.lan, {fen: newFen, key: fenPositionKey(newFen)});
 
       // Only update UI if not in fast mode
       if (!fastMode) {
         setCurrentFen(newFen);
       }
       setCurrentTurn(newTurn);
+      punchClock(newTurn === 'w' ? 'b' : 'w');
 
       // Update game status (checkmate takes priority over check)
       if (gameRef.current.isCheckmate()) {
         setGameStatus('Checkmate!');
+        stopClock();
         await recordGameResult();
       } else if (gameRef.current.isStalemate()) {
         setGameStatus('Stalemate!');
+        stopClock();
         await recordGameResult();
+      } else if (positionHistoryRef.current.isRepetitionDraw(REPETITION_RULES.chess)) {
+        setGameStatus('Draw by repetition');
+        stopClock();
+        await recordGameResult({winner: null, reason: 'threefold-repetition'});
       } else if (gameRef.current.isCheck()) {
         setGameStatus('Check!');
       } else {
@@ -1046,21 +1382,20 @@ function App(): React.JSX.Element {
       }
     }
 
-    // Analyze position after move
-    if (engineRef.current && engineReady) {
+    // In timed games the engine's clock is already running: let it move first
+    const engineToMove = isClockedGame() && (newTurn === 'w' ? player2Type : player1Type) === 'ai';
+
+    // Analyze position after move (analysis mode streams its own updates)
+    if (engineRef.current && engineReady && gameMode !== 'analysis' && !engineToMove) {
       try {
         setIsAnalyzing(true);
         const moveAnalysis = await engineRef.current.analyze(newFen, 15);
-
-        // GUARD: Only set analysis if this is still the current request
-        if (analysisRequestIdRef.current === thisRequestId && gameRef.current.fen() === newFen) {
-          setAnalysis([moveAnalysis]);
-          setAnalysisTurn(newTurn);
-          setAnalysisFen(newFen);
-        }
+        setAnalysis(toAnalysisLines(moveAnalysis));
+        setAnalysisTurn(newTurn);
+        setAnalysisFen(newFen);
         setIsAnalyzing(false);
       } catch (error) {
-        console.error('Error getting move analysis:', error);
+        reportEngineError('Error getting move analysis:', error);
         setIsAnalyzing(false);
       }
     }
@@ -1068,7 +1403,9 @@ function App(): React.JSX.Element {
     // Check if next player is AI and should auto-move
     // Note: janggi2 and janggi3 have their own move handlers, so skip engine for them
     const nextTurn = selectedVariant === 'janggi' ? newTurn : gameRef.current.turn();
-    const isGameOver = selectedVariant === 'janggi' ? false : gameRef.current.isGameOver(); // For Janggi (engine), assume game continues
+    const isGameOver = selectedVariant === 'janggi'
+      ? false // For Janggi (engine), assume game continues
+      : gameRef.current.isGameOver() || positionHistoryRef.current.isRepetitionDraw(REPETITION_RULES.chess);
     const currentPlayerType = nextTurn === 'w' ? player2Type : player1Type; // w=player2(white), b=player1(black)
 
     if (currentPlayerType === 'ai' && !isGameOver && selectedVariant !== 'janggi2' && selectedVariant !== 'janggi3') {
@@ -1080,10 +1417,17 @@ function App(): React.JSX.Element {
   };
 
   const handleSuggestionClick = (move: string) => {
-    // Parse move like "e2e4" into from/to squares
-    if (move.length >= 4) {
-      const from = move.substring(0, 2) as Square;
-      const to = move.substring(2, 4) as Square;
+    // Parse move like "e2e4" (or "e1e2" / "e10e9" for Janggi) into from/to squares
+    const parsed = parseMove(move, selectedVariant);
+    if (parsed && parsed.type === 'normal') {
+      const from = formatSquare(parsed.from, selectedVariant) as Square;
+      const to = formatSquare(parsed.to, selectedVariant) as Square;
+
+      // Janggi moves are validated by handleMove itself (chess.js can't read Janggi FEN)
+      if (selectedVariant === 'janggi') {
+        handleMove(from, to);
+        return;
+      }
 
       // Verify the move is valid for the current position before playing
       try {
@@ -1107,10 +1451,10 @@ function App(): React.JSX.Element {
     if (!engineRef.current || !engineReady) {
       return;
     }
-
-    // Increment request ID to invalidate any pending analysis
-    analysisRequestIdRef.current += 1;
-    const thisRequestId = analysisRequestIdRef.current;
+    // The position was taken back before this move was started
+    if (providedFen && providedFen !== moveHistoryRef.current.current()?.fen) {
+      return;
+    }
 
     try {
       setIsEngineThinking(true);
@@ -1119,13 +1463,22 @@ function App(): React.JSX.Element {
 
       // Tell engine about current position and get move
       // Use provided FEN if available (avoids race condition), otherwise fall back to state
-      const fen = providedFen || (selectedVariant === 'janggi' ? currentFen : selectedVariant === 'janggi2' ? janggi2Fen : gameRef.current.fen());
+      const fen = providedFen || (selectedVariant === 'janggi' ? currentFen : selectedVariant === 'janggi2' ? janggiFen : gameRef.current.fen());
       // Lightning-fast thinking for AI vs AI in fast mode: 10ms, otherwise 50ms for AI vs AI, 500ms for human games
       const thinkTime = fastMode ? 10 : (player1Type === 'ai' && player2Type === 'ai') ? 50 : 500;
-      const engineMove = await engineRef.current.getBestMove(fen, thinkTime);
+      await engineRef.current.setStrength(aiStrengthRef.current[fen.split(' ')[1] === 'b' ? 'b' : 'w']);
+      const engineMove = isClockedGame()
+        ? await engineRef.current.getClockedMove(fen, clockRef.current.engineClock())
+        : await engineRef.current.getBestMove(fen, thinkTime);
+      if (clockRef.current.getFlagged()) {
+        setIsEngineThinking(false);
+        return;
+      }
 
       let newFen: string;
       let newTurn: 'w' | 'b';
+      let playedMove = engineMove;
+      let janggiPosition: JanggiBoard_Type | undefined;
 
       if (selectedVariant === 'janggi' || selectedVariant === 'janggi2') {
         // For Janggi variants, apply move manually to FEN
@@ -1137,10 +1490,11 @@ function App(): React.JSX.Element {
           newTurn = currentTurn === 'w' ? 'b' : 'w';
 
           // Update janggi2 board from FEN
-          const {board: newBoard, isHanTurn} = janggi2FENToBoard(newFen);
-          setJanggi2Board(newBoard);
-          setJanggi2Turn(isHanTurn);
-          setJanggi2Fen(newFen);
+          const {board: newBoard, isHanTurn} = janggiFENToBoard(newFen);
+          janggiPosition = newBoard;
+          setJanggiBoard(newBoard);
+          setJanggiTurn(isHanTurn);
+          setJanggiFen(newFen);
         } else {
           // For janggi1
           newFen = applyMoveToFEN(fen, engineMove);
@@ -1148,82 +1502,776 @@ function App(): React.JSX.Element {
         }
       } else {
         // For Chess, use chess.js
-        gameRef.current.move(engineMove as any);
+        playedMove = gameRef.current.move(engineMove as any).lan;
         newTurn = gameRef.current.turn();
         newFen = gameRef.current.fen();
       }
+      recordPly(playedMove, {fen: newFen, key: fenPositionKey(newFen), board: janggiPosition});
+
+      // Increment move counter and add timestamp
+      setCurrentGameMoves(prev => prev + 1);
+      gamePliesRef.current += 1;
+      setRecentMoveTimestamps(prev => [...prev, Date.now()]);
+
+      // Only update UI if not in fast mode
+      if (!fastMode) {
+        setCurrentFen(newFen);
+      } else {
+        // In fast mode, just increment move counter
+        setFastModeMovesPlayed(prev => prev + 1);
+      }
+      setCurrentTurn(newTurn);
+      punchClock(newTurn === 'w' ? 'b' : 'w');
+
+      // Update game status (checkmate takes priority over check)
+      // For Janggi, skip game status checks (need engine to determine)
+      if (selectedVariant === 'chess') {
+        if (gameRef.current.isCheckmate()) {
+          setGameStatus('Checkmate!');
+          stopClock();
+          // If fast mode, update board to show final position
+          if (fastMode) {
+            setCurrentFen(newFen);
+            setFastMode(false);
+            setFastModeMovesPlayed(0);
+          }
+          await recordGameResult();
+        } else if (gameRef.current.isStalemate()) {
+          setGameStatus('Stalemate!');
+          stopClock();
+          // If fast mode, update board to show final position
+          if (fastMode) {
+            setCurrentFen(newFen);
+            setFastMode(false);
+            setFastModeMovesPlayed(0);
+          }
+          await recordGameResult();
+        } else if (positionHistoryRef.current.isRepetitionDraw(REPETITION_RULES.chess)) {
+          setGameStatus('Draw by repetition');
+          stopClock();
+          autoPlayStopRef.current = true;
+          if (fastMode) {
+            setCurrentFen(newFen);
+            setFastMode(false);
+            setFastModeMovesPlayed(0);
+          }
+          await recordGameResult({winner: null, reason: 'threefold-repetition'});
+        } else if (gameRef.current.isCheck()) {
+          setGameStatus('Check!');
+        } else {
+          setGameStatus('');
+        }
+      }
+
+      // AI vs AI games that never end are adjudicated as draws
+      // (standalone Janggi games end at MOVE_LIMIT by counting instead)
+      const isChessOver = selectedVariant === 'chess' &&
+        (gameRef.current.isGameOver() || positionHistoryRef.current.isRepetitionDraw(REPETITION_RULES.chess));
+      if (player1TypeRef.current === 'ai' && player2TypeRef.current === 'ai' &&
+          gamePliesRef.current >= AI_VS_AI_MOVE_CAP && !isChessOver) {
+        setGameStatus(`Draw: ${AI_VS_AI_MOVE_CAP}-ply cap reached`);
+        stopClock();
+        autoPlayStopRef.current = true;
+        if (fastMode) {
+          setCurrentFen(newFen);
+          setFastMode(false);
+          setFastModeMovesPlayed(0);
+        }
+        await recordGameResult({winner: null, reason: 'move-cap'});
+        setIsEngineThinking(false);
+        return;
+      }
+
+      setIsEngineThinking(false);
+
+      // Skip analysis during AI vs AI or fast mode for better performance
+      // Only analyze if at least one player is human and not in fast mode
+      if (!fastMode && (player1Type === 'human' || player2Type === 'human')) {
+        try {
+          setIsAnalyzing(true);
+          const currentAnalysis = await engineRef.current.analyze(newFen, 15);
+          setAnalysis(toAnalysisLines(currentAnalysis));
+          setAnalysisTurn(newTurn);
+          setAnalysisFen(newFen);
+          setIsAnalyzing(false);
+        } catch (error) {
+          reportEngineError('Error getting analysis:', error);
+          setIsAnalyzing(false);
+        }
+      }
+    } catch (error) {
+      reportEngineError('Error getting engine move:', error);
+      setIsEngineThinking(false);
+    }
+  };
+
+  // Side to move in a recorded position ('w' = White / Han)
+  const positionTurn = (position: GamePosition): ClockSide => {
+    return position.fen.split(' ')[1] === 'b' ? 'b' : 'w';
+  };
+
+  const isAITurn = (turn: ClockSide): boolean => {
+    return (turn === 'w' ? player2TypeRef.current : player1TypeRef.current) === 'ai';
+  };
+
+  // Status line and game-over flag for a position reached by undo/redo
+  // (results were recorded when the game first ended, they are not counted again)
+  const historyPositionStatus = (position: GamePosition): {status: string; isOver: boolean} => {
+    if (position.board) {
+      const ply = moveHistoryRef.current.ply();
+      const previous = moveHistoryRef.current.positionAt(ply - 1);
+      const outcome = getGameOutcome(position.board, positionTurn(position) === 'w', ply > 0 ? previous?.board : undefined, ply);
+      return {status: janggiStatusText(outcome), isOver: outcome.result !== null};
+    }
+    if (selectedVariant !== 'chess') {
+      return {status: '', isOver: false}; // Engine-based Janggi: the engine decides
+    }
+    if (gameRef.current.isCheckmate()) {
+      return {status: 'Checkmate!', isOver: true};
+    }
+    if (gameRef.current.isStalemate()) {
+      return {status: 'Stalemate!', isOver: true};
+    }
+    if (positionHistoryRef.current.isRepetitionDraw(REPETITION_RULES.chess)) {
+      return {status: 'Draw by repetition', isOver: true};
+    }
+    return {status: gameRef.current.isCheck() ? 'Check!' : '', isOver: gameRef.current.isGameOver()};
+  };
+
+  // Show the position at the history cursor: board, turn, FEN, status, counters and clock,
+  // then resync the engine (`plies` taken back, or a fresh position after redo)
+  const showHistoryPosition = async (position: GamePosition, takenBack: number) => {
+    const turn = positionTurn(position);
+    if (position.board) {
+      setJanggiBoard(position.board);
+      setJanggiTurn(turn === 'w');
+      setJanggiFen(position.fen);
+      setJanggiHighlightedMoves([]);
+    }
+    setCurrentFen(position.fen);
+    setCurrentTurn(turn);
+    gamePliesRef.current = moveHistoryRef.current.ply();
+    setCurrentGameMoves(gamePliesRef.current);
+    refreshMoveHistory();
+
+    const {status, isOver} = historyPositionStatus(position);
+    setGameStatus(status);
+    if (isClockedGame()) {
+      // The clock starts with the first move and stops when the game is over
+      if (isOver || gamePliesRef.current === 0) {
+        stopClock();
+      } else {
+        clockRef.current.resume(turn);
+        setClockSnapshot(clockRef.current.snapshot());
+      }
+    }
+
+    // Suggestions for the old position no longer apply
+    setAnalysis([]);
+    setAnalysisTurn(null);
+    setAnalysisFen('');
+    setMoveSequence([]);
+    setHoveredMove(null);
+
+    if (selectedVariant === 'janggi3' || !engineRef.current || !engineReady) {
+      return {isOver};
+    }
+    try {
+      if (takenBack > 0) {
+        await engineRef.current.takeBack(takenBack, position.fen);
+      } else {
+        await engineRef.current.setPosition(position.fen);
+      }
+      // Analysis mode streams its own updates; otherwise analyze for the human to move
+      if (gameMode !== 'analysis' && !isAITurn(turn) && !isOver) {
+        setIsAnalyzing(true);
+        const moveAnalysis = await engineRef.current.analyze(position.fen, 15);
+        setAnalysis(toAnalysisLines(moveAnalysis));
+        setAnalysisTurn(turn);
+        setAnalysisFen(position.fen);
+      }
+    } catch (error) {
+      reportEngineError('Error resyncing engine after undo/redo:', error);
+    } finally {
+      setIsAnalyzing(false);
+    }
+    return {isOver};
+  };
+
+  // The AI is to move after undo/redo: let it play from the shown position
+  const continueWithAI = (position: GamePosition) => {
+    if (position.board) {
+      makeJanggiAIMove(position.board, positionTurn(position) === 'w');
+    } else if (selectedVariant === 'chess' || selectedVariant === 'janggi') {
+      getEngineMove(position.fen);
+    }
+  };
+
+  // Undo: one ply, or against the AI back to the human's turn
+  // (the AI's reply and the human's move, or just the human's move while the AI thinks)
+  const handleUndo = async () => {
+    const history = moveHistoryRef.current;
+    if (pendingJanggiSetupRef.current || isAutoPlaying || !history.canUndo()) {
+      return;
+    }
+
+    // Drop the pending AI move; its search is for the position being taken back
+    engineRef.current?.stop();
+    cancelJanggiAI();
+    setIsEngineThinking(false);
+
+    let plies = 1;
+    while (plies < history.ply()) {
+      const position = history.positionAt(history.ply() - plies);
+      if (position && !isAITurn(positionTurn(position))) {
+        break;
+      }
+      plies++;
+    }
+
+    for (let i = 0; i < plies; i++) {
+      history.undo();
+      positionHistoryRef.current.pop();
+      if (selectedVariant === 'chess') {
+        gameRef.current.undo();
+      }
+    }
+
+    const position = history.current();
+    if (!position) {
+      return;
+    }
+    const {isOver} = await showHistoryPosition(position, plies);
+    if (!isOver && isAITurn(positionTurn(position))) {
+      continueWithAI(position);
+    }
+  };
+
+  // Redo: replay one undone ply, and against the AI its recorded reply too
+  const handleRedo = async () => {
+    const history = moveHistoryRef.current;
+    if (pendingJanggiSetupRef.current || isAutoPlaying || !history.canRedo()) {
+      return;
+    }
+
+    engineRef.current?.stop();
+    cancelJanggiAI();
+    setIsEngineThinking(false);
+
+    let ply = history.redo();
+    while (ply) {
+      positionHistoryRef.current.push(ply.position.key);
+      if (selectedVariant === 'chess') {
+        gameRef.current.move(ply.move);
+      }
+      if (!isAITurn(positionTurn(ply.position)) || !history.canRedo()) {
+        break;
+      }
+      ply = history.redo();
+    }
+
+    const position = history.current();
+    if (!position) {
+      return;
+    }
+    const {isOver} = await showHistoryPosition(position, 0);
+    if (!isOver && isAITurn(positionTurn(position))) {
+      continueWithAI(position);
+    }
+  };
+
+  // Move list: show the position after `ply` read-only while the game goes on
+  // (the last ply returns to the live position), and analyze what is shown
+  const handleViewPly = async (ply: number) => {
+    const history = moveHistoryRef.current;
+    const position = history.positionAt(ply);
+    if (!position) {
+      return;
+    }
+    const viewing = ply < history.ply() ? ply : null;
+    viewedPlyRef.current = viewing;
+    setViewedPly(viewing);
+    setHoveredMove(null);
+    setMoveSequence([]);
+
+    // Analysis mode retargets its live analysis by itself
+    if (gameMode === 'analysis' || selectedVariant === 'janggi3' || !engineRef.current || !engineReady) {
+      return;
+    }
+    const turn = positionTurn(position);
+    if (viewing === null && (isAITurn(turn) || isEngineThinking)) {
+      return; // Back to the live game: the AI's search analyzes after its move
+    }
+
+    setAnalysis([]);
+    setAnalysisTurn(null);
+    setAnalysisFen('');
+    try {
+      setIsAnalyzing(true);
+      const positionAnalysis = await engineRef.current.analyze(position.fen, 15);
+      if (viewedPlyRef.current === viewing) {
+        setAnalysis(toAnalysisLines(positionAnalysis));
+        setAnalysisTurn(turn);
+        setAnalysisFen(position.fen);
+      }
+    } catch (error) {
+      reportEngineError('Error analyzing the viewed position:', error);
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  // PGN result of the game so far ('*' while it goes on)
+  const currentPgnResult = (): PgnResult => {
+    const flagged = clockRef.current.getFlagged();
+    if (flagged) {
+      return flagged === 'w' ? '0-1' : '1-0';
+    }
+    if (gameRef.current.isCheckmate()) {
+      return gameRef.current.turn() === 'w' ? '0-1' : '1-0';
+    }
+    if (
+      gameRef.current.isDraw() ||
+      positionHistoryRef.current.isRepetitionDraw(REPETITION_RULES.chess) ||
+      gameStatus.startsWith('Draw')
+    ) {
+      return '1/2-1/2';
+    }
+    return '*';
+  };
+
+  // Save the game (up to the shown position) as a PGN file
+  const handleSavePgn = async () => {
+    if (selectedVariant !== 'chess') {
+      await handleSaveJanggiRecord('pgn');
+      return;
+    }
+
+    const history = moveHistoryRef.current;
+    const start = history.positionAt(0);
+    if (!start) {
+      return;
+    }
+
+    const moves = history.moves();
+    const pgn = exportChessPgn(
+      {
+        variant: selectedVariant,
+        white: {type: player2TypeRef.current, strength: aiStrengthRef.current.w},
+        black: {type: player1TypeRef.current, strength: aiStrengthRef.current.b},
+        result: currentPgnResult(),
+        date: new Date(),
+        timeControl,
+      },
+      start.fen,
+      moves,
+      moves.map((_, index) => evaluationsRef.current.get(history.positionAt(index + 1)?.fen ?? '')),
+    );
+    await writeGameFile(pgn, 'pgn');
+  };
+
+  const writeGameFile = async (text: string, format: GameFileFormat) => {
+    try {
+      const path = await saveGameFile(text, format);
+      showToast(`Game saved to ${path}`, 'success');
+    } catch (error) {
+      console.error(`Failed to save ${format.toUpperCase()}:`, error);
+      console.log(text);
+      showToast(`Could not save the game file (${format.toUpperCase()} written to the log)`, 'error');
+    }
+  };
+
+  // Player name in game records and the archive: chess and janggi2 play Fairy-Stockfish,
+  // janggi3 the built-in search
+  const recordPlayerName = (side: ClockSide): string => {
+    const type = side === 'w' ? player2TypeRef.current : player1TypeRef.current;
+    if (type === 'ai' && selectedVariant === 'janggi3') {
+      return `Built-in AI (depth ${janggiSearchDepthRef.current})`;
+    }
+    return pgnPlayerName({type, strength: aiStrengthRef.current[side]});
+  };
+
+  // Janggi game (up to the shown position) as a game record; the moves are
+  // replayed on the rules package's board, so the FEN-based janggi variant works too
+  const currentJanggiRecord = (): JanggiGameRecord | null => {
+    const history = moveHistoryRef.current;
+    const start = history.positionAt(0);
+    if (!start) {
+      return null;
+    }
+    const startHanTurn = positionTurn(start) === 'w';
+    const startBoard = start.board ?? janggiFENToBoard(start.fen).board;
+    const setups = startHanTurn ? setupsFromBoard(startBoard) : null;
+
+    const moves: JanggiMove[] = [];
+    const boards = [startBoard];
+    for (const [index, notation] of history.moves().entries()) {
+      const move = moveFromEngineNotation(boards[index], (index % 2 === 0) === startHanTurn, notation);
+      if (!move) {
+        return null;
+      }
+      moves.push(move);
+      boards.push(applyJanggiMove(boards[index], move));
+    }
+
+    // Result: flag fall, or the rules' verdict on the shown position
+    let result: number | null = null;
+    const flagged = clockRef.current.getFlagged();
+    const position = history.current();
+    if (flagged) {
+      result = flagged === 'w' ? -1 : 1;
+    } else if (position) {
+      const ply = history.ply();
+      const previous = ply > 0 ? boards[ply - 1] : undefined;
+      result = getGameOutcome(boards[ply], positionTurn(position) === 'w', previous, ply).result;
+    }
+
+    return {
+      setups,
+      ...(setups ? {} : {startFen: start.fen}),
+      moves,
+      result,
+      han: recordPlayerName('w'),
+      cho: recordPlayerName('b'),
+      date: new Date(),
+      tags: {
+        WhiteType: player2TypeRef.current === 'ai' ? 'program' : 'human',
+        BlackType: player1TypeRef.current === 'ai' ? 'program' : 'human',
+        TimeControl: formatPgnTimeControl(timeControl),
+      },
+    };
+  };
+
+  // Save the Janggi game as Fairy-Stockfish PGN or Korean GIB
+  const handleSaveJanggiRecord = async (format: GameFileFormat) => {
+    if (pendingJanggiSetupRef.current) {
+      showToast('Choose the formations first', 'info');
+      return;
+    }
+    const record = currentJanggiRecord();
+    if (!record) {
+      showToast('This game has no record to save', 'error');
+      return;
+    }
+    let text: string;
+    try {
+      text = format === 'gib' ? exportGib(record) : exportJanggiPgn(record);
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : String(error), 'error');
+      return;
+    }
+    await writeGameFile(text, format);
+  };
+
+  // Stop the game in progress before loading one for review: both sides become
+  // human so Undo/Redo step through it ply by ply
+  const prepareGameReview = () => {
+    archiveAbandonedGame();
+    engineRef.current?.stop();
+    cancelJanggiAI();
+    setIsEngineThinking(false);
+    if (isAutoPlaying) {
+      autoPlayStopRef.current = true;
+      setIsAutoPlaying(false);
+    }
+    setFastMode(false);
+    setFastModeMovesPlayed(0);
+    player1TypeRef.current = 'human';
+    player2TypeRef.current = 'human';
+    setPlayer1Type('human');
+    setPlayer2Type('human');
+  };
+
+  // Show the last loaded position with the clock stopped (it starts with the next move)
+  const showReviewedGame = async (players: string, plies: number) => {
+    setRecentMoveTimestamps([]);
+    setMovesPerMinute(0);
+    clockRef.current.reset(timeControl);
+    const position = moveHistoryRef.current.current();
+    if (position) {
+      await showHistoryPosition(position, 0);
+    }
+    stopClock();
+    showToast(`Loaded ${players} (${plies} plies). Use Undo/Redo to step through.`, 'success');
+  };
+
+  // Load a PGN game for review
+  const loadImportedPgn = async (imported: ImportedPgn) => {
+    prepareGameReview();
+
+    gameRef.current.load(imported.startFen);
+    resetGameHistory({fen: imported.startFen, key: fenPositionKey(imported.startFen)});
+    imported.moves.forEach((move, index) => {
+      gameRef.current.move(move);
+      const fen = gameRef.current.fen();
+      recordPly(move, {fen, key: fenPositionKey(fen)});
+      const score = imported.evals[index];
+      if (score) {
+        evaluationsRef.current.set(fen, score);
+      }
+    });
+
+    await showReviewedGame(`${imported.tags.White || '?'} - ${imported.tags.Black || '?'}`, imported.moves.length);
+  };
+
+  // Load a Janggi game record for review in the standalone board
+  const loadJanggiRecord = async (record: JanggiGameRecord) => {
+    const boards = replayRecord(record);
+    prepareGameReview();
+    pendingJanggiSetupRef.current = null;
+    setPendingJanggiSetup(null);
+
+    const toPosition = (board: JanggiBoard_Type, isHanTurn: boolean): GamePosition => ({
+      fen: janggiBoardToFEN(board, isHanTurn, 1),
+      key: hashBoard(board, isHanTurn),
+      board,
+    });
+    const startHanTurn = recordStart(record).isHanTurn;
+    resetGameHistory(toPosition(boards[0], startHanTurn));
+    record.moves.forEach((move, index) => {
+      recordPly(janggiMoveToEngineNotation(move), toPosition(boards[index + 1], (index % 2 === 1) === startHanTurn));
+    });
+
+    await showReviewedGame(`${record.han} - ${record.cho}`, record.moves.length);
+  };
+
+  const openGameFile = async (file: GameFileInfo) => {
+    try {
+      const text = await readGameFile(file.path);
+      if (selectedVariant === 'chess') {
+        await loadImportedPgn(importChessPgn(text));
+      } else {
+        await loadJanggiRecord(file.format === 'gib' ? importGib(text) : importJanggiPgn(text));
+      }
+    } catch (error) {
+      console.error('Failed to open game file:', error);
+      showToast(`Could not open the game: ${error instanceof Error ? error.message : error}`, 'error');
+    }
+  };
+
+  // Pick one of the most recently saved games of the selected variant
+  const handleOpenGame = async () => {
+    const isStandaloneJanggi = selectedVariant === 'janggi2' || selectedVariant === 'janggi3';
+    if (selectedVariant !== 'chess' && !isStandaloneJanggi) {
+      showToast('Saved games open in chess or the standalone Janggi boards', 'info');
+      return;
+    }
+
+    let files: GameFileInfo[];
+    try {
+      files = (await listGameFiles(isStandaloneJanggi ? ['pgn', 'gib'] : ['pgn'])).slice(0, 5);
+    } catch (error) {
+      console.error('Failed to list game files:', error);
+      showToast('Could not read the saved games', 'error');
+      return;
+    }
+    if (files.length === 0) {
+      showToast('No saved games yet', 'info');
+      return;
+    }
+
+    const fileOptions = files.map((file, index) => `${index + 1}. ${file.name}`);
+    Alert.alert(
+      'Open Game',
+      `Recent saved games:\n\n${fileOptions.join('\n')}`,
+      [
+        ...files.map((file, index) => ({
+          text: `${index + 1}`,
+          onPress: () => openGameFile(file),
+        })),
+        {
+          text: 'Cancel',
+          style: 'cancel',
+        },
+      ],
+    );
+  };
+
+  // The current game as an archive entry (null before the first move)
+  const currentArchivedGame = (result: ArchivedGame['result']): ArchivedGame | null => {
+    const history = moveHistoryRef.current;
+    const start = history.positionAt(0);
+    const position = history.current();
+    const moves = history.moves();
+    if (!start || !position || moves.length === 0) {
+      return null;
+    }
+
+    const player = (side: ClockSide) => {
+      const type = side === 'w' ? player2TypeRef.current : player1TypeRef.current;
+      const strength = type === 'ai' && selectedVariant !== 'janggi3' ? aiStrengthRef.current[side] : undefined;
+      return {name: recordPlayerName(side), type, strength};
+    };
+    const snapshot = clockRef.current.snapshot();
+    return {
+      id: archiveEntryRef.current.id,
+      variant: selectedVariant,
+      date: new Date().toISOString(),
+      white: player('w'),
+      black: player('b'),
+      startFen: start.fen,
+      moves,
+      finalFen: position.fen,
+      result,
+      clock: isClockedGame() ? {control: timeControl, w: snapshot.w, b: snapshot.b} : null,
+      evals: moves.map((_, index) => evaluationsRef.current.get(history.positionAt(index + 1)?.fen ?? '') ?? null),
+    };
+  };
+
+  // Add the current game to the archive: when it ends, or when it is abandoned (result null)
+  const saveToArchive = (result: ArchivedGame['result']) => {
+    const game = currentArchivedGame(result);
+    if (!game) {
+      return;
+    }
+    archiveEntryRef.current.isArchived = true;
+    archiveGame(game)
+      .then(setArchivedGames)
+      .catch(error => {
+        console.error('Failed to archive game:', error);
+        showToast('Could not save the game to the archive', 'error');
+      });
+  };
+
+  // Leaving a game unfinished: archive it, if enabled and not archived yet
+  const archiveAbandonedGame = () => {
+    if (archiveAbandoned && !archiveEntryRef.current.isArchived) {
+      saveToArchive(null);
+    }
+  };
 
-      // Increment move counter and add timestamp
-      setCurrentGameMoves(prev => prev + 1);
-      setRecentMoveTimestamps(prev => [...prev, Date.now()]);
+  const handleOpenArchive = async () => {
+    setIsEditingPosition(false);
+    setIsBrowsingArchive(true);
+    setIsArchiveLoading(true);
+    try {
+      setArchivedGames(await loadArchive());
+    } catch (error) {
+      console.error('Failed to load the game archive:', error);
+      showToast('Could not read the game archive', 'error');
+    } finally {
+      setIsArchiveLoading(false);
+    }
+  };
 
-      // Only update UI if not in fast mode
-      if (!fastMode) {
-        setCurrentFen(newFen);
-      } else {
-        // In fast mode, just increment move counter
-        setFastModeMovesPlayed(prev => prev + 1);
-      }
-      setCurrentTurn(newTurn);
+  // Load an archived game for review; it is already archived, so leaving it isn't abandoning it
+  const openArchivedGame = async (game: ArchivedGame) => {
+    if (game.variant !== selectedVariant) {
+      showToast(`Switch to ${game.variant} to review this game`, 'info');
+      return;
+    }
+    let positions: GamePosition[];
+    try {
+      positions = replayArchivedGame(game);
+    } catch (error) {
+      console.error('Failed to replay archived game:', error);
+      showToast(`Could not open the game: ${error instanceof Error ? error.message : error}`, 'error');
+      return;
+    }
 
-      // Update game status (checkmate takes priority over check)
-      // For Janggi, skip game status checks (need engine to determine)
-      if (selectedVariant === 'chess') {
-        if (gameRef.current.isCheckmate()) {
-          setGameStatus('Checkmate!');
-          // If fast mode, update board to show final position
-          if (fastMode) {
-            setCurrentFen(newFen);
-            setFastMode(false);
-            setFastModeMovesPlayed(0);
-          }
-          await recordGameResult();
-        } else if (gameRef.current.isStalemate()) {
-          setGameStatus('Stalemate!');
-          // If fast mode, update board to show final position
-          if (fastMode) {
-            setCurrentFen(newFen);
-            setFastMode(false);
-            setFastModeMovesPlayed(0);
-          }
-          await recordGameResult();
-        } else if (gameRef.current.isCheck()) {
-          setGameStatus('Check!');
-        } else {
-          setGameStatus('');
-        }
+    setIsBrowsingArchive(false);
+    prepareGameReview();
+    if (selectedVariant === 'chess') {
+      gameRef.current.load(game.startFen);
+      game.moves.forEach(move => gameRef.current.move(move));
+    } else if (selectedVariant === 'janggi2' || selectedVariant === 'janggi3') {
+      pendingJanggiSetupRef.current = null;
+      setPendingJanggiSetup(null);
+    }
+
+    resetGameHistory(positions[0]);
+    game.moves.forEach((move, index) => {
+      const position = positions[index + 1];
+      recordPly(move, position);
+      const score = game.evals[index];
+      if (score) {
+        evaluationsRef.current.set(position.fen, score);
       }
+    });
+    archiveEntryRef.current.isArchived = true;
 
-      setIsEngineThinking(false);
+    await showReviewedGame(`${game.white.name} - ${game.black.name}`, game.moves.length);
+  };
 
-      // Skip analysis during AI vs AI or fast mode for better performance
-      // Only analyze if at least one player is human and not in fast mode
-      if (!fastMode && (player1Type === 'human' || player2Type === 'human')) {
-        try {
-          setIsAnalyzing(true);
-          const currentAnalysis = await engineRef.current.analyze(newFen, 15);
+  const handleExportArchivedGame = async (game: ArchivedGame, format: GameFileFormat) => {
+    let text: string;
+    try {
+      text = exportArchivedGame(game, format);
+    } catch (error) {
+      console.error('Failed to export archived game:', error);
+      showToast(`Could not export the game: ${error instanceof Error ? error.message : error}`, 'error');
+      return;
+    }
+    await writeGameFile(text, format);
+  };
 
-          // GUARD: Only set analysis if this is still the current request
-          if (analysisRequestIdRef.current === thisRequestId && gameRef.current.fen() === newFen) {
-            setAnalysis([currentAnalysis]);
-            setAnalysisTurn(newTurn);
-            setAnalysisFen(newFen);
-          }
-          setIsAnalyzing(false);
-        } catch (error) {
-          console.error('Error getting analysis:', error);
-          setIsAnalyzing(false);
-        }
+  const handleDeleteArchivedGame = (game: ArchivedGame) => {
+    Alert.alert('Delete Game', `Delete ${game.white.name} - ${game.black.name} from the archive?`, [
+      {text: 'Cancel', style: 'cancel'},
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () => {
+          deleteArchivedGames([game.id])
+            .then(setArchivedGames)
+            .catch(error => {
+              console.error('Failed to delete archived game:', error);
+              showToast('Could not delete the game', 'error');
+            });
+        },
+      },
+    ]);
+  };
+
+  // Start from a position set up in the position editor: play it out, or analyze it
+  // with both sides human
+  const loadEditedPosition = async (fen: string, mode: 'play' | 'analyze') => {
+    archiveAbandonedGame();
+    setIsEditingPosition(false);
+    engineRef.current?.stop();
+    cancelJanggiAI();
+    setIsEngineThinking(false);
+    if (isAutoPlaying) {
+      autoPlayStopRef.current = true;
+      setIsAutoPlaying(false);
+    }
+    if (mode === 'analyze') {
+      prepareGameReview();
+      setGameMode('analysis');
+    }
+
+    if (selectedVariant === 'janggi2' || selectedVariant === 'janggi3') {
+      const {board, isHanTurn} = janggiFENToBoard(fen);
+      pendingJanggiSetupRef.current = null;
+      setPendingJanggiSetup(null);
+      resetGameHistory({fen, key: hashBoard(board, isHanTurn), board});
+    } else {
+      if (selectedVariant === 'chess') {
+        gameRef.current.load(fen);
       }
-    } catch (error) {
-      console.error('Error getting engine move:', error);
-      setIsEngineThinking(false);
+      resetGameHistory({fen, key: fenPositionKey(fen)});
+    }
+
+    setRecentMoveTimestamps([]);
+    setMovesPerMinute(0);
+    clockRef.current.reset(timeControl);
+    const position = moveHistoryRef.current.current();
+    if (!position) {
+      return;
+    }
+    const {isOver} = await showHistoryPosition(position, 0);
+    stopClock();
+    if (mode === 'play' && !isOver && isAITurn(positionTurn(position))) {
+      continueWithAI(position);
     }
   };
 
   const handleNewGame = async () => {
-    // Increment request ID to invalidate any pending analysis from old game
-    analysisRequestIdRef.current += 1;
+    archiveAbandonedGame();
+
+    // Cancel engine searches still running for the old game
+    engineRef.current?.stop();
+    cancelJanggiAI();
 
     // Stop auto-play if running
     if (isAutoPlaying) {
@@ -1238,67 +2286,25 @@ function App(): React.JSX.Element {
     setFastMode(false);
     setFastModeMovesPlayed(0);
 
+    // Reset the clock to full time (it starts with the first move)
+    clockRef.current.reset(timeControl);
+    setClockSnapshot(clockRef.current.snapshot());
+
     // Reset game timing stats
     setCurrentGameMoves(0);
     setRecentMoveTimestamps([]);
     setMovesPerMinute(0);
 
-    if (selectedVariant === 'janggi3') {
-      // Janggi3 standalone - reset board
-      const initialBoard = createInitialBoard();
-      setJanggi3Board(initialBoard);
-      setJanggi3Turn(true); // Han starts
-      setJanggi3HighlightedMoves([]);
-      setGameStatus('');
-
-      // If Han (bottom/player2) is AI, make first move
-      if (player2Type === 'ai') {
-        Promise.resolve().then(() => makeJanggi3AIMove(initialBoard, true));
-      }
-    } else if (selectedVariant === 'janggi2') {
-      // Janggi2 with engine - reset board
-      const initialBoard = createJanggi2InitialBoard();
-      setJanggi2Board(initialBoard);
-      setJanggi2Turn(true); // Han starts
-      setJanggi2HighlightedMoves([]);
-      setGameStatus('');
-
-      // Convert initial board to FEN for engine
-      const initialFen = janggi2BoardToFEN(initialBoard, true, 1);
-      setJanggi2Fen(initialFen);
-      setCurrentFen(initialFen);
-
-      // Set current turn (Han starts, so 'w')
-      setCurrentTurn('w');
-
-      // Reset analysis
-      setAnalysis([]);
-      setAnalysisFen('');
-      setMoveSequence([]);
-      setHoveredMove(null);
-
-      // Get initial analysis if engine is ready
-      if (engineRef.current && engineReady) {
-        try {
-          const initialAnalysis = await engineRef.current.analyze(initialFen, 15);
-          setAnalysis([initialAnalysis]);
-          setAnalysisTurn('w');
-          setAnalysisFen(initialFen);
-        } catch (error) {
-          console.error('Error getting initial analysis:', error);
-        }
-      }
-
-      // If Han (bottom/player2) is AI, make first move
-      if (player2Type === 'ai') {
-        Promise.resolve().then(() => makeJanggi2AIMove(initialBoard, true));
-      }
+    if (selectedVariant === 'janggi2' || selectedVariant === 'janggi3') {
+      // Standalone Janggi rules - choose formations, then reset the board
+      beginJanggiSetup(selectedVariant);
     } else {
       // Reset game state for chess/janggi (engine-based variants)
       gameRef.current.reset();
       setCurrentFen(gameRef.current.fen());
       setCurrentTurn('w'); // White starts
       setGameStatus('');
+      resetGameHistory({fen: gameRef.current.fen(), key: fenPositionKey(gameRef.current.fen())});
       setAnalysis([]);
       setAnalysisFen('');
       setMoveSequence([]);
@@ -1312,12 +2318,12 @@ function App(): React.JSX.Element {
         try {
           const startingFen = gameRef.current.fen();
           const initialAnalysis = await engineRef.current.analyze(startingFen, 15);
-          setAnalysis([initialAnalysis]);
+          setAnalysis(toAnalysisLines(initialAnalysis));
           setAnalysisTurn('w'); // Starting position is white's turn
           setAnalysisFen(startingFen); // Store the FEN this analysis is for
           console.log('✅ Initial analysis complete');
         } catch (error) {
-          console.error('Error getting initial analysis:', error);
+          reportEngineError('Error getting initial analysis:', error);
         }
 
         // If player 2 (white/bottom) is AI, make first move immediately
@@ -1395,6 +2401,21 @@ function App(): React.JSX.Element {
     }
   };
 
+  const handleAnalysisMode = () => {
+    if (gameMode === 'analysis') {
+      // Exit analysis mode - return to player vs AI
+      setGameMode('player-vs-ai');
+      setPlayer1Type('ai');  // Black = AI
+      setPlayer2Type('human');  // White = Human
+    } else {
+      // Enter analysis mode - human moves both sides, engine analyzes continuously
+      setGameMode('analysis');
+      setPlayer1Type('human');  // Black = Human
+      setPlayer2Type('human');  // White = Human
+      showToast('Analysis Mode: Engine analyzes every position live', 'info');
+    }
+  };
+
   const handleFastModeToggle = () => {
     if (fastMode) {
       // Exit fast mode - update board to current position
@@ -1410,6 +2431,18 @@ function App(): React.JSX.Element {
     }
   };
 
+  // FEN of the live position of the selected variant (the position editor starts from it)
+  const livePositionFen = (): string => {
+    if (selectedVariant === 'janggi2' || selectedVariant === 'janggi3') {
+      return janggiFen;
+    }
+    return currentFen || gameRef.current.fen();
+  };
+
+  // Position picked in the move list, shown read-only while the game goes on
+  const viewedPosition = viewedPly !== null ? moveHistoryRef.current.positionAt(viewedPly) : null;
+  const shownJanggiBoard = viewedPosition?.board ?? janggiBoard;
+
   return (
     <SafeAreaView style={styles.container}>
       <StatusBar barStyle="dark-content" backgroundColor="#ffffff" />
@@ -1445,7 +2478,11 @@ function App(): React.JSX.Element {
             ) : isEngineThinking ? (
               <>
                 <ActivityIndicator size="small" color="#FF9800" />
-                <Text style={styles.engineStatusText}>Thinking...</Text>
+                <Text style={styles.engineStatusText}>
+                  Thinking...
+                  {janggiSearchProgress &&
+                    ` depth ${janggiSearchProgress.depth}, ${janggiSearchProgress.nodes} nodes`}
+                </Text>
               </>
             ) : (
               <>
@@ -1460,8 +2497,8 @@ function App(): React.JSX.Element {
             {gameStatus ? (
               <Text style={[
                 styles.gameStatusText,
-                gameStatus === 'Checkmate!' && styles.checkmateText,
-                gameStatus === 'Check!' && styles.checkTextHeader,
+                (gameStatus === 'Checkmate!' || gameStatus.endsWith('on time')) && styles.checkmateText,
+                (gameStatus === 'Check!' || gameStatus === 'Janggun!' || gameStatus === 'Bikjang!') && styles.checkTextHeader,
               ]}>
                 {gameStatus}
               </Text>
@@ -1510,6 +2547,9 @@ function App(): React.JSX.Element {
                       selectedVariant === variant && styles.variantDropdownItemSelected
                     ]}
                     onPress={() => {
+                      if (variant !== selectedVariant) {
+                        archiveAbandonedGame();
+                      }
                       setSelectedVariant(variant);
                       setShowVariantDropdown(false);
                     }}>
@@ -1534,46 +2574,102 @@ function App(): React.JSX.Element {
         <View style={styles.flexContainer}>
           {/* Left Column - Board */}
           <View style={styles.leftColumn}>
-            <View style={styles.boardContainer}>
-              {selectedVariant === 'janggi' ? (
-                <JanggiBoard
-                  variant={selectedVariant}
-                  onMove={handleMove}
-                  fen={
-                    currentFen &&
-                    currentFen.split('/').length === 10
-                      ? currentFen
-                      : 'rnba1abnr/4k4/1c5c1/p1p1p1p1p/9/9/P1P1P1P1P/1C5C1/4K4/RNBA1ABNR w - - 0 1'
-                  }
-                  suggestedMove={hoveredMove || (analysis[0]?.pv?.[0])}
-                  legalMoves={analysis[0]?.pv || []}
-                />
-              ) : selectedVariant === 'janggi2' ? (
-                <Janggi2Board
-                  board={janggi2Board}
-                  onMove={handleJanggi2Move}
-                  highlightedMoves={janggi2HighlightedMoves}
-                  disabled={isEngineThinking}
-                  currentTurn={janggi2Turn}
-                />
-              ) : selectedVariant === 'janggi3' ? (
-                <Janggi3Board
-                  board={janggi3Board}
-                  onMove={handleJanggi3Move}
-                  highlightedMoves={janggi3HighlightedMoves}
-                  disabled={isEngineThinking}
-                  currentTurn={janggi3Turn}
-                />
-              ) : (
-                <ChessBoard
-                  variant={selectedVariant}
-                  onMove={handleMove}
-                  fen={currentFen || undefined}
-                  suggestedMove={hoveredMove || (analysis[0]?.pv?.[0])}
-                  moveSequence={moveSequence}
-                />
-              )}
-            </View>
+            {/* Clock of the top player (Black / Cho) */}
+            {timeControl.type !== 'none' && (
+              <ClockDisplay
+                side="b"
+                label={selectedVariant === 'chess' ? 'Black' : 'Cho'}
+                snapshot={clockSnapshot}
+                control={timeControl}
+              />
+            )}
+            {/* Pre-game formation step (human players) */}
+            {pendingJanggiSetup && (selectedVariant === 'janggi2' || selectedVariant === 'janggi3') && (
+              <JanggiSetupPicker
+                side={pendingJanggiSetup.cho === undefined ? 'cho' : 'han'}
+                choSetup={pendingJanggiSetup.cho}
+                onChoose={handleJanggiSetupChoice}
+              />
+            )}
+            {isBrowsingArchive ? (
+              <GameArchiveBrowser
+                games={archivedGames}
+                isLoading={isArchiveLoading}
+                initialVariant={selectedVariant}
+                archiveAbandoned={archiveAbandoned}
+                onToggleArchiveAbandoned={() => setArchiveAbandoned(!archiveAbandoned)}
+                onOpen={openArchivedGame}
+                onExport={handleExportArchivedGame}
+                onDelete={handleDeleteArchivedGame}
+                onClose={() => setIsBrowsingArchive(false)}
+              />
+            ) : isEditingPosition ? (
+              <PositionEditor
+                key={selectedVariant}
+                variant={selectedVariant}
+                initialFen={viewedPosition?.fen ?? livePositionFen()}
+                onAnalyze={selectedVariant !== 'janggi3' && engineReady ? fen => loadEditedPosition(fen, 'analyze') : undefined}
+                onPlay={fen => loadEditedPosition(fen, 'play')}
+                onClose={() => setIsEditingPosition(false)}
+              />
+            ) : (
+              <View style={styles.boardContainer}>
+                {selectedVariant === 'janggi' ? (
+                  <JanggiBoard
+                    variant={selectedVariant}
+                    onMove={handleMove}
+                    fen={
+                      viewedPosition?.fen ??
+                      (currentFen &&
+                      currentFen.split('/').length === 10
+                        ? currentFen
+                        : 'rnba1abnr/4k4/1c5c1/p1p1p1p1p/9/9/P1P1P1P1P/1C5C1/4K4/RNBA1ABNR w - - 0 1')
+                    }
+                    disabled={viewedPosition !== null}
+                    suggestedMove={hoveredMove || (analysis[0]?.pv?.[0])}
+                    legalMoves={analysis[0]?.pv || []}
+                  />
+                ) : selectedVariant === 'janggi2' ? (
+                  <Janggi2Board
+                    board={shownJanggiBoard}
+                    onMove={handleJanggiMove}
+                    highlightedMoves={viewedPosition ? [] : janggiHighlightedMoves}
+                    disabled={isEngineThinking || pendingJanggiSetup !== null || viewedPosition !== null}
+                    currentTurn={viewedPosition ? positionTurn(viewedPosition) === 'w' : janggiTurn}
+                    onPass={handleJanggiPass}
+                    bikjang={isBikjang(shownJanggiBoard)}
+                  />
+                ) : selectedVariant === 'janggi3' ? (
+                  <Janggi3Board
+                    board={shownJanggiBoard}
+                    onMove={handleJanggiMove}
+                    highlightedMoves={viewedPosition ? [] : janggiHighlightedMoves}
+                    disabled={isEngineThinking || pendingJanggiSetup !== null || viewedPosition !== null}
+                    currentTurn={viewedPosition ? positionTurn(viewedPosition) === 'w' : janggiTurn}
+                    onPass={handleJanggiPass}
+                    bikjang={isBikjang(shownJanggiBoard)}
+                  />
+                ) : (
+                  <ChessBoard
+                    variant={selectedVariant}
+                    onMove={handleMove}
+                    fen={viewedPosition?.fen ?? (currentFen || undefined)}
+                    disabled={viewedPosition !== null}
+                    suggestedMove={hoveredMove || (analysis[0]?.pv?.[0])}
+                    moveSequence={moveSequence}
+                  />
+                )}
+              </View>
+            )}
+            {/* Clock of the bottom player (White / Han) */}
+            {timeControl.type !== 'none' && (
+              <ClockDisplay
+                side="w"
+                label={selectedVariant === 'chess' ? 'White' : 'Han'}
+                snapshot={clockSnapshot}
+                control={timeControl}
+              />
+            )}
           </View>
 
           {/* Right Column - Suggestions and Controls */}
@@ -1585,18 +2681,33 @@ function App(): React.JSX.Element {
                   analysis={analysis}
                   analysisTurn={analysisTurn}
                   analysisFen={analysisFen}
-                  currentFen={currentFen}
-                  onSuggestionClick={handleSuggestionClick}
+                  isAnalyzing={isAnalyzing}
+                  currentFen={viewedPosition?.fen ?? currentFen}
+                  onSuggestionClick={viewedPosition ? undefined : handleSuggestionClick}
                   onSuggestionHover={setHoveredMove}
                   onContinuationHover={setMoveSequence}
-                  currentTurn={currentTurn}
+                  currentTurn={viewedPosition ? positionTurn(viewedPosition) : currentTurn}
+                  isReviewing={viewedPosition !== null}
                   player1Type={player1Type}
                   player2Type={player2Type}
                   variant={selectedVariant}
+                  multiPVCount={multiPVCount}
+                  onMultiPVChange={setMultiPVCount}
                 />
               </View>
             )}
 
+            {/* Move List - click a move or use Home / Left / Right / End to look back */}
+            <View style={styles.analysisContainer}>
+              <MoveList
+                moves={moveLabels}
+                firstTurn={historyMoves.firstTurn}
+                viewedPly={viewedPly}
+                onViewPly={handleViewPly}
+                sideLabels={selectedVariant === 'chess' ? ['White', 'Black'] : ['Han', 'Cho']}
+              />
+            </View>
+
             {/* Stats Panel */}
             <View style={styles.statsContainer}>
               <Text style={styles.controlsSectionTitle}>Statistics</Text>
@@ -1609,17 +2720,11 @@ function App(): React.JSX.Element {
                       <Text
                         style={[
                           styles.scoreValue,
-                          analysis[0].score > 0
+                          isWhiteFavoured(analysis[0].score)
                             ? styles.positiveScore
                             : styles.negativeScore,
                         ]}>
-                        {Math.abs(analysis[0].score) > 9000
-                          ? `M${Math.abs(
-                              analysis[0].score > 0
-                                ? Math.ceil((10000 - analysis[0].score) / 2)
-                                : Math.ceil((-10000 - analysis[0].score) / 2),
-                            )}`
-                          : (analysis[0].score / 100).toFixed(2)}
+                        {formatScore(analysis[0].score)}
                       </Text>
                       <Text style={styles.scoreLabel}>Evaluation</Text>
                     </View>
@@ -1634,32 +2739,16 @@ function App(): React.JSX.Element {
                           {(analysis[0].nodes / 1000).toFixed(0)}k
                         </Text>
                       </View>
+                      <View style={styles.miniStatRow}>
+                        <Text style={styles.miniStatLabel}>White win:</Text>
+                        <Text style={styles.miniStatValue}>
+                          {(winProbability(analysis[0].score) * 100).toFixed(0)}%
+                        </Text>
+                      </View>
                     </View>
                   </View>
                   <Text style={styles.evaluationText}>
-                    {(() => {
-                      const score = analysis[0].score;
-                      const absScore = Math.abs(score);
-                      if (absScore > 9000) {
-                        return score > 0 ? 'White is winning' : 'Black is winning';
-                      }
-                      if (absScore > 300) {
-                        return score > 0
-                          ? 'White has a winning advantage'
-                          : 'Black has a winning advantage';
-                      }
-                      if (absScore > 150) {
-                        return score > 0
-                          ? 'White has a significant advantage'
-                          : 'Black has a significant advantage';
-                      }
-                      if (absScore > 50) {
-                        return score > 0
-                          ? 'White is slightly better'
-                          : 'Black is slightly better';
-                      }
-                      return 'The position is equal';
-                    })()}
+                    {describeScore(analysis[0].score)}
                   </Text>
                 </View>
               )}
@@ -1725,6 +2814,39 @@ function App(): React.JSX.Element {
                   </View>
                 </View>
               )}
+
+              {/* How games ended */}
+              {Object.keys(stats.byReason).length > 0 && (
+                <View style={styles.winOddsSection}>
+                  <Text style={styles.statsSubtitle}>Endings</Text>
+                  {(Object.keys(stats.byReason) as ResultReason[]).map(reason => (
+                    <View key={reason} style={styles.miniStatRow}>
+                      <Text style={styles.miniStatLabel}>{RESULT_REASON_LABELS[reason]}:</Text>
+                      <Text style={styles.miniStatValue}>{stats.byReason[reason]}</Text>
+                    </View>
+                  ))}
+                </View>
+              )}
+
+              {/* Human vs AI results per AI strength level */}
+              {Object.keys(stats.byStrength).length > 0 && (
+                <View style={styles.winOddsSection}>
+                  <Text style={styles.statsSubtitle}>vs AI Strength</Text>
+                  {Object.keys(stats.byStrength)
+                    .sort((a, b) => Number(a) - Number(b))
+                    .map(level => {
+                      const record = stats.byStrength[level];
+                      return (
+                        <View key={level} style={styles.miniStatRow}>
+                          <Text style={styles.miniStatLabel}>{strengthLabel(Number(level))}:</Text>
+                          <Text style={styles.miniStatValue}>
+                            {record.humanWins}W {record.draws}D {record.aiWins}L ({record.games})
+                          </Text>
+                        </View>
+                      );
+                    })}
+                </View>
+              )}
             </View>
 
             {/* Controls Section */}
@@ -1764,11 +2886,181 @@ function App(): React.JSX.Element {
                 </Pressable>
               </View>
 
+              {/* Black AI strength */}
+              {player1Type === 'ai' && selectedVariant !== 'janggi3' && (
+                <View style={styles.optionRow}>
+                  <Text style={styles.optionLabel}>Black AI:</Text>
+                  {STRENGTH_PRESETS.map(preset => (
+                    <Pressable
+                      key={preset.level}
+                      style={[
+                        styles.optionButton,
+                        aiStrength.b === preset.level && styles.optionButtonActive,
+                      ]}
+                      onPress={() => setAIStrength(prev => ({...prev, b: preset.level}))}>
+                      <Text
+                        style={[
+                          styles.optionText,
+                          aiStrength.b === preset.level && styles.optionTextActive,
+                        ]}>
+                        {preset.label}
+                      </Text>
+                    </Pressable>
+                  ))}
+                </View>
+              )}
+
+              {/* White AI strength */}
+              {player2Type === 'ai' && selectedVariant !== 'janggi3' && (
+                <View style={styles.optionRow}>
+                  <Text style={styles.optionLabel}>White AI:</Text>
+                  {STRENGTH_PRESETS.map(preset => (
+                    <Pressable
+                      key={preset.level}
+                      style={[
+                        styles.optionButton,
+                        aiStrength.w === preset.level && styles.optionButtonActive,
+                      ]}
+                      onPress={() => setAIStrength(prev => ({...prev, w: preset.level}))}>
+                      <Text
+                        style={[
+                          styles.optionText,
+                          aiStrength.w === preset.level && styles.optionTextActive,
+                        ]}>
+                        {preset.label}
+                      </Text>
+                    </Pressable>
+                  ))}
+                </View>
+              )}
+
+              {/* Standalone Janggi search depth */}
+              {(player1Type === 'ai' || player2Type === 'ai') && selectedVariant === 'janggi3' && (
+                <View style={styles.optionRow}>
+                  <Text style={styles.optionLabel}>Search depth:</Text>
+                  {Array.from({length: MAX_SEARCH_DEPTH - MIN_SEARCH_DEPTH + 1}, (_, i) => MIN_SEARCH_DEPTH + i).map(depth => (
+                    <Pressable
+                      key={depth}
+                      style={[
+                        styles.optionButton,
+                        janggiSearchDepth === depth && styles.optionButtonActive,
+                      ]}
+                      onPress={() => setJanggiSearchDepth(depth)}>
+                      <Text
+                        style={[
+                          styles.optionText,
+                          janggiSearchDepth === depth && styles.optionTextActive,
+                        ]}>
+                        {depth}
+                      </Text>
+                    </Pressable>
+                  ))}
+                </View>
+              )}
+
+              {/* AI formation policy (standalone Janggi) */}
+              {(player1Type === 'ai' || player2Type === 'ai') &&
+                (selectedVariant === 'janggi2' || selectedVariant === 'janggi3') && (
+                <View style={styles.optionRow}>
+                  <Text style={styles.optionLabel}>AI formation:</Text>
+                  {([
+                    {label: 'Random', policy: {type: 'random'}},
+                    {label: 'Mirror', policy: {type: 'mirror'}},
+                    ...SETUPS.map(setup => ({label: SETUP_LABELS[setup], policy: {type: 'fixed', setup}})),
+                  ] as {label: string; policy: SetupPolicy}[]).map(({label, policy}) => {
+                    const isActive =
+                      aiSetupPolicy.type === policy.type &&
+                      (policy.type !== 'fixed' || (aiSetupPolicy.type === 'fixed' && aiSetupPolicy.setup === policy.setup));
+                    return (
+                      <Pressable
+                        key={label}
+                        style={[styles.optionButton, isActive && styles.optionButtonActive]}
+                        onPress={() => setAISetupPolicy(policy)}>
+                        <Text style={[styles.optionText, isActive && styles.optionTextActive]}>
+                          {label}
+                        </Text>
+                      </Pressable>
+                    );
+                  })}
+                </View>
+              )}
+
+              {/* Time Control */}
+              <View style={styles.optionRow}>
+                <Text style={styles.optionLabel}>Clock:</Text>
+                {TIME_CONTROL_PRESETS.map(preset => (
+                  <Pressable
+                    key={preset.label}
+                    style={[
+                      styles.optionButton,
+                      timeControl === preset.control && styles.optionButtonActive,
+                    ]}
+                    onPress={() => setTimeControl(preset.control)}>
+                    <Text
+                      style={[
+                        styles.optionText,
+                        timeControl === preset.control && styles.optionTextActive,
+                      ]}>
+                      {preset.label}
+                    </Text>
+                  </Pressable>
+                ))}
+              </View>
+
               {/* Game Control Buttons */}
               <View style={styles.gameControls}>
                 <Pressable style={styles.controlButton} onPress={handleNewGame}>
                   <Text style={styles.controlButtonText}>New Game</Text>
                 </Pressable>
+                {(selectedVariant === 'chess' || selectedVariant === 'janggi' || selectedVariant === 'janggi2' || selectedVariant === 'janggi3') && (
+                  <>
+                    <Pressable style={styles.controlButton} onPress={handleSavePgn}>
+                      <Text style={styles.controlButtonText}>Save PGN</Text>
+                    </Pressable>
+                    {selectedVariant !== 'chess' && (
+                      <Pressable style={styles.controlButton} onPress={() => handleSaveJanggiRecord('gib')}>
+                        <Text style={styles.controlButtonText}>Save GIB</Text>
+                      </Pressable>
+                    )}
+                    <Pressable style={styles.controlButton} onPress={handleOpenGame}>
+                      <Text style={styles.controlButtonText}>Open Game</Text>
+                    </Pressable>
+                  </>
+                )}
+                <Pressable
+                  style={[styles.controlButton, isEditingPosition && styles.activeButton]}
+                  onPress={() => {
+                    setIsBrowsingArchive(false);
+                    setIsEditingPosition(!isEditingPosition);
+                  }}
+                  disabled={pendingJanggiSetup !== null}>
+                  <Text style={styles.controlButtonText}>
+                    {isEditingPosition ? 'Close Editor' : 'Edit Position'}
+                  </Text>
+                </Pressable>
+                <Pressable
+                  style={[styles.controlButton, isBrowsingArchive && styles.activeButton]}
+                  onPress={() => (isBrowsingArchive ? setIsBrowsingArchive(false) : handleOpenArchive())}>
+                  <Text style={styles.controlButtonText}>
+                    {isBrowsingArchive ? 'Close Archive' : 'Game Archive'}
+                  </Text>
+                </Pressable>
+                {(player1Type === 'human' || player2Type === 'human') && (
+                  <>
+                    <Pressable
+                      style={[styles.controlButton, !undoRedo.canUndo && styles.disabledButton]}
+                      onPress={handleUndo}
+                      disabled={!undoRedo.canUndo || pendingJanggiSetup !== null}>
+                      <Text style={styles.controlButtonText}>Undo</Text>
+                    </Pressable>
+                    <Pressable
+                      style={[styles.controlButton, !undoRedo.canRedo && styles.disabledButton]}
+                      onPress={handleRedo}
+                      disabled={!undoRedo.canRedo || pendingJanggiSetup !== null}>
+                      <Text style={styles.controlButtonText}>Redo</Text>
+                    </Pressable>
+                  </>
+                )}
                 {player1Type === 'ai' && player2Type === 'ai' && selectedVariant !== 'janggi2' && selectedVariant !== 'janggi3' && (
                   <>
                     <Pressable
@@ -1804,6 +3096,19 @@ function App(): React.JSX.Element {
                     {gameMode === 'learning' ? 'Exit Learn' : 'Learn'}
                   </Text>
                 </Pressable>
+                {selectedVariant !== 'janggi3' && (
+                  <Pressable
+                    style={[
+                      styles.controlButton,
+                      gameMode === 'analysis' && styles.activeButton,
+                    ]}
+                    onPress={handleAnalysisMode}
+                    disabled={!engineReady}>
+                    <Text style={styles.controlButtonText}>
+                      {gameMode === 'analysis' ? 'Exit Analysis' : 'Analyze'}
+                    </Text>
+                  </Pressable>
+                )}
               </View>
 
               {/* Fast Mode Indicator */}
@@ -2237,6 +3542,37 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     opacity: 0.9,
   },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginBottom: 12,
+  },
+  optionLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#333333',
+    marginRight: 4,
+  },
+  optionButton: {
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#2196F3',
+    backgroundColor: '#ffffff',
+  },
+  optionButtonActive: {
+    backgroundColor: '#2196F3',
+  },
+  optionText: {
+    fontSize: 12,
+    color: '#2196F3',
+  },
+  optionTextActive: {
+    color: '#ffffff',
+  },
   gameControls: {
     flexDirection: 'row',
     gap: 12,
@@ -2258,6 +3594,9 @@ const styles = StyleSheet.create({
   activeButton: {
     backgroundColor: '#4CAF50',
   },
+  disabledButton: {
+    backgroundColor: '#BDBDBD',
+  },
   controlButtonText: {
     color: '#ffffff',
     fontSize: 14,
@@ -0,0 +1,78 @@
+/**
+ * Differential test: random games, comparing our legal moves with
+ * Fairy-Stockfish's in every position (needs the engine binary)
+ */
+
+import {
+  Board,
+  applyMove,
+  boardToFEN,
+  createInitialBoard,
+  getAllLegalMoves,
+  getGameOutcome,
+  isPassMove,
+  moveToEngineNotation,
+} from '../../src/game/janggi';
+import {engineLegalMoves, describeWithEngine} from './fairy-stockfish';
+
+const GAMES = 20;
+const MAX_PLIES = 150;
+
+// Seeded PRNG (mulberry32), so failures reproduce
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+interface Sample {
+  fen: string;
+  moves: string[];
+}
+
+/**
+ * Positions of one random game, with our legal moves in each
+ * Passes are rare, so games get somewhere; the game stops where the
+ * engine would end it (result, two passes in a row).
+ */
+function playRandomGame(random: () => number): Sample[] {
+  const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+  let board: Board = createInitialBoard(Math.floor(random() * 4), Math.floor(random() * 4));
+  let previousBoard: Board | undefined;
+  let isHanTurn = true;
+  let lastWasPass = false;
+  const samples: Sample[] = [];
+
+  for (let ply = 0; ply < MAX_PLIES; ply++) {
+    if (getGameOutcome(board, isHanTurn, previousBoard).result !== null) break;
+
+    const moves = getAllLegalMoves(board, isHanTurn);
+    samples.push({fen: boardToFEN(board, isHanTurn), moves: moves.map(moveToEngineNotation).sort()});
+
+    const playable = moves.filter(move => !isPassMove(move));
+    const move = playable.length > 0 && random() < 0.97 ? pick(playable) : pick(moves);
+    if (isPassMove(move) && lastWasPass) break;
+
+    lastWasPass = isPassMove(move);
+    previousBoard = board;
+    board = applyMove(board, move);
+    isHanTurn = !isHanTurn;
+  }
+  return samples;
+}
+
+describeWithEngine('Janggi legal moves against Fairy-Stockfish', () => {
+  it.each(Array.from({length: GAMES}, (_, i) => i + 1))('random game %i', seed => {
+    const samples = playRandomGame(createRandom(seed));
+    const engineMoves = engineLegalMoves(samples.map(sample => sample.fen));
+
+    samples.forEach((sample, i) => {
+      expect({fen: sample.fen, moves: sample.moves}).toEqual({fen: sample.fen, moves: engineMoves[i]});
+    });
+  });
+});
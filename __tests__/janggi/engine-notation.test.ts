@@ -0,0 +1,55 @@
+/**
+ * Engine move notation: XBoard numbers Janggi ranks 0-9, the app (UCI/PGN) 1-10
+ * Engine moves are converted at the protocol boundary and then played on the app's FEN.
+ */
+
+import {convertMove, isMoveToken, parseMove} from '../../src/utils/move-notation';
+import {applyMoveToFEN, validateJanggiMove} from '../../src/utils/janggi-fen';
+
+const START_FEN = 'rnba1abnr/4k4/1c5c1/p1p1p1p1p/9/9/P1P1P1P1P/1C5C1/4K4/RNBA1ABNR w - - 0 1';
+
+describe('XBoard rank numbering on 10-rank boards', () => {
+  it('reads rank 0 as the bottom rank', () => {
+    expect(parseMove('a0a1', 'janggi', 'xboard')).toEqual({
+      type: 'normal',
+      from: {file: 0, rank: 0},
+      to: {file: 0, rank: 1},
+    });
+    expect(isMoveToken('i9i8', 'janggi', 'xboard')).toBe(true);
+    expect(isMoveToken('i10i9', 'janggi', 'xboard')).toBe(false);
+    expect(isMoveToken('a0a1', 'janggi', 'uci')).toBe(false);
+  });
+
+  it('keeps chess ranks 1-based in both protocols', () => {
+    expect(convertMove('e2e4', 'chess', 'xboard', 'uci')).toBe('e2e4');
+    expect(isMoveToken('e0e1', 'chess', 'xboard')).toBe(false);
+  });
+
+  it('converts moves both ways', () => {
+    expect(convertMove('b0c2', 'janggi', 'xboard', 'uci')).toBe('b1c3');
+    expect(convertMove('b9c7', 'janggi', 'xboard', 'uci')).toBe('b10c8');
+    expect(convertMove('b10c8', 'janggi', 'uci', 'xboard')).toBe('b9c7');
+    expect(convertMove('e1e1', 'janggi', 'xboard', 'uci')).toBe('e2e2');
+    expect(convertMove('@@@@', 'janggi', 'xboard', 'uci')).toBe('@@@@');
+  });
+});
+
+describe('engine moves on the Janggi FEN', () => {
+  it('plays an XBoard engine move touching rank 0', () => {
+    const move = convertMove('b0c2', 'janggi', 'xboard', 'uci');
+    expect(validateJanggiMove(START_FEN, move)).toEqual({isValid: true});
+    expect(applyMoveToFEN(START_FEN, move).split(' ').slice(0, 2)).toEqual([
+      'rnba1abnr/4k4/1c5c1/p1p1p1p1p/9/9/P1P1P1P1P/1CN4C1/4K4/R1BA1ABNR',
+      'b',
+    ]);
+  });
+
+  it('plays a reply from the top rank', () => {
+    const afterHan = applyMoveToFEN(START_FEN, convertMove('a0a1', 'janggi', 'xboard', 'uci'));
+    const move = convertMove('b9c7', 'janggi', 'xboard', 'uci');
+    expect(validateJanggiMove(afterHan, move)).toEqual({isValid: true});
+    expect(applyMoveToFEN(afterHan, move).split(' ')[0]).toBe(
+      'r1ba1abnr/4k4/1cn4c1/p1p1p1p1p/9/9/P1P1P1P1P/1C5C1/R3K4/1NBA1ABNR',
+    );
+  });
+});
@@ -0,0 +1,89 @@
+/// <reference types="node" />
+/**
+ * Fairy-Stockfish driver for the rules tests
+ *
+ * Runs the Linux binary once per batch of UCI commands (perft output is
+ * read in one go, so NodeEngineTransport's streaming isn't needed). The
+ * binary is taken from FAIRY_STOCKFISH, or the bundled one. Suites that need
+ * it fail when FAIRY_STOCKFISH names a binary that can't run; the bundled
+ * one not running (e.g. an older glibc) skips them with a warning.
+ */
+
+import {execFileSync} from 'child_process';
+import {DEFAULT_NODE_ENGINE_PATH} from '../../src/services/node-engine-transport';
+
+export const ENGINE_PATH = process.env.FAIRY_STOCKFISH || DEFAULT_NODE_ENGINE_PATH;
+
+function runEngine(commands: string[]): string[] {
+  const input = ['uci', 'setoption name UCI_Variant value janggi', ...commands, 'quit', ''].join('\n');
+  const output = execFileSync(ENGINE_PATH, [], {
+    input,
+    maxBuffer: 64 * 1024 * 1024,
+    timeout: 120000,
+    stdio: ['pipe', 'pipe', 'pipe'],
+  });
+  return output.toString().split('\n').map(line => line.trim());
+}
+
+/**
+ * Why the engine can't run here, or null if it can
+ */
+function engineUnavailableReason(): string | null {
+  try {
+    return runEngine([]).includes('uciok') ? null : 'no "uciok" from the engine';
+  } catch (error) {
+    const stderr = (error as {stderr?: Buffer}).stderr?.toString().trim();
+    return stderr || (error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * describe() for suites that compare against the engine
+ */
+export function describeWithEngine(name: string, suite: () => void): void {
+  const reason = engineUnavailableReason();
+  if (reason === null) {
+    describe(name, suite);
+    return;
+  }
+
+  const message = `Fairy-Stockfish can't run (${ENGINE_PATH}): ${reason}`;
+  if (process.env.FAIRY_STOCKFISH) {
+    describe(name, () => {
+      it('needs the engine', () => {
+        throw new Error(message);
+      });
+    });
+    return;
+  }
+  console.warn(`SKIPPED "${name}": ${message}\nSet FAIRY_STOCKFISH to a binary that runs here.`);
+  describe.skip(name, suite);
+}
+
+/**
+ * `go perft` per position: total nodes and the count after each first move
+ */
+export function enginePerft(fens: string[], depth: number): {nodes: number; divide: Record<string, number>}[] {
+  const results: {nodes: number; divide: Record<string, number>}[] = [];
+  let divide: Record<string, number> = {};
+
+  const lines = runEngine(fens.flatMap(fen => [`position fen ${fen}`, `go perft ${depth}`]));
+  for (const line of lines) {
+    const move = /^([a-i]\d+[a-i]\d+): (\d+)$/.exec(line);
+    const total = /^Nodes searched: (\d+)$/.exec(line);
+    if (move) {
+      divide[move[1]] = Number(move[2]);
+    } else if (total) {
+      results.push({nodes: Number(total[1]), divide});
+      divide = {};
+    }
+  }
+  return results;
+}
+
+/**
+ * Legal moves per position in engine notation, sorted
+ */
+export function engineLegalMoves(fens: string[]): string[][] {
+  return enginePerft(fens, 1).map(result => Object.keys(result.divide).sort());
+}
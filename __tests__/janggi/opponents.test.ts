@@ -0,0 +1,53 @@
+/**
+ * Engine opponent: engine moves arrive in UCI/PGN notation (the XBoard client
+ * converts them); rejected moves fall back to the built-in search and are reported
+ */
+
+import {FENToBoard, createEngineOpponent, moveToEngineNotation} from '../../src/game/janggi';
+import {convertMove} from '../../src/utils/move-notation';
+
+const START_FEN = 'rnba1abnr/4k4/1c5c1/p1p1p1p1p/9/9/P1P1P1P1P/1C5C1/4K4/RNBA1ABNR w - - 0 1';
+
+describe('createEngineOpponent', () => {
+  it('plays a converted XBoard engine move from rank 0', async () => {
+    const {board, isHanTurn} = FENToBoard(START_FEN);
+    const onFallback = jest.fn();
+    const opponent = createEngineOpponent(
+      async () => convertMove('b0c2', 'janggi2', 'xboard', 'uci'),
+      onFallback,
+    );
+
+    const move = await opponent.getMove(board, isHanTurn, () => true);
+    expect(move && moveToEngineNotation(move)).toBe('b1c3');
+    expect(onFallback).not.toHaveBeenCalled();
+  });
+
+  it('passes an engine failure on instead of reporting no move', async () => {
+    const {board, isHanTurn} = FENToBoard(START_FEN);
+    const onFallback = jest.fn();
+    const opponent = createEngineOpponent(() => Promise.reject(new Error('Engine not ready')), onFallback);
+
+    await expect(opponent.getMove(board, isHanTurn, () => true)).rejects.toThrow('Engine not ready');
+    expect(onFallback).not.toHaveBeenCalled();
+  });
+
+  it('reports an illegal engine move and plays the built-in choice', async () => {
+    const {board, isHanTurn} = FENToBoard(START_FEN);
+    const onFallback = jest.fn();
+    const opponent = createEngineOpponent(async () => 'e5e6', onFallback);
+
+    const move = await opponent.getMove(board, isHanTurn, () => true);
+    expect(move).not.toBeNull();
+    expect(onFallback).toHaveBeenCalledWith('e5e6', 'illegal');
+  }, 15000);
+
+  it('reports a forbidden repetition', async () => {
+    const {board, isHanTurn} = FENToBoard(START_FEN);
+    const onFallback = jest.fn();
+    const opponent = createEngineOpponent(async () => 'b1c3', onFallback);
+
+    const move = await opponent.getMove(board, isHanTurn, candidate => moveToEngineNotation(candidate) !== 'b1c3');
+    expect(move && moveToEngineNotation(move)).not.toBe('b1c3');
+    expect(onFallback).toHaveBeenCalledWith('b1c3', 'repetition');
+  }, 15000);
+});
@@ -0,0 +1,78 @@
+/**
+ * Move generator conformance: perft counts of known positions
+ * Counts were taken from Fairy-Stockfish `go perft` (variant janggi) and are
+ * checked against the engine again when its binary runs here.
+ */
+
+import {FENToBoard, perft, perftDivide} from '../../src/game/janggi';
+import {enginePerft, describeWithEngine} from './fairy-stockfish';
+
+const POSITIONS: {name: string; fen: string; nodes: number[]}[] = [
+  {
+    name: 'start (Ma-Sang-Sang-Ma)',
+    fen: 'rnba1abnr/4k4/1c5c1/p1p1p1p1p/9/9/P1P1P1P1P/1C5C1/4K4/RNBA1ABNR w - - 0 1',
+    nodes: [32, 1024, 33000],
+  },
+  {
+    name: 'start (mixed setups)',
+    fen: 'rbna1abnr/4k4/1c5c1/p1p1p1p1p/9/9/P1P1P1P1P/1C5C1/4K4/RBNA1ANBR w - - 0 1',
+    nodes: [32, 1024, 33336],
+  },
+  {
+    name: 'middlegame',
+    fen: '1bna1a2r/5k3/7cn/1p1p2p1p/9/1P6P/6P2/7C1/4A4/1BNAK1NBR w - - 0 1',
+    nodes: [25, 604, 16328],
+  },
+  {
+    name: 'endgame with pieces in the palace',
+    fen: '5a1C1/4a4/4bk3/1P3nN2/4p4/7P1/9/1N7/3A5/1B2AK3 w - - 0 1',
+    nodes: [34, 625, 16375],
+  },
+  {
+    name: 'palace diagonals (chariot, soldier, cannon over the general)',
+    fen: '3R5/4a4/3P1k3/9/9/9/9/9/4K4/r2C5 w - - 0 1',
+    nodes: [24, 335, 7637],
+  },
+  {
+    name: 'palace diagonals, Cho to move',
+    fen: '3R5/4a4/3P1k3/9/9/9/9/9/4K4/r2C5 b - - 0 1',
+    nodes: [15, 311, 4739],
+  },
+  {
+    name: 'bikjang (break it or pass)',
+    fen: '3a1a3/4k4/9/9/9/2C6/9/9/4K4/3A1A3 w - - 0 1',
+    nodes: [5, 44, 344],
+  },
+  {
+    name: 'check (no pass)',
+    fen: '3k5/9/9/9/4r4/9/9/9/4K4/3A1A3 w - - 0 1',
+    nodes: [4, 50, 341],
+  },
+];
+
+describe('Janggi perft', () => {
+  it.each(POSITIONS)('$name', ({fen, nodes}) => {
+    const {board, isHanTurn} = FENToBoard(fen);
+    nodes.forEach((expected, i) => {
+      expect(perft(board, isHanTurn, i + 1)).toBe(expected);
+    });
+  });
+
+  it('divide sums to perft', () => {
+    const {board, isHanTurn} = FENToBoard(POSITIONS[0].fen);
+    const divide = perftDivide(board, isHanTurn, 2);
+    expect(Object.values(divide).reduce((sum, n) => sum + n, 0)).toBe(POSITIONS[0].nodes[1]);
+  });
+});
+
+describeWithEngine('Janggi perft against Fairy-Stockfish', () => {
+  it.each(POSITIONS)('$name', ({fen, nodes}) => {
+    const depth = nodes.length;
+    const [engine] = enginePerft([fen], depth);
+    const {board, isHanTurn} = FENToBoard(fen);
+
+    // Per-move counts first, so a failure names the move that differs
+    expect(perftDivide(board, isHanTurn, depth)).toEqual(engine.divide);
+    expect(engine.nodes).toBe(nodes[depth - 1]);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * GIB records: round trip, and illegal moves rejected before they are played
+ * Games set up in the position editor keep their FEN and round trip as PGN only.
+ */
+
+import {
+  FENToBoard,
+  GameRecordError,
+  JanggiGameRecord,
+  Move,
+  applyMove,
+  createInitialBoard,
+  exportGib,
+  exportJanggiPgn,
+  importGib,
+  importJanggiPgn,
+  moveFromEngineNotation,
+  replayRecord,
+  setupsFromBoard,
+} from '../../src/game/janggi';
+
+const RECORD: JanggiGameRecord = {
+  setups: setupsFromBoard(createInitialBoard())!,
+  moves: [
+    {from: {row: 9, col: 1}, to: {row: 7, col: 2}}, // Han horse b1c3
+    {from: {row: 0, col: 1}, to: {row: 2, col: 2}}, // Cho horse b10c8
+  ],
+  result: null,
+  han: 'Han player',
+  cho: 'Cho player',
+  date: new Date(2024, 4, 17),
+  tags: {},
+};
+
+// Set up in the position editor, Cho to move
+const EDITED_FEN = '3R5/4a4/3P1k3/9/9/9/9/9/4K4/r2C5 b - - 0 1';
+
+const editedMoves = (notations: string[]): Move[] => {
+  let {board, isHanTurn} = FENToBoard(EDITED_FEN);
+  return notations.map(notation => {
+    const move = moveFromEngineNotation(board, isHanTurn, notation)!;
+    board = applyMove(board, move);
+    isHanTurn = !isHanTurn;
+    return move;
+  });
+};
+
+const withMoves = (movetext: string): string => exportGib({...RECORD, moves: []}).trimEnd() + `\n${movetext}\n`;
+
+describe('GIB records', () => {
+  it('reads back an exported game', () => {
+    const imported = importGib(exportGib(RECORD));
+    expect(imported.moves).toEqual(RECORD.moves);
+    expect(imported.setups).toEqual(RECORD.setups);
+    expect([imported.han, imported.cho]).toEqual(['Han player', 'Cho player']);
+  });
+
+  it('rejects a chariot jumping over its own soldier', () => {
+    expect(() => importGib(withMoves('1. 01차51'))).toThrow(new GameRecordError('Move 1 (1. 01차51) is not legal'));
+  });
+
+  it('rejects a move from an empty point before playing on', () => {
+    expect(() => importGib(withMoves('1. 02마83 2. 55차56'))).toThrow(
+      new GameRecordError('Move 2 (2. 55차56) is not legal'),
+    );
+  });
+
+  it('keeps a game started from an edited position with Cho to move as PGN', () => {
+    const moves = editedMoves(['a1a5', 'e2e3']);
+    const record: JanggiGameRecord = {...RECORD, setups: null, startFen: EDITED_FEN, moves};
+    expect(replayRecord(record)).toHaveLength(3);
+
+    const pgn = exportJanggiPgn(record);
+    expect(pgn).toContain(`[FEN "${EDITED_FEN}"]`);
+    const imported = importJanggiPgn(pgn);
+    expect(imported.setups).toBeNull();
+    expect(imported.startFen).toBe(EDITED_FEN);
+    expect(imported.moves).toEqual(record.moves);
+  });
+
+  it('only writes GIB for games started from the formations', () => {
+    const record: JanggiGameRecord = {...RECORD, setups: null, startFen: EDITED_FEN, moves: []};
+    expect(() => exportGib(record)).toThrow(GameRecordError);
+  });
+});
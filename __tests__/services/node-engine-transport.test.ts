@@ -0,0 +1,38 @@
+/**
+ * Node transport: a dead engine is reported, not a crash of the test process
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {NodeEngineTransport} from '../../src/services/node-engine-transport';
+
+describe('NodeEngineTransport', () => {
+  it('reports a write to a closed engine input through onError', async () => {
+    // An "engine" that stops reading its input but keeps running
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'engine-'));
+    const enginePath = path.join(dir, 'closed-input.sh');
+    fs.writeFileSync(enginePath, '#!/bin/sh\nexec 0<&-\nsleep 2\n', {mode: 0o755});
+
+    const transport = new NodeEngineTransport();
+    const errors: string[] = [];
+    transport.onError(error => errors.push(error));
+    try {
+      await transport.spawn(enginePath);
+      await new Promise(resolve => setTimeout(resolve, 200));
+
+      await expect(transport.send('isready')).rejects.toThrow(/EPIPE/);
+      expect(errors.some(error => error.includes('EPIPE'))).toBe(true);
+      expect(await transport.isRunning()).toBe(false);
+    } finally {
+      await transport.stop();
+      fs.rmSync(dir, {recursive: true, force: true});
+    }
+  });
+
+  it('rejects spawning a missing binary', async () => {
+    const transport = new NodeEngineTransport();
+    await expect(transport.spawn('/nonexistent/engine')).rejects.toThrow();
+    expect(await transport.isRunning()).toBe(false);
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Engine scores: XBoard and UCI mate/centipawn decoding, normalized to White
+ */
+
+import {EngineScore} from '../../src/types/game';
+import {formatScore, normalizeScore, parseUciScore, parseXBoardScore} from '../../src/utils/engine-score';
+import {parseUciInfoLine} from '../../src/services/uci-engine';
+
+const WHITE_TO_MOVE = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+const BLACK_TO_MOVE = 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1';
+
+describe('parseXBoardScore', () => {
+  it.each<[number, EngineScore]>([
+    [35, {type: 'cp', value: 35}],
+    [-120, {type: 'cp', value: -120}],
+    [0, {type: 'cp', value: 0}],
+    [31000, {type: 'cp', value: 31000}],
+    [100003, {type: 'mate', value: 3}],
+    [-100003, {type: 'mate', value: -3}],
+    [100001, {type: 'mate', value: 1}],
+    [200005, {type: 'mate', value: 5}],
+    [31995, {type: 'mate', value: 3}], // 32000 - 5 plies
+    [31994, {type: 'mate', value: 3}], // 32000 - 6 plies
+    [-31999, {type: 'mate', value: -1}],
+  ])('%d', (raw, expected) => {
+    expect(parseXBoardScore(raw)).toEqual(expected);
+  });
+});
+
+describe('parseUciInfoLine', () => {
+  it.each<[string, EngineScore | undefined]>([
+    ['info depth 12 score cp 35 nodes 1000 pv e2e4 e7e5', {type: 'cp', value: 35}],
+    ['info depth 20 score mate 3 pv d1h5', {type: 'mate', value: 3}],
+    ['info depth 20 score mate -2 pv e1e2', {type: 'mate', value: -2}],
+    ['info depth 9 score cp -48 lowerbound nodes 500', {type: 'cp', value: -48}],
+    ['info string NNUE evaluation enabled', undefined],
+  ])('%s', (line, expected) => {
+    const info = parseUciInfoLine(line)!;
+    expect(parseUciScore(info.scoreCp, info.scoreMate)).toEqual(expected);
+  });
+
+  it('keeps the bound and the PV', () => {
+    const info = parseUciInfoLine('info depth 9 multipv 2 score cp -48 lowerbound nodes 500 pv g1f3 d7d5');
+    expect(info).toMatchObject({depth: 9, multipv: 2, bound: 'lowerbound', nodes: 500, pv: ['g1f3', 'd7d5']});
+  });
+
+  it('ignores lines that are not info lines', () => {
+    expect(parseUciInfoLine('bestmove e2e4 ponder e7e5')).toBeNull();
+  });
+});
+
+describe('normalizeScore', () => {
+  it.each<[EngineScore, string, EngineScore, string]>([
+    [{type: 'cp', value: 35}, WHITE_TO_MOVE, {type: 'cp', value: 35}, '0.35'],
+    [{type: 'cp', value: 35}, BLACK_TO_MOVE, {type: 'cp', value: -35}, '-0.35'],
+    [{type: 'mate', value: 3}, WHITE_TO_MOVE, {type: 'mate', value: 3}, 'M3'],
+    [{type: 'mate', value: 3}, BLACK_TO_MOVE, {type: 'mate', value: -3}, '-M3'],
+    [{type: 'mate', value: -2}, BLACK_TO_MOVE, {type: 'mate', value: 2}, 'M2'],
+  ])('%j in %s', (score, fen, expected, text) => {
+    const normalized = normalizeScore(score, fen);
+    expect(normalized).toEqual(expected);
+    expect(formatScore(normalized)).toBe(text);
+  });
+
+  it('reads an XBoard mate for Black as White being mated', () => {
+    expect(formatScore(normalizeScore(parseXBoardScore(100003), BLACK_TO_MOVE))).toBe('-M3');
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Chess PGN: export -> import round trip with %eval comments
+ */
+
+import {Chess} from 'chess.js';
+import {EngineScore} from '../../src/types/game';
+import {PgnGameInfo, exportChessPgn, importChessPgn} from '../../src/utils/pgn';
+import {NO_TIME_CONTROL} from '../../src/utils/time-control';
+
+const INFO: PgnGameInfo = {
+  variant: 'chess',
+  white: {type: 'human'},
+  black: {type: 'ai', strength: 12},
+  result: '*',
+  date: new Date(2024, 4, 17),
+  timeControl: NO_TIME_CONTROL,
+};
+
+// Knights out and back twice: the start position and the one after 1. Nf3 repeat
+const MOVES = [
+  'g1f3', 'g8f6', 'f3g1', 'f6g8',
+  'g1f3', 'g8f6', 'f3g1', 'f6g8',
+  'e2e4', 'e7e5', 'b1c3', 'b8c6', 'f1c4', 'f8c5', 'd2d3', 'd7d6',
+  'c1g5', 'c8g4', 'g1f3', 'g8f6', 'e1g1', 'e8g8',
+];
+
+const EVALS: (EngineScore | null)[] = MOVES.map((_, index) =>
+  index === 3 ? null : index === MOVES.length - 1 ? {type: 'mate', value: -3} : {type: 'cp', value: index * 7 - 40},
+);
+
+describe('chess PGN', () => {
+  it('wraps the movetext with a space after every comment', () => {
+    const pgn = exportChessPgn(INFO, new Chess().fen(), MOVES, EVALS);
+    const movetext = pgn.split('\n\n')[1];
+
+    expect(movetext.split('\n').length).toBeGreaterThan(1);
+    expect(movetext.split('\n').every(line => line.length <= 80)).toBe(true);
+    expect(movetext).not.toMatch(/\}[^\s]/);
+  });
+
+  it('reads back the moves and the evaluation of each move', () => {
+    const imported = importChessPgn(exportChessPgn(INFO, new Chess().fen(), MOVES, EVALS));
+
+    expect(imported.moves).toEqual(MOVES);
+    expect(imported.evals).toEqual(EVALS);
+    expect(imported.tags.White).toBe('Human');
+    expect(imported.result).toBe('*');
+  });
+});
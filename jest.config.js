@@ -0,0 +1,4 @@
+module.exports = {
+  preset: 'react-native',
+  testMatch: ['**/__tests__/**/*.test.ts?(x)'],
+};
@@ -1,8 +1,10 @@
-import React, {useState} from 'react';
+import React from 'react';
 import {View, Text, StyleSheet, Pressable} from 'react-native';
 import {Chess} from 'chess.js';
 import {EngineAnalysis, GameVariant} from '../../types/game';
 import {TermText} from '../ui/tooltip';
+import {parseMove, formatSquare} from '../../utils/move-notation';
+import {formatScore} from '../../utils/engine-score';
 
 interface AnalysisPanelProps {
   analysis?: EngineAnalysis[];
@@ -17,8 +19,13 @@ interface AnalysisPanelProps {
   player1Type?: 'human' | 'ai'; // black
   player2Type?: 'human' | 'ai'; // white
   variant?: GameVariant; // Game variant (chess, janggi, etc.)
+  multiPVCount?: number; // Number of candidate lines to show (1-5)
+  onMultiPVChange?: (count: number) => void;
+  isReviewing?: boolean; // Showing an earlier position from the move list: lines for either side
 }
 
+const MULTIPV_OPTIONS = [1, 2, 3, 4, 5];
+
 export function AnalysisPanel({
   analysis,
   analysisTurn,
@@ -32,43 +39,10 @@ export function AnalysisPanel({
   player1Type,
   player2Type,
   variant = 'chess',
+  multiPVCount = 1,
+  onMultiPVChange,
+  isReviewing = false,
 }: AnalysisPanelProps): React.JSX.Element {
-  const [isHoveringSuggestion, setIsHoveringSuggestion] = useState(false);
-  const [isHoveringContinuation, setIsHoveringContinuation] = useState(false);
-  const formatScore = (score: number): string => {
-    // Mate scores are typically above 9000
-    if (Math.abs(score) > 9000) {
-      // Calculate moves to mate
-      // Positive score = white is winning, negative = black is winning
-      const mateIn = score > 0 ? Math.ceil((10000 - score) / 2) : Math.ceil((-10000 - score) / 2);
-      return `M${Math.abs(mateIn)}`;
-    }
-    return (score / 100).toFixed(2);
-  };
-
-  const getEvaluation = (score: number): string => {
-    const absScore = Math.abs(score);
-    if (absScore > 9000) {
-      return score > 0 ? 'White is winning' : 'Black is winning';
-    }
-    if (absScore > 300) {
-      return score > 0
-        ? 'White has a winning advantage'
-        : 'Black has a winning advantage';
-    }
-    if (absScore > 150) {
-      return score > 0
-        ? 'White has a significant advantage'
-        : 'Black has a significant advantage';
-    }
-    if (absScore > 50) {
-      return score > 0
-        ? 'White is slightly better'
-        : 'Black is slightly better';
-    }
-    return 'The position is equal';
-  };
-
   const formatMovePairs = (moves: string[]): string => {
     let formatted = '';
     for (let i = 0; i < Math.min(moves.length, 10); i += 2) {
@@ -112,17 +86,19 @@ export function AnalysisPanel({
 
   // FINAL VALIDATION: Filter moves to ensure they're for the correct color
   const validateMoveColor = (move: string): boolean => {
-    if (!currentFen || move.length < 4) return false;
+    const parsed = parseMove(move, variant);
+    if (!currentFen || !parsed) return false;
 
     // For Janggi, skip chess.js validation (chess.js doesn't support Janggi FEN)
     // The engine provides valid moves, so we trust them
     if (variant === 'janggi' || variant === 'janggi2') {
       return true;
     }
+    if (parsed.type !== 'normal') return false;
 
     try {
       const testGame = new Chess(currentFen);
-      const fromSquare = move.substring(0, 2) as any;
+      const fromSquare = formatSquare(parsed.from, variant) as any;
       const piece = testGame.get(fromSquare);
 
       if (!piece) return false;
@@ -136,8 +112,10 @@ export function AnalysisPanel({
     }
   };
 
-  // Filter all suggested moves to only include valid ones for current turn
-  const validMoves = mainLine?.pv.filter(validateMoveColor) || [];
+  // Keep only candidate lines whose first move is for the side to move
+  const candidateLines = analysis
+    .filter(line => line.pv.length > 0 && validateMoveColor(line.pv[0]))
+    .slice(0, multiPVCount);
 
   // Determine if current player is human
   // player1Type = black (top), player2Type = white (bottom)
@@ -147,63 +125,103 @@ export function AnalysisPanel({
   const isAIvsAI = player1Type === 'ai' && player2Type === 'ai';
 
   // Validate: only show suggestions if:
-  // 1. Not AI vs AI
-  // 2. Current player is human
-  // 3. Analysis exists and has VALID moves (filtered for correct color)
-  // 4. Analysis FEN matches current FEN
+  // 1. Not AI vs AI and current player is human (or reviewing an earlier position)
+  // 2. Analysis exists and has VALID lines (first move filtered for correct color)
+  // 3. Analysis FEN matches current FEN
   const fenMatches = analysisFen === currentFen;
   const shouldShowSuggestions =
-    !isAIvsAI &&
-    isHumanTurn &&
+    (isReviewing || (!isAIvsAI && isHumanTurn)) &&
     mainLine &&
-    validMoves.length > 0 && // Must have at least one valid move after filtering
+    candidateLines.length > 0 && // Must have at least one valid line after filtering
     fenMatches;
 
+  const renderLineSelector = () => {
+    if (!onMultiPVChange) {
+      return null;
+    }
+    return (
+      <View style={styles.multiPVSelector}>
+        <Text style={styles.multiPVLabel}>Lines</Text>
+        {MULTIPV_OPTIONS.map(count => (
+          <Pressable
+            key={count}
+            style={[
+              styles.multiPVOption,
+              count === multiPVCount && styles.multiPVOptionSelected,
+            ]}
+            onPress={() => onMultiPVChange(count)}>
+            <Text
+              style={[
+                styles.multiPVOptionText,
+                count === multiPVCount && styles.multiPVOptionTextSelected,
+              ]}>
+              {count}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+    );
+  };
+
 
   return (
     <View style={styles.container}>
-      <Text style={styles.title}>Suggestions</Text>
+      <View style={styles.titleRow}>
+        <Text style={styles.title}>Suggestions</Text>
+        {renderLineSelector()}
+      </View>
 
       {/* Show suggestions for human players */}
       {shouldShowSuggestions ? (
         <View style={styles.suggestionsContent}>
-          {/* Move suggestion buttons - using validMoves (filtered for correct color) */}
-          <View style={styles.compactSuggestionsRow}>
-            {validMoves.slice(0, 3).map((move, idx) => (
+          {/* One row per candidate line, ranked best-first */}
+          {candidateLines.map((line, idx) => (
+            <View key={`${idx}-${line.bestMove}`} style={styles.lineRow}>
               <Pressable
-                key={idx}
                 style={[
                   styles.compactSuggestionButton,
                   idx === 0 && styles.bestMoveButton,
                 ]}
-                onPress={() => onSuggestionClick?.(move)}
+                onPress={() => onSuggestionClick?.(line.pv[0])}
                 onHoverIn={() => {
-                  onSuggestionHover?.(move);
+                  onSuggestionHover?.(line.pv[0]);
                 }}
                 onHoverOut={() => {
                   onSuggestionHover?.(null);
                 }}>
                 <Text style={styles.compactMoveText}>
-                  {idx === 0 && '⭐ '}
-                  {move}
+                  {idx === 0 ? '⭐ ' : `${idx + 1}. `}
+                  {line.pv[0]}
                 </Text>
               </Pressable>
-            ))}
-          </View>
 
-          {/* Continuation preview */}
-          {validMoves.length > 3 && (
-            <View style={styles.continuationPreview}>
-              <Text style={styles.continuationText} numberOfLines={2}>
-                {formatMovePairs(validMoves.slice(3))}
-              </Text>
+              <View style={styles.lineStats}>
+                <Text style={styles.lineScore}>{formatScore(line.score)}</Text>
+                <Text style={styles.lineDepth}>d{line.depth}</Text>
+              </View>
+
+              {/* Continuation preview - hover shows the whole line on the board */}
+              {line.pv.length > 1 && (
+                <Pressable
+                  style={styles.continuationPreview}
+                  onHoverIn={() => {
+                    onContinuationHover?.(line.pv);
+                  }}
+                  onHoverOut={() => {
+                    onContinuationHover?.([]);
+                  }}>
+                  <Text style={styles.continuationText} numberOfLines={1}>
+                    {formatMovePairs(line.pv.slice(1))}
+                  </Text>
+                </Pressable>
+              )}
             </View>
-          )}
+          ))}
         </View>
       ) : (
         <View style={styles.placeholder}>
           <Text style={styles.placeholderText}>
-            {isAIvsAIMode ? 'Watching AI vs AI' : 'AI is thinking...'}
+            {isReviewing ? 'Analyzing...' : isAIvsAIMode ? 'Watching AI vs AI' : 'AI is thinking...'}
           </Text>
         </View>
       )}
@@ -223,6 +241,42 @@ const styles = StyleSheet.create({
     color: '#333333',
     marginBottom: 12,
   },
+  titleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  multiPVSelector: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  multiPVLabel: {
+    fontSize: 11,
+    color: '#666666',
+    marginRight: 2,
+  },
+  multiPVOption: {
+    width: 22,
+    height: 22,
+    borderRadius: 4,
+    borderWidth: 1,
+    borderColor: '#d0d0d0',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  multiPVOptionSelected: {
+    backgroundColor: '#2196F3',
+    borderColor: '#2196F3',
+  },
+  multiPVOptionText: {
+    fontSize: 11,
+    color: '#333333',
+  },
+  multiPVOptionTextSelected: {
+    color: '#ffffff',
+    fontWeight: 'bold',
+  },
   placeholder: {
     justifyContent: 'center',
     alignItems: 'center',
@@ -257,7 +311,26 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: 'bold',
   },
+  lineRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  lineStats: {
+    minWidth: 48,
+    alignItems: 'flex-end',
+  },
+  lineScore: {
+    fontSize: 13,
+    fontWeight: 'bold',
+    color: '#333333',
+  },
+  lineDepth: {
+    fontSize: 10,
+    color: '#999999',
+  },
   continuationPreview: {
+    flex: 1,
     backgroundColor: '#f5f5f5',
     borderRadius: 6,
     padding: 8,
@@ -0,0 +1,228 @@
+import React, {useEffect, useRef} from 'react';
+import {Text, StyleSheet, Pressable, ScrollView} from 'react-native';
+// react-native's View types lack the Windows keyboard events
+import {View, IKeyboardEvent, IHandledKeyboardEvent} from 'react-native-windows';
+
+interface MoveListProps {
+  moves: string[]; // Played moves in the variant's notation (see src/utils/move-list.ts)
+  firstTurn?: 'w' | 'b'; // Side that played the first move
+  viewedPly: number | null; // Ply shown on the board; null = the live position
+  onViewPly: (ply: number) => void; // 0 = starting position, moves.length = live position
+  sideLabels?: [string, string]; // Column headers: White / Han, then Black / Cho
+}
+
+const NAVIGATION_KEYS: IHandledKeyboardEvent[] = [
+  {code: 'Home'},
+  {code: 'ArrowLeft'},
+  {code: 'ArrowRight'},
+  {code: 'End'},
+];
+
+/**
+ * Numbered move pairs of the current game
+ * Clicking a move (or Home / Left / Right / End with the list focused) shows
+ * that position; the last move returns to the live game.
+ */
+export function MoveList({
+  moves,
+  firstTurn = 'w',
+  viewedPly,
+  onViewPly,
+  sideLabels = ['White', 'Black'],
+}: MoveListProps): React.JSX.Element {
+  const scrollRef = useRef<ScrollView>(null);
+  const shownPly = viewedPly ?? moves.length;
+  const isViewing = viewedPly !== null;
+
+  // Follow the live game
+  useEffect(() => {
+    if (!isViewing) {
+      scrollRef.current?.scrollToEnd({animated: false});
+    }
+  }, [moves.length, isViewing]);
+
+  const goTo = (ply: number) => {
+    const target = Math.max(0, Math.min(moves.length, ply));
+    if (target !== shownPly) {
+      onViewPly(target);
+    }
+  };
+
+  const handleKeyDown = (event: IKeyboardEvent) => {
+    switch (event.nativeEvent.code) {
+      case 'Home':
+        goTo(0);
+        break;
+      case 'ArrowLeft':
+        goTo(shownPly - 1);
+        break;
+      case 'ArrowRight':
+        goTo(shownPly + 1);
+        break;
+      case 'End':
+        goTo(moves.length);
+        break;
+    }
+  };
+
+  // Pair the plies into numbered rows; a game started by the second side opens with "1. ..."
+  const offset = firstTurn === 'b' ? 1 : 0;
+  const rows: {number: number; plies: (number | null)[]}[] = [];
+  for (let slot = 0; slot < moves.length + offset; slot += 2) {
+    rows.push({
+      number: slot / 2 + 1,
+      plies: [slot, slot + 1].map(s => (s - offset >= 0 && s - offset < moves.length ? s - offset + 1 : null)),
+    });
+  }
+
+  const renderNavButton = (label: string, ply: number, isDisabled: boolean) => (
+    <Pressable
+      style={[styles.navButton, isDisabled && styles.navButtonDisabled]}
+      onPress={() => goTo(ply)}
+      disabled={isDisabled}>
+      <Text style={styles.navButtonText}>{label}</Text>
+    </Pressable>
+  );
+
+  return (
+    <View
+      style={styles.container}
+      focusable
+      keyDownEvents={NAVIGATION_KEYS}
+      onKeyDown={handleKeyDown}>
+      <View style={styles.titleRow}>
+        <Text style={styles.title}>Moves</Text>
+        <View style={styles.navigation}>
+          {renderNavButton('|<', 0, shownPly === 0)}
+          {renderNavButton('<', shownPly - 1, shownPly === 0)}
+          {renderNavButton('>', shownPly + 1, !isViewing)}
+          {renderNavButton('>|', moves.length, !isViewing)}
+        </View>
+      </View>
+
+      {isViewing && (
+        <Text style={styles.viewingText}>
+          Viewing move {shownPly} of {moves.length}. The game goes on; press End to return.
+        </Text>
+      )}
+
+      {moves.length === 0 ? (
+        <Text style={styles.placeholderText}>No moves yet</Text>
+      ) : (
+        <ScrollView ref={scrollRef} style={styles.list}>
+          <View style={styles.row}>
+            <Text style={styles.moveNumber} />
+            <Text style={styles.columnHeader}>{sideLabels[0]}</Text>
+            <Text style={styles.columnHeader}>{sideLabels[1]}</Text>
+          </View>
+          {rows.map(row => (
+            <View key={row.number} style={styles.row}>
+              <Text style={styles.moveNumber}>{row.number}.</Text>
+              {row.plies.map((ply, index) =>
+                ply === null ? (
+                  <Text key={index} style={styles.moveCell}>
+                    {index === 0 ? '...' : ''}
+                  </Text>
+                ) : (
+                  <Pressable
+                    key={index}
+                    style={[styles.moveCell, ply === shownPly && styles.moveCellSelected]}
+                    onPress={() => goTo(ply)}>
+                    <Text style={[styles.moveText, ply === shownPly && styles.moveTextSelected]}>
+                      {moves[ply - 1]}
+                    </Text>
+                  </Pressable>
+                ),
+              )}
+            </View>
+          ))}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#ffffff',
+    padding: 12,
+    borderRadius: 12,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333333',
+  },
+  navigation: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  navButton: {
+    minWidth: 28,
+    paddingVertical: 4,
+    paddingHorizontal: 6,
+    borderRadius: 4,
+    backgroundColor: '#2196F3',
+    alignItems: 'center',
+  },
+  navButtonDisabled: {
+    backgroundColor: '#BDBDBD',
+  },
+  navButtonText: {
+    color: '#ffffff',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  viewingText: {
+    fontSize: 12,
+    color: '#E65100',
+    marginBottom: 6,
+  },
+  placeholderText: {
+    fontSize: 14,
+    color: '#999999',
+    paddingVertical: 12,
+    textAlign: 'center',
+  },
+  list: {
+    maxHeight: 240,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  moveNumber: {
+    width: 36,
+    fontSize: 12,
+    color: '#999999',
+  },
+  columnHeader: {
+    flex: 1,
+    fontSize: 11,
+    color: '#999999',
+    paddingHorizontal: 6,
+  },
+  moveCell: {
+    flex: 1,
+    paddingVertical: 3,
+    paddingHorizontal: 6,
+    borderRadius: 4,
+  },
+  moveCellSelected: {
+    backgroundColor: '#2196F3',
+  },
+  moveText: {
+    fontSize: 13,
+    color: '#333333',
+  },
+  moveTextSelected: {
+    color: '#ffffff',
+    fontWeight: 'bold',
+  },
+});
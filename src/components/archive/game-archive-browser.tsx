@@ -0,0 +1,307 @@
+import React, {useMemo, useState} from 'react';
+import {View, Text, StyleSheet, Pressable, ScrollView, TextInput, ActivityIndicator} from 'react-native';
+import {GameVariant} from '../../types/game';
+import {GameFileFormat} from '../../utils/game-files';
+import {
+  ArchivedGame,
+  ArchiveDateFilter,
+  ArchiveFilter,
+  ArchiveResultFilter,
+  EMPTY_ARCHIVE_FILTER,
+  archivedResultText,
+  filterArchive,
+} from '../../utils/game-archive';
+import {SideClock, formatClockTime} from '../../utils/time-control';
+
+interface GameArchiveBrowserProps {
+  games: ArchivedGame[];
+  isLoading: boolean;
+  initialVariant: GameVariant; // Variant filter to start with
+  archiveAbandoned: boolean; // Abandoned games are archived too
+  onToggleArchiveAbandoned: () => void;
+  onOpen: (game: ArchivedGame) => void;
+  onExport: (game: ArchivedGame, format: GameFileFormat) => void;
+  onDelete: (game: ArchivedGame) => void;
+  onClose: () => void;
+}
+
+const VARIANT_LABELS: Record<string, string> = {
+  chess: 'Chess',
+  janggi: 'Janggi',
+  janggi2: 'Janggi 2',
+  janggi3: 'Janggi 3',
+};
+
+const VARIANT_OPTIONS: (GameVariant | 'all')[] = ['all', 'chess', 'janggi', 'janggi2', 'janggi3'];
+
+const RESULT_OPTIONS: {value: ArchiveResultFilter; label: string}[] = [
+  {value: 'all', label: 'Any result'},
+  {value: 'white', label: 'White / Han wins'},
+  {value: 'black', label: 'Black / Cho wins'},
+  {value: 'draw', label: 'Draw'},
+  {value: 'abandoned', label: 'Abandoned'},
+];
+
+const DATE_OPTIONS: {value: ArchiveDateFilter; label: string}[] = [
+  {value: 'all', label: 'Any time'},
+  {value: 'today', label: 'Today'},
+  {value: 'week', label: 'Last 7 days'},
+  {value: 'month', label: 'Last 30 days'},
+];
+
+const isJanggiVariant = (variant: GameVariant): boolean => variant !== 'chess';
+
+// Time left: main time, or the byo-yomi periods once it is used up
+const sideClockText = (clock: SideClock): string => {
+  return clock.mainMs > 0 || clock.periodsLeft === 0
+    ? formatClockTime(clock.mainMs)
+    : `byo-yomi ${clock.periodsLeft} left`;
+};
+
+/**
+ * Game archive screen: filter the archived games by variant, result, date
+ * and player, then review, export or delete them
+ */
+export function GameArchiveBrowser({
+  games,
+  isLoading,
+  initialVariant,
+  archiveAbandoned,
+  onToggleArchiveAbandoned,
+  onOpen,
+  onExport,
+  onDelete,
+  onClose,
+}: GameArchiveBrowserProps): React.JSX.Element {
+  const [filter, setFilter] = useState<ArchiveFilter>({...EMPTY_ARCHIVE_FILTER, variant: initialVariant});
+  const shownGames = useMemo(() => filterArchive(games, filter), [games, filter]);
+
+  const updateFilter = (change: Partial<ArchiveFilter>) => {
+    setFilter(previous => ({...previous, ...change}));
+  };
+
+  const renderOption = (label: string, isActive: boolean, onPress: () => void) => (
+    <Pressable key={label} style={[styles.optionButton, isActive && styles.optionButtonActive]} onPress={onPress}>
+      <Text style={[styles.optionText, isActive && styles.optionTextActive]}>{label}</Text>
+    </Pressable>
+  );
+
+  const renderClock = (game: ArchivedGame) => {
+    if (!game.clock) {
+      return null;
+    }
+    const sides = isJanggiVariant(game.variant) ? ['Han', 'Cho'] : ['White', 'Black'];
+    return (
+      <Text style={styles.gameDetail}>
+        Clock: {sides[0]} {sideClockText(game.clock.w)}, {sides[1]} {sideClockText(game.clock.b)}
+      </Text>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Game Archive</Text>
+        <Pressable style={styles.closeButton} onPress={onClose}>
+          <Text style={styles.closeButtonText}>Close</Text>
+        </Pressable>
+      </View>
+
+      <View style={styles.optionRow}>
+        {VARIANT_OPTIONS.map(variant =>
+          renderOption(variant === 'all' ? 'All variants' : VARIANT_LABELS[variant], filter.variant === variant, () =>
+            updateFilter({variant}),
+          ),
+        )}
+      </View>
+      <View style={styles.optionRow}>
+        {RESULT_OPTIONS.map(({value, label}) =>
+          renderOption(label, filter.result === value, () => updateFilter({result: value})),
+        )}
+      </View>
+      <View style={styles.optionRow}>
+        {DATE_OPTIONS.map(({value, label}) => renderOption(label, filter.date === value, () => updateFilter({date: value})))}
+      </View>
+      <View style={styles.optionRow}>
+        <TextInput
+          style={styles.searchInput}
+          value={filter.search}
+          onChangeText={search => updateFilter({search})}
+          placeholder="Search players or endings"
+        />
+        {renderOption('Archive abandoned games', archiveAbandoned, onToggleArchiveAbandoned)}
+      </View>
+
+      {isLoading ? (
+        <ActivityIndicator style={styles.loading} />
+      ) : shownGames.length === 0 ? (
+        <Text style={styles.emptyText}>{games.length === 0 ? 'No archived games yet' : 'No games match the filters'}</Text>
+      ) : (
+        <ScrollView style={styles.gameList}>
+          {shownGames.map(game => (
+            <View key={game.id} style={styles.gameRow}>
+              <View style={styles.gameInfo}>
+                <Text style={styles.gamePlayers}>
+                  {game.white.name} - {game.black.name}
+                </Text>
+                <Text style={styles.gameDetail}>
+                  {VARIANT_LABELS[game.variant] ?? game.variant} · {new Date(game.date).toLocaleString()} ·{' '}
+                  {game.moves.length} plies
+                </Text>
+                <Text style={[styles.gameResult, !game.result && styles.gameAbandoned]}>{archivedResultText(game)}</Text>
+                {renderClock(game)}
+              </View>
+              <View style={styles.gameActions}>
+                <Pressable style={styles.actionButton} onPress={() => onOpen(game)}>
+                  <Text style={styles.actionButtonText}>Review</Text>
+                </Pressable>
+                <Pressable style={styles.actionButton} onPress={() => onExport(game, 'pgn')}>
+                  <Text style={styles.actionButtonText}>PGN</Text>
+                </Pressable>
+                {isJanggiVariant(game.variant) && (
+                  <Pressable style={styles.actionButton} onPress={() => onExport(game, 'gib')}>
+                    <Text style={styles.actionButtonText}>GIB</Text>
+                  </Pressable>
+                )}
+                <Pressable style={[styles.actionButton, styles.deleteButton]} onPress={() => onDelete(game)}>
+                  <Text style={styles.actionButtonText}>Delete</Text>
+                </Pressable>
+              </View>
+            </View>
+          ))}
+        </ScrollView>
+      )}
+      <Text style={styles.countText}>
+        {shownGames.length} of {games.length} games
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: '#ffffff',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333333',
+  },
+  closeButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 6,
+    backgroundColor: '#757575',
+  },
+  closeButtonText: {
+    color: '#ffffff',
+    fontSize: 13,
+    fontWeight: 'bold',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 8,
+  },
+  optionButton: {
+    paddingVertical: 5,
+    paddingHorizontal: 10,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#2196F3',
+    backgroundColor: '#ffffff',
+  },
+  optionButtonActive: {
+    backgroundColor: '#2196F3',
+  },
+  optionText: {
+    fontSize: 12,
+    color: '#2196F3',
+  },
+  optionTextActive: {
+    color: '#ffffff',
+  },
+  searchInput: {
+    minWidth: 220,
+    borderWidth: 1,
+    borderColor: '#d0d0d0',
+    borderRadius: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    fontSize: 13,
+  },
+  loading: {
+    marginTop: 24,
+  },
+  emptyText: {
+    marginTop: 24,
+    fontSize: 13,
+    color: '#666666',
+    textAlign: 'center',
+  },
+  gameList: {
+    flex: 1,
+    marginTop: 10,
+  },
+  gameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eeeeee',
+  },
+  gameInfo: {
+    flex: 1,
+  },
+  gamePlayers: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333333',
+  },
+  gameDetail: {
+    fontSize: 12,
+    color: '#666666',
+  },
+  gameResult: {
+    fontSize: 13,
+    color: '#333333',
+  },
+  gameAbandoned: {
+    color: '#999999',
+    fontStyle: 'italic',
+  },
+  gameActions: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  actionButton: {
+    paddingVertical: 5,
+    paddingHorizontal: 8,
+    borderRadius: 6,
+    backgroundColor: '#4CAF50',
+  },
+  deleteButton: {
+    backgroundColor: '#F44336',
+  },
+  actionButtonText: {
+    color: '#ffffff',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  countText: {
+    marginTop: 6,
+    fontSize: 12,
+    color: '#666666',
+    textAlign: 'right',
+  },
+});
@@ -3,6 +3,7 @@ import {View, Text, StyleSheet, Pressable, Dimensions} from 'react-native';
 import {Chess} from 'chess.js';
 import {GameVariant, Square} from '../../types/game';
 import {ChessPiece} from './chess-piece';
+import {parseMove, formatSquare} from '../../utils/move-notation';
 
 interface ChessBoardProps {
   variant?: GameVariant;
@@ -10,6 +11,7 @@ interface ChessBoardProps {
   fen?: string;
   suggestedMove?: string; // e.g., "e2e4" - highlights this move when hovering over suggestion
   moveSequence?: string[]; // Array of moves to overlay (e.g., ["e2e4", "e7e5"])
+  disabled?: boolean; // Read-only (an earlier position from the move list)
 }
 
 // Removed PIECE_SYMBOLS - now using SVG assets via ChessPiece component
@@ -20,6 +22,7 @@ export function ChessBoard({
   fen,
   suggestedMove,
   moveSequence,
+  disabled = false,
 }: ChessBoardProps): React.JSX.Element {
   const [game] = useState(() => {
     try {
@@ -45,16 +48,23 @@ export function ChessBoard({
     }
   }, [fen, game]);
 
-  const parseSuggestedMove = (): {from: Square; to: Square} | null => {
-    if (!suggestedMove || suggestedMove.length < 4) {
+  // Engine move ("e2e4", "e7e8q") -> from/to squares; null for anything else
+  const getMoveSquares = (move: string): {from: Square; to: Square} | null => {
+    const parsed = parseMove(move, 'chess');
+    if (!parsed || parsed.type !== 'normal') {
       return null;
     }
-    const from = suggestedMove.substring(0, 2) as Square;
-    const to = suggestedMove.substring(2, 4) as Square;
-    return {from, to};
+    return {from: formatSquare(parsed.from, 'chess'), to: formatSquare(parsed.to, 'chess')};
+  };
+
+  const parseSuggestedMove = (): {from: Square; to: Square} | null => {
+    return suggestedMove ? getMoveSquares(suggestedMove) : null;
   };
 
   const handleSquarePress = (row: number, col: number) => {
+    if (disabled) {
+      return;
+    }
     const files = 'abcdefgh';
     const ranks = '87654321';
     const square = `${files[col]}${ranks[row]}` as Square;
@@ -183,11 +193,10 @@ export function ChessBoard({
         )}
         {/* Show move sequence overlays */}
         {moveSequence && moveSequence.map((move, idx) => {
-          if (move.length >= 4) {
-            const from = move.substring(0, 2);
-            const to = move.substring(2, 4);
-            const isFrom = square === from;
-            const isTo = square === to;
+          const squares = getMoveSquares(move);
+          if (squares) {
+            const isFrom = square === squares.from;
+            const isTo = square === squares.to;
             if (isFrom || isTo) {
               return (
                 <View
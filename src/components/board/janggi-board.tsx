@@ -1,6 +1,7 @@
 import React, {useState, useEffect} from 'react';
 import {View, Text, StyleSheet, Pressable, Dimensions, Image, ImageSourcePropType} from 'react-native';
 import {GameVariant} from '../../types/game';
+import {parseMove, formatSquare, toBoardIndex, fromBoardIndex} from '../../utils/move-notation';
 
 // Janggi piece images
 const PIECE_IMAGES: Record<string, ImageSourcePropType> = {
@@ -48,6 +49,7 @@ interface JanggiBoardProps {
   fen?: string;
   suggestedMove?: string;
   legalMoves?: string[]; // Legal moves from engine
+  disabled?: boolean; // Read-only (an earlier position from the move list)
 }
 
 // Board dimensions - 9 files (A-I) × 10 ranks (0-9)
@@ -68,6 +70,7 @@ export function JanggiBoard({
   fen,
   suggestedMove,
   legalMoves = [],
+  disabled = false,
 }: JanggiBoardProps): React.JSX.Element {
   // Parse FEN to piece array with {x, y, pieceKey, symbol, color}
   const parseFEN = (fenString: string) => {
@@ -119,30 +122,17 @@ export function JanggiBoard({
 
   // Parse suggested move to highlight (format: file+rank+file+rank, e.g., "e1e2" or "e10e9")
   const suggestedFromTo = React.useMemo(() => {
-    if (!suggestedMove || suggestedMove.length < 4) return null;
-
-    // Find where second file starts (first letter after first file)
-    let rankSplitIdx = 1;
-    while (rankSplitIdx < suggestedMove.length && (suggestedMove[rankSplitIdx] < 'a' || suggestedMove[rankSplitIdx] > 'i')) {
-      rankSplitIdx++;
-    }
-
-    const fromFile = suggestedMove.charCodeAt(0) - 'a'.charCodeAt(0);
-    const fromRank = parseInt(suggestedMove.substring(1, rankSplitIdx), 10);
-    const toFile = suggestedMove.charCodeAt(rankSplitIdx) - 'a'.charCodeAt(0);
-    const toRank = parseInt(suggestedMove.substring(rankSplitIdx + 1), 10);
+    const parsed = suggestedMove ? parseMove(suggestedMove, variant) : null;
+    if (!parsed || parsed.type !== 'normal') return null;
 
+    // Engine ranks count from the bottom; visual y counts from the top
+    const from = toBoardIndex(parsed.from, variant);
+    const to = toBoardIndex(parsed.to, variant);
     return {
-      from: {
-        x: fromFile,
-        y: 10 - fromRank  // Engine uses ranks 1-10, convert to visual y
-      },
-      to: {
-        x: toFile,
-        y: 10 - toRank  // Engine uses ranks 1-10, convert to visual y
-      }
+      from: {x: from.col, y: from.row},
+      to: {x: to.col, y: to.row},
     };
-  }, [suggestedMove]);
+  }, [suggestedMove, variant]);
 
   // Update pieces when FEN changes
   useEffect(() => {
@@ -152,15 +142,14 @@ export function JanggiBoard({
   }, [fen]);
 
   const getSquareNotation = (x: number, y: number): string => {
-    const files = 'abcdefghi';
-    // Janggi engine uses ranks 1-10 (not 0-9!)
     // Visual y=0 is top (blue, engine rank 10), y=9 is bottom (red, engine rank 1)
-    // Conversion: engine rank = 10 - visual y
-    const rank = 10 - y;
-    return `${files[x]}${rank}`;
+    return formatSquare(fromBoardIndex(y, x, variant), variant);
   };
 
   const handleCellPress = (x: number, y: number) => {
+    if (disabled) {
+      return;
+    }
     const clickedPiece = pieces.find(p => p.x === x && p.y === y);
     const notation = getSquareNotation(x, y);
 
@@ -5,7 +5,7 @@ import {
   Position,
   getPiece,
   PieceType,
-} from '../../game/janggi2-game';
+} from '../../game/janggi';
 
 // Janggi piece images (same as janggi1)
 const PIECE_IMAGES: Record<string, ImageSourcePropType> = {
@@ -33,6 +33,8 @@ interface Janggi2BoardProps {
   highlightedMoves?: Position[];
   disabled?: boolean;
   currentTurn?: boolean; // true = Han (red), false = Cho (blue)
+  onPass?: () => void; // Shows the Pass button
+  bikjang?: boolean; // Generals face each other: passing accepts the bikjang
 }
 
 // Board dimensions - 9 files (A-I) × 10 ranks (1-10)
@@ -53,6 +55,8 @@ export function Janggi2Board({
   highlightedMoves = [],
   disabled = false,
   currentTurn = true, // Default to Han's turn
+  onPass,
+  bikjang = false,
 }: Janggi2BoardProps): React.JSX.Element {
   const [selectedPos, setSelectedPos] = useState<Position | null>(null);
 
@@ -326,6 +330,20 @@ export function Janggi2Board({
           })
         )}
       </View>
+
+      {onPass && (
+        <Pressable
+          style={[styles.passButton, disabled && styles.passButtonDisabled]}
+          disabled={disabled}
+          onPress={() => {
+            setSelectedPos(null);
+            onPass();
+          }}>
+          <Text style={styles.passButtonText}>
+            {bikjang ? 'Accept Bikjang (Pass)' : 'Pass'}
+          </Text>
+        </Pressable>
+      )}
     </View>
   );
 }
@@ -362,4 +380,19 @@ const styles = StyleSheet.create({
     color: '#000',
     zIndex: 4,
   },
+  passButton: {
+    marginTop: 8,
+    paddingHorizontal: 24,
+    paddingVertical: 8,
+    borderRadius: 6,
+    backgroundColor: '#5D4037',
+  },
+  passButtonDisabled: {
+    opacity: 0.5,
+  },
+  passButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
 });
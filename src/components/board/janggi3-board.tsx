@@ -1,12 +1,11 @@
-import React, {useState, useEffect} from 'react';
+import React, {useState} from 'react';
 import {View, Text, StyleSheet, Pressable, Dimensions, Image, ImageSourcePropType} from 'react-native';
 import {
   Board as GameBoard,
   Position,
-  createInitialBoard,
   getPiece,
   PieceType,
-} from '../../game/janggi3-game';
+} from '../../game/janggi';
 
 // Janggi piece images (same as janggi1 and janggi2)
 const PIECE_IMAGES: Record<string, ImageSourcePropType> = {
@@ -34,6 +33,8 @@ interface Janggi3BoardProps {
   highlightedMoves?: Position[];
   disabled?: boolean;
   currentTurn?: boolean; // true = Han (red), false = Cho (blue)
+  onPass?: () => void; // Shows the Pass button
+  bikjang?: boolean; // Generals face each other: passing accepts the bikjang
 }
 
 const BOARD_COLS = 9;
@@ -53,6 +54,8 @@ export function Janggi3Board({
   highlightedMoves = [],
   disabled = false,
   currentTurn = true, // Default to Han's turn
+  onPass,
+  bikjang = false,
 }: Janggi3BoardProps): React.JSX.Element {
   const [selectedPos, setSelectedPos] = useState<Position | null>(null);
 
@@ -322,6 +325,20 @@ export function Janggi3Board({
           })
         )}
       </View>
+
+      {onPass && (
+        <Pressable
+          style={[styles.passButton, disabled && styles.passButtonDisabled]}
+          disabled={disabled}
+          onPress={() => {
+            setSelectedPos(null);
+            onPass();
+          }}>
+          <Text style={styles.passButtonText}>
+            {bikjang ? 'Accept Bikjang (Pass)' : 'Pass'}
+          </Text>
+        </Pressable>
+      )}
     </View>
   );
 }
@@ -346,4 +363,19 @@ const styles = StyleSheet.create({
     color: '#000',
     zIndex: 4,
   },
+  passButton: {
+    marginTop: 8,
+    paddingHorizontal: 24,
+    paddingVertical: 8,
+    borderRadius: 6,
+    backgroundColor: '#5D4037',
+  },
+  passButtonDisabled: {
+    opacity: 0.5,
+  },
+  passButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
 });
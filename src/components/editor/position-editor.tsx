@@ -0,0 +1,636 @@
+import React, {useMemo, useRef, useState} from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  PanResponder,
+  PanResponderInstance,
+  PanResponderGestureState,
+  GestureResponderEvent,
+  LayoutChangeEvent,
+  TextInput,
+  Dimensions,
+} from 'react-native';
+import {GameVariant} from '../../types/game';
+import {ChessPiece} from '../board/chess-piece';
+import {JanggiPiece} from '../board/janggi-piece';
+import {Setup, SETUPS, SETUP_LABELS, createInitialBoard, boardToFEN} from '../../game/janggi';
+import {positionLayoutErrors, validatePositionFEN} from '../../utils/position-validation';
+
+interface PositionEditorProps {
+  variant: GameVariant; // chess, janggi, janggi2 or janggi3
+  initialFen: string; // Position to start editing from
+  onAnalyze?: (fen: string) => void; // Omitted where the variant has no engine analysis
+  onPlay: (fen: string) => void;
+  onClose: () => void;
+}
+
+type EditorGrid = (string | null)[][]; // FEN letters, row 0 = top of the board
+type SquareIndex = {row: number; col: number};
+type Offset = {x: number; y: number};
+
+// Piece being dragged: from a square, or from the palette (from = null)
+type DragSource = {piece: string; from: SquareIndex | null};
+
+const CHESS_START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+const ERASER = 'eraser';
+const DRAG_THRESHOLD = 4; // Pixels before a press becomes a drag
+
+// Palette rows: White / Han pieces, then Black / Cho pieces
+const CHESS_PALETTE = ['K', 'Q', 'R', 'B', 'N', 'P'];
+const JANGGI_PALETTE = ['K', 'A', 'B', 'N', 'R', 'C', 'P'];
+
+// FEN letter -> Janggi piece image ("rh" = Han horse, "be" = Cho elephant)
+const JANGGI_PIECE_CODES: Record<string, string> = {k: 'k', a: 'a', b: 'e', n: 'h', r: 'r', c: 'c', p: 'p'};
+
+const windowWidth = Dimensions.get('window').width;
+const CELL_SIZE = Math.min((windowWidth - 40) / 9, 48);
+
+function fenToGrid(fen: string, files: number): EditorGrid {
+  return fen
+    .trim()
+    .split(/\s+/)[0]
+    .split('/')
+    .map(rankData => {
+      const row: (string | null)[] = [];
+      for (const char of rankData) {
+        if (char >= '1' && char <= '9') {
+          row.push(...Array<null>(parseInt(char, 10)).fill(null));
+        } else {
+          row.push(char);
+        }
+      }
+      return row.slice(0, files);
+    });
+}
+
+function gridToPlacement(grid: EditorGrid): string {
+  return grid
+    .map(row => {
+      let rankData = '';
+      let empty = 0;
+      for (const piece of row) {
+        if (piece) {
+          rankData += empty > 0 ? `${empty}${piece}` : piece;
+          empty = 0;
+        } else {
+          empty++;
+        }
+      }
+      return empty > 0 ? `${rankData}${empty}` : rankData;
+    })
+    .join('/');
+}
+
+// Castling rights wherever king and rook stand on their starting squares
+function chessCastlingRights(grid: EditorGrid): string {
+  const rights = [
+    grid[7][4] === 'K' && grid[7][7] === 'R' ? 'K' : '',
+    grid[7][4] === 'K' && grid[7][0] === 'R' ? 'Q' : '',
+    grid[0][4] === 'k' && grid[0][7] === 'r' ? 'k' : '',
+    grid[0][4] === 'k' && grid[0][0] === 'r' ? 'q' : '',
+  ].join('');
+  return rights || '-';
+}
+
+function janggiStartFen(han: Setup, cho: Setup): string {
+  return boardToFEN(createInitialBoard(han, cho), true, 1);
+}
+
+/**
+ * Set up a custom position: drag pieces from the palette onto the board,
+ * across it, or off it to remove them; or pick a palette piece (or the
+ * eraser) and tap squares. The position is validated as it changes, and
+ * can then be analyzed or played from.
+ */
+export function PositionEditor({
+  variant,
+  initialFen,
+  onAnalyze,
+  onPlay,
+  onClose,
+}: PositionEditorProps): React.JSX.Element {
+  const isJanggi = variant !== 'chess';
+  const files = isJanggi ? 9 : 8;
+  const ranks = isJanggi ? 10 : 8;
+
+  const [hanSetup, setHanSetup] = useState(Setup.MSSM);
+  const [choSetup, setChoSetup] = useState(Setup.MSSM);
+  const [grid, setGrid] = useState<EditorGrid>(() => {
+    const start = positionLayoutErrors(variant, initialFen).length === 0
+      ? initialFen
+      : isJanggi ? janggiStartFen(Setup.MSSM, Setup.MSSM) : CHESS_START_FEN;
+    return fenToGrid(start, files);
+  });
+  const [turn, setTurn] = useState<'w' | 'b'>(initialFen.split(' ')[1] === 'b' ? 'b' : 'w');
+  const [tool, setTool] = useState<string | null>(null); // Palette piece or eraser placed by tapping squares
+  const [drag, setDrag] = useState<{piece: string; x: number; y: number} | null>(null);
+  const [fenInput, setFenInput] = useState('');
+  const [fenInputError, setFenInputError] = useState<string | null>(null);
+
+  // Refs for the responders, created once
+  const toolRef = useRef(tool);
+  toolRef.current = tool;
+  const gridRef = useRef(grid);
+  gridRef.current = grid;
+  const dragSourceRef = useRef<DragSource | null>(null);
+  const rootOrigin = useRef<Offset>({x: 0, y: 0}); // Window coordinates
+  const boardOrigin = useRef<Offset>({x: 0, y: 0});
+  // Layout offsets: the board's in the editor, palette rows' in the editor, palette items' in their row
+  const boardOffset = useRef<Offset>({x: 0, y: 0});
+  const paletteRowOffsets = useRef<Record<string, Offset>>({});
+  const paletteItemOffsets = useRef<Record<string, Offset & {row: string}>>({});
+
+  const fen = isJanggi
+    ? `${gridToPlacement(grid)} ${turn} - - 0 1`
+    : `${gridToPlacement(grid)} ${turn} ${chessCastlingRights(grid)} - 0 1`;
+  const errors = useMemo(() => validatePositionFEN(variant, fen), [variant, fen]);
+
+  const layoutOffset = (event: LayoutChangeEvent): Offset => ({
+    x: event.nativeEvent.layout.x,
+    y: event.nativeEvent.layout.y,
+  });
+
+  // Place the editor from the touch that starts a gesture: its window position less its position in the
+  // touched view and that view's offset in the editor. Synchronous, so it is never stale after a scroll.
+  const locateFromTouch = (event: GestureResponderEvent, gesture: PanResponderGestureState, viewOffset: Offset) => {
+    rootOrigin.current = {
+      x: gesture.x0 - event.nativeEvent.locationX - viewOffset.x,
+      y: gesture.y0 - event.nativeEvent.locationY - viewOffset.y,
+    };
+    boardOrigin.current = {
+      x: rootOrigin.current.x + boardOffset.current.x,
+      y: rootOrigin.current.y + boardOffset.current.y,
+    };
+  };
+
+  const paletteItemOffset = (piece: string): Offset => {
+    const item = paletteItemOffsets.current[piece] ?? {x: 0, y: 0, row: ''};
+    const row = paletteRowOffsets.current[item.row] ?? {x: 0, y: 0};
+    return {x: row.x + item.x, y: row.y + item.y};
+  };
+
+  const squareAt = (x: number, y: number): SquareIndex | null => {
+    const col = Math.floor((x - boardOrigin.current.x) / CELL_SIZE);
+    const row = Math.floor((y - boardOrigin.current.y) / CELL_SIZE);
+    return row >= 0 && row < ranks && col >= 0 && col < files ? {row, col} : null;
+  };
+
+  const updateSquares = (changes: {square: SquareIndex; piece: string | null}[]) => {
+    setGrid(previous => {
+      const next = previous.map(row => [...row]);
+      for (const {square, piece} of changes) {
+        next[square.row][square.col] = piece;
+      }
+      return next;
+    });
+  };
+
+  const handleSquareTap = (square: SquareIndex) => {
+    const current = toolRef.current;
+    if (!current) {
+      return;
+    }
+    const occupant = gridRef.current[square.row][square.col];
+    // Tapping a square holding the picked piece clears it
+    updateSquares([{square, piece: current === ERASER || occupant === current ? null : current}]);
+  };
+
+  const isDrag = (gesture: PanResponderGestureState) => Math.hypot(gesture.dx, gesture.dy) > DRAG_THRESHOLD;
+
+  const followDrag = (gesture: PanResponderGestureState) => {
+    const source = dragSourceRef.current;
+    if (source && isDrag(gesture)) {
+      setDrag({piece: source.piece, x: gesture.moveX - rootOrigin.current.x, y: gesture.moveY - rootOrigin.current.y});
+    }
+  };
+
+  // Drop the dragged piece: onto a square, or off the board to remove it
+  const endDrag = (gesture: PanResponderGestureState) => {
+    const source = dragSourceRef.current;
+    dragSourceRef.current = null;
+    setDrag(null);
+    if (!source) {
+      return;
+    }
+    const target = squareAt(gesture.moveX, gesture.moveY);
+    const changes: {square: SquareIndex; piece: string | null}[] = [];
+    if (source.from) {
+      changes.push({square: source.from, piece: null});
+    }
+    if (target) {
+      changes.push({square: target, piece: source.piece});
+    }
+    updateSquares(changes);
+  };
+
+  const boardResponder = useMemo(
+    () =>
+      PanResponder.create({
+        onStartShouldSetPanResponder: () => true,
+        onPanResponderGrant: (event, gesture) => {
+          locateFromTouch(event, gesture, boardOffset.current);
+          const square = squareAt(gesture.x0, gesture.y0);
+          const piece = square ? gridRef.current[square.row][square.col] : null;
+          dragSourceRef.current = square && piece ? {piece, from: square} : null;
+        },
+        onPanResponderMove: (_, gesture) => followDrag(gesture),
+        onPanResponderRelease: (_, gesture) => {
+          if (isDrag(gesture)) {
+            endDrag(gesture);
+            return;
+          }
+          dragSourceRef.current = null;
+          const square = squareAt(gesture.x0, gesture.y0);
+          if (square) {
+            handleSquareTap(square);
+          }
+        },
+        onPanResponderTerminate: () => {
+          dragSourceRef.current = null;
+          setDrag(null);
+        },
+      }),
+    [files, ranks],
+  );
+
+  const paletteResponders = useMemo(() => {
+    const createResponder = (piece: string): PanResponderInstance =>
+      PanResponder.create({
+        onStartShouldSetPanResponder: () => true,
+        onPanResponderGrant: (event, gesture) => {
+          locateFromTouch(event, gesture, paletteItemOffset(piece));
+          dragSourceRef.current = {piece, from: null};
+        },
+        onPanResponderMove: (_, gesture) => followDrag(gesture),
+        onPanResponderRelease: (_, gesture) => {
+          if (isDrag(gesture)) {
+            endDrag(gesture);
+            return;
+          }
+          dragSourceRef.current = null;
+          setTool(current => (current === piece ? null : piece));
+        },
+        onPanResponderTerminate: () => {
+          dragSourceRef.current = null;
+          setDrag(null);
+        },
+      });
+    const palette = isJanggi ? JANGGI_PALETTE : CHESS_PALETTE;
+    return Object.fromEntries(
+      [...palette, ...palette.map(piece => piece.toLowerCase())].map(piece => [piece, createResponder(piece)]),
+    );
+  }, [isJanggi, files, ranks]);
+
+  const loadFen = (text: string) => {
+    setGrid(fenToGrid(text, files));
+    setTurn(text.trim().split(/\s+/)[1] === 'b' ? 'b' : 'w');
+  };
+
+  const handleLoadFen = () => {
+    const layoutErrors = positionLayoutErrors(variant, fenInput);
+    if (layoutErrors.length > 0) {
+      setFenInputError(layoutErrors.join('. '));
+      return;
+    }
+    setFenInputError(null);
+    loadFen(fenInput);
+  };
+
+  const handleStartPosition = () => {
+    loadFen(isJanggi ? janggiStartFen(hanSetup, choSetup) : CHESS_START_FEN);
+  };
+
+  const handleSetupChange = (side: 'han' | 'cho', setup: Setup) => {
+    const han = side === 'han' ? setup : hanSetup;
+    const cho = side === 'cho' ? setup : choSetup;
+    setHanSetup(han);
+    setChoSetup(cho);
+    loadFen(janggiStartFen(han, cho));
+  };
+
+  const renderPiece = (piece: string, size: number) => {
+    const isUpper = piece === piece.toUpperCase();
+    if (isJanggi) {
+      return <JanggiPiece piece={`${isUpper ? 'r' : 'b'}${JANGGI_PIECE_CODES[piece.toLowerCase()]}`} size={size} />;
+    }
+    return <ChessPiece type={piece.toLowerCase()} color={isUpper ? 'w' : 'b'} size={size} />;
+  };
+
+  const renderCell = (row: number, col: number) => {
+    const piece = grid[row][col];
+    const isDragged = drag !== null && dragSourceRef.current?.from?.row === row && dragSourceRef.current?.from?.col === col;
+    if (!isJanggi) {
+      return (
+        <View
+          key={col}
+          style={[styles.cell, {backgroundColor: (row + col) % 2 === 0 ? '#f0d9b5' : '#b58863'}]}>
+          {piece && !isDragged && renderPiece(piece, CELL_SIZE * 0.8)}
+        </View>
+      );
+    }
+
+    // Janggi pieces stand on the intersections: draw the lines through the cell centers
+    const isPalace = col >= 3 && col <= 5 && (row <= 2 || row >= 7);
+    return (
+      <View key={col} style={[styles.cell, styles.janggiCell, isPalace && styles.palaceCell]}>
+        <View style={[styles.lineHorizontal, {left: col === 0 ? CELL_SIZE / 2 : 0, right: col === files - 1 ? CELL_SIZE / 2 : 0}]} />
+        <View style={[styles.lineVertical, {top: row === 0 ? CELL_SIZE / 2 : 0, bottom: row === ranks - 1 ? CELL_SIZE / 2 : 0}]} />
+        {piece && !isDragged && renderPiece(piece, CELL_SIZE * 0.85)}
+      </View>
+    );
+  };
+
+  // Items take the touches themselves (box-only), so a touch's location is relative to the item
+  const renderPalette = (row: string, pieces: string[]) => (
+    <View style={styles.paletteRow} onLayout={event => (paletteRowOffsets.current[row] = layoutOffset(event))}>
+      {pieces.map(piece => (
+        <View
+          key={piece}
+          style={[styles.paletteItem, tool === piece && styles.paletteItemSelected]}
+          pointerEvents="box-only"
+          onLayout={event => (paletteItemOffsets.current[piece] = {...layoutOffset(event), row})}
+          {...paletteResponders[piece]?.panHandlers}>
+          {renderPiece(piece, CELL_SIZE * 0.7)}
+        </View>
+      ))}
+    </View>
+  );
+
+  const palette = isJanggi ? JANGGI_PALETTE : CHESS_PALETTE;
+  const sideLabels = isJanggi ? {w: 'Han', b: 'Cho'} : {w: 'White', b: 'Black'};
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Edit Position</Text>
+      <Text style={styles.hint}>
+        Drag pieces onto the board, across it, or off it to remove them. Or pick a piece and tap squares.
+      </Text>
+
+      {renderPalette('top', palette.map(piece => piece.toLowerCase()))}
+      {/* The board takes the touches itself (box-only), so a touch's location is relative to the board */}
+      <View
+        style={styles.board}
+        pointerEvents="box-only"
+        onLayout={event => (boardOffset.current = layoutOffset(event))}
+        {...boardResponder.panHandlers}>
+        {grid.map((rowPieces, row) => (
+          <View key={row} style={styles.row}>
+            {rowPieces.map((_, col) => renderCell(row, col))}
+          </View>
+        ))}
+      </View>
+      {renderPalette('bottom', palette)}
+
+      <View style={styles.optionRow}>
+        <Pressable
+          style={[styles.optionButton, tool === ERASER && styles.optionButtonActive]}
+          onPress={() => setTool(current => (current === ERASER ? null : ERASER))}>
+          <Text style={[styles.optionText, tool === ERASER && styles.optionTextActive]}>Eraser</Text>
+        </Pressable>
+        <Pressable style={styles.optionButton} onPress={handleStartPosition}>
+          <Text style={styles.optionText}>Start position</Text>
+        </Pressable>
+        <Pressable style={styles.optionButton} onPress={() => setGrid(grid.map(row => row.map(() => null)))}>
+          <Text style={styles.optionText}>Clear board</Text>
+        </Pressable>
+      </View>
+
+      <View style={styles.optionRow}>
+        <Text style={styles.optionLabel}>To move:</Text>
+        {(['w', 'b'] as const).map(side => (
+          <Pressable
+            key={side}
+            style={[styles.optionButton, turn === side && styles.optionButtonActive]}
+            onPress={() => setTurn(side)}>
+            <Text style={[styles.optionText, turn === side && styles.optionTextActive]}>{sideLabels[side]}</Text>
+          </Pressable>
+        ))}
+      </View>
+
+      {/* Formations: reset the board to the starting position they make */}
+      {isJanggi &&
+        (['han', 'cho'] as const).map(side => (
+          <View key={side} style={styles.optionRow}>
+            <Text style={styles.optionLabel}>{side === 'han' ? 'Han' : 'Cho'} formation:</Text>
+            {SETUPS.map(setup => {
+              const isActive = (side === 'han' ? hanSetup : choSetup) === setup;
+              return (
+                <Pressable
+                  key={setup}
+                  style={[styles.optionButton, isActive && styles.optionButtonActive]}
+                  onPress={() => handleSetupChange(side, setup)}>
+                  <Text style={[styles.optionText, isActive && styles.optionTextActive]}>{SETUP_LABELS[setup]}</Text>
+                </Pressable>
+              );
+            })}
+          </View>
+        ))}
+
+      <Text style={styles.fenText} selectable>
+        {fen}
+      </Text>
+      <View style={styles.optionRow}>
+        <TextInput
+          style={styles.fenInput}
+          value={fenInput}
+          onChangeText={setFenInput}
+          placeholder="Paste a FEN"
+        />
+        <Pressable style={styles.optionButton} onPress={handleLoadFen}>
+          <Text style={styles.optionText}>Load FEN</Text>
+        </Pressable>
+      </View>
+      {fenInputError && <Text style={styles.errorText}>{fenInputError}</Text>}
+
+      {errors.length > 0 ? (
+        <View style={styles.errorList}>
+          {errors.map(error => (
+            <Text key={error} style={styles.errorText}>
+              • {error}
+            </Text>
+          ))}
+        </View>
+      ) : (
+        <Text style={styles.validText}>Position is valid</Text>
+      )}
+
+      <View style={styles.optionRow}>
+        {onAnalyze && (
+          <Pressable
+            style={[styles.actionButton, errors.length > 0 && styles.actionButtonDisabled]}
+            disabled={errors.length > 0}
+            onPress={() => onAnalyze(fen)}>
+            <Text style={styles.actionButtonText}>Analyze This</Text>
+          </Pressable>
+        )}
+        <Pressable
+          style={[styles.actionButton, errors.length > 0 && styles.actionButtonDisabled]}
+          disabled={errors.length > 0}
+          onPress={() => onPlay(fen)}>
+          <Text style={styles.actionButtonText}>Play From Here</Text>
+        </Pressable>
+        <Pressable style={[styles.actionButton, styles.cancelButton]} onPress={onClose}>
+          <Text style={styles.actionButtonText}>Cancel</Text>
+        </Pressable>
+      </View>
+
+      {drag && (
+        <View
+          pointerEvents="none"
+          style={[styles.dragPiece, {left: drag.x - CELL_SIZE / 2, top: drag.y - CELL_SIZE / 2}]}>
+          {renderPiece(drag.piece, CELL_SIZE)}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: '#ffffff',
+    position: 'relative',
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333333',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#666666',
+    marginVertical: 6,
+    textAlign: 'center',
+  },
+  board: {
+    borderWidth: 2,
+    borderColor: '#333333',
+    marginVertical: 6,
+  },
+  row: {
+    flexDirection: 'row',
+  },
+  cell: {
+    width: CELL_SIZE,
+    height: CELL_SIZE,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  janggiCell: {
+    backgroundColor: '#D2A679',
+  },
+  palaceCell: {
+    backgroundColor: '#C8966A',
+  },
+  lineHorizontal: {
+    position: 'absolute',
+    top: CELL_SIZE / 2,
+    height: 1,
+    backgroundColor: '#3E2723',
+  },
+  lineVertical: {
+    position: 'absolute',
+    left: CELL_SIZE / 2,
+    width: 1,
+    backgroundColor: '#3E2723',
+  },
+  paletteRow: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  paletteItem: {
+    width: CELL_SIZE,
+    height: CELL_SIZE,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#d0d0d0',
+  },
+  paletteItemSelected: {
+    borderColor: '#2196F3',
+    borderWidth: 2,
+    backgroundColor: '#E3F2FD',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 8,
+  },
+  optionLabel: {
+    fontSize: 13,
+    color: '#666666',
+  },
+  optionButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#2196F3',
+    backgroundColor: '#ffffff',
+  },
+  optionButtonActive: {
+    backgroundColor: '#2196F3',
+  },
+  optionText: {
+    fontSize: 13,
+    color: '#2196F3',
+  },
+  optionTextActive: {
+    color: '#ffffff',
+  },
+  fenText: {
+    fontSize: 12,
+    color: '#333333',
+    marginTop: 10,
+  },
+  fenInput: {
+    minWidth: 260,
+    borderWidth: 1,
+    borderColor: '#d0d0d0',
+    borderRadius: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    fontSize: 12,
+  },
+  errorList: {
+    marginTop: 8,
+    alignSelf: 'stretch',
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#D32F2F',
+  },
+  validText: {
+    fontSize: 13,
+    color: '#388E3C',
+    marginTop: 8,
+  },
+  actionButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 6,
+    backgroundColor: '#4CAF50',
+  },
+  actionButtonDisabled: {
+    backgroundColor: '#BDBDBD',
+  },
+  cancelButton: {
+    backgroundColor: '#757575',
+  },
+  actionButtonText: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  dragPiece: {
+    position: 'absolute',
+    zIndex: 10,
+  },
+});
@@ -0,0 +1,100 @@
+import React from 'react';
+import {View, Text, StyleSheet} from 'react-native';
+import {TimeControl} from '../../types/game';
+import {ClockSide, ClockSnapshot, formatClockTime} from '../../utils/time-control';
+
+interface ClockDisplayProps {
+  side: ClockSide;
+  label: string; // e.g. 'White', 'Cho'
+  snapshot: ClockSnapshot;
+  control: TimeControl;
+}
+
+export function ClockDisplay({
+  side,
+  label,
+  snapshot,
+  control,
+}: ClockDisplayProps): React.JSX.Element {
+  const clock = snapshot[side];
+  const isRunning = snapshot.running === side;
+  const isFlagged = snapshot.flagged === side;
+  const inByoyomi = control.type === 'byoyomi' && clock.mainMs <= 0;
+
+  const getDetail = (): string => {
+    if (isFlagged) {
+      return 'Time out';
+    }
+    if (control.type === 'byoyomi') {
+      return inByoyomi
+        ? `Byo-yomi ${clock.periodsLeft} left`
+        : `+ ${control.byoyomiPeriods}×${control.byoyomiMs / 1000}s`;
+    }
+    if (control.type === 'increment') {
+      return `+${control.incrementMs / 1000}s / move`;
+    }
+    return '';
+  };
+
+  const timeMs = inByoyomi ? clock.periodMs : clock.mainMs;
+  const isLow = !isFlagged && timeMs < 10000;
+
+  return (
+    <View
+      style={[
+        styles.clock,
+        isRunning && styles.clockRunning,
+        isFlagged && styles.clockFlagged,
+      ]}>
+      <Text style={styles.label}>{label}</Text>
+      <Text style={[styles.time, isLow && styles.timeLow]}>
+        {formatClockTime(timeMs)}
+      </Text>
+      <Text style={styles.detail}>{getDetail()}</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  clock: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginVertical: 4,
+    borderRadius: 8,
+    backgroundColor: '#ffffff',
+    borderWidth: 2,
+    borderColor: '#e0e0e0',
+  },
+  clockRunning: {
+    borderColor: '#4CAF50',
+    backgroundColor: '#f1f8e9',
+  },
+  clockFlagged: {
+    borderColor: '#F44336',
+    backgroundColor: '#ffebee',
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#333333',
+    minWidth: 60,
+  },
+  time: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#333333',
+    fontVariant: ['tabular-nums'],
+  },
+  timeLow: {
+    color: '#F44336',
+  },
+  detail: {
+    fontSize: 11,
+    color: '#666666',
+    minWidth: 90,
+    textAlign: 'right',
+  },
+});
@@ -0,0 +1,81 @@
+import React from 'react';
+import {View, Text, StyleSheet, Pressable} from 'react-native';
+import {Setup, SETUPS, SETUP_LABELS} from '../../game/janggi';
+
+interface JanggiSetupPickerProps {
+  side: 'han' | 'cho'; // Side choosing now
+  onChoose: (setup: Setup) => void;
+  choSetup?: Setup; // Cho's formation, once chosen (Han chooses knowing it)
+}
+
+/**
+ * Pre-game formation step for a human player
+ */
+export function JanggiSetupPicker({
+  side,
+  onChoose,
+  choSetup,
+}: JanggiSetupPickerProps): React.JSX.Element {
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>
+        {side === 'cho' ? 'Cho (blue)' : 'Han (red)'}: choose your formation
+      </Text>
+      {side === 'han' && choSetup !== undefined && (
+        <Text style={styles.detail}>Cho plays {SETUP_LABELS[choSetup]}</Text>
+      )}
+      <View style={styles.options}>
+        {SETUPS.map(setup => (
+          <Pressable key={setup} style={styles.option} onPress={() => onChoose(setup)}>
+            <Text style={styles.optionText}>{SETUP_LABELS[setup]}</Text>
+            <Text style={styles.optionDetail}>{Setup[setup]}</Text>
+          </Pressable>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    padding: 12,
+    marginVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#FF9800',
+    backgroundColor: '#FFF3E0',
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333333',
+  },
+  detail: {
+    fontSize: 13,
+    color: '#666666',
+    marginTop: 2,
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 8,
+  },
+  option: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#2196F3',
+    backgroundColor: '#ffffff',
+    alignItems: 'center',
+  },
+  optionText: {
+    fontSize: 15,
+    color: '#2196F3',
+  },
+  optionDetail: {
+    fontSize: 11,
+    color: '#666666',
+  },
+});
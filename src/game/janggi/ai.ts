@@ -0,0 +1,62 @@
+/**
+ * Janggi AI (the standalone opponent)
+ * Moves are chosen by the alpha-beta search (search.ts); accepting or
+ * breaking a bikjang is decided by counting points
+ */
+
+import { Board, Move } from './board';
+import { getAllLegalMoves, countPoints, isBikjang, isPassMove } from './moves';
+import {
+  SearchBudget,
+  SearchProgress,
+  SearchTask,
+  DEFAULT_SEARCH_BUDGET,
+  completedSearch,
+  startSearch,
+} from './search';
+
+/**
+ * Start searching for the AI move: best move found within `budget`
+ * Moves rejected by `isAllowed` (e.g. forbidden repetitions) are only
+ * played when nothing else is legal. The search runs in chunks between UI
+ * updates and can be cancelled through the returned task.
+ */
+export function startAIMove(
+  board: Board,
+  isHanTurn: boolean,
+  isAllowed: (move: Move) => boolean = () => true,
+  budget: SearchBudget = DEFAULT_SEARCH_BUDGET,
+  onProgress?: (progress: SearchProgress) => void,
+): SearchTask {
+  const allMoves = getAllLegalMoves(board, isHanTurn);
+  const allowedMoves = allMoves.filter(isAllowed);
+  let legalMoves = allowedMoves.length > 0 ? allowedMoves : allMoves;
+
+  if (legalMoves.length === 0) {
+    return completedSearch(null); // No legal moves
+  }
+
+  // Opponent faced the generals: accept the bikjang (pass) when ahead on
+  // points, otherwise break it (every other legal move does)
+  if (isBikjang(board)) {
+    const pass = legalMoves.find(isPassMove);
+    if (pass && evaluateBoard(board, isHanTurn) > 0) {
+      return completedSearch(pass);
+    }
+
+    const breaking = legalMoves.filter(move => !isPassMove(move));
+    if (breaking.length > 0) {
+      legalMoves = breaking;
+    }
+  }
+
+  return startSearch(board, isHanTurn, legalMoves, budget, onProgress);
+}
+
+/**
+ * Evaluate board position: point lead of the given side (counting, with deom)
+ */
+function evaluateBoard(board: Board, isHanTurn: boolean): number {
+  const points = countPoints(board);
+  return isHanTurn ? points.han - points.cho : points.cho - points.han;
+}
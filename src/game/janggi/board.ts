@@ -1,5 +1,6 @@
 /**
- * Janggi3 Game Logic - Standalone Implementation
+ * Janggi Board Model
+ * Shared by the engine-backed (janggi2) and standalone (janggi3) modes
  * Ported from ladofa/janggi Python implementation
  *
  * Board: 10 rows × 9 columns (0-indexed)
@@ -65,10 +66,8 @@ export function createInitialBoard(
   // Cho (Blue/Top) pieces - rows 0-3
   board[0][0] = PieceType.CHO_CHA;
   board[0][3] = PieceType.CHO_SA;
-  board[0][4] = PieceType.CHO_KING;
   board[0][5] = PieceType.CHO_SA;
   board[0][8] = PieceType.CHO_CHA;
-  board[1][4] = PieceType.EMPTY; // King position (will be set below)
   board[2][1] = PieceType.CHO_PO;
   board[2][7] = PieceType.CHO_PO;
   board[3][0] = PieceType.CHO_JOL;
@@ -77,7 +76,7 @@ export function createInitialBoard(
   board[3][6] = PieceType.CHO_JOL;
   board[3][8] = PieceType.CHO_JOL;
 
-  // Cho King at correct position
+  // Cho King in the centre of its palace
   board[1][4] = PieceType.CHO_KING;
 
   // Han (Red/Bottom) pieces - rows 6-9
@@ -190,32 +189,6 @@ export function applyMove(board: Board, move: Move): Board {
   return newBoard;
 }
 
-/**
- * Check if game is over
- * Returns: 1 (Han wins), -1 (Cho wins), 0 (Bikjang draw), null (game continues)
- */
-export function getGameResult(board: Board): number | null {
-  const hanArea = board.slice(7); // Rows 7-9 (Han palace area)
-  const choArea = board.slice(0, 3); // Rows 0-2 (Cho palace area)
-
-  const hanKingInHanArea = hanArea.some(row => row.includes(PieceType.HAN_KING));
-  const choKingInChoArea = choArea.some(row => row.includes(PieceType.CHO_KING));
-  const choKingInHanArea = hanArea.some(row => row.includes(PieceType.CHO_KING));
-  const hanKingInChoArea = choArea.some(row => row.includes(PieceType.HAN_KING));
-
-  // Han king captured
-  if (!hanKingInHanArea) {
-    return choKingInHanArea ? 0 : -1; // Bikjang or Cho wins
-  }
-
-  // Cho king captured
-  if (!choKingInChoArea) {
-    return hanKingInChoArea ? 0 : 1; // Bikjang or Han wins
-  }
-
-  return null; // Game continues
-}
-
 /**
  * Convert position to algebraic notation (e.g., "e4")
  */
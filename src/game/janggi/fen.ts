@@ -0,0 +1,194 @@
+/**
+ * Janggi FEN conversion for Fairy-Stockfish
+ * Han pieces are uppercase (FEN side 'w'), Cho pieces lowercase ('b')
+ */
+
+import { Board, Move, PieceType } from './board';
+import { getAllLegalMoves, getPassMove } from './moves';
+import { formatSquare, fromBoardIndex, parseMove, toBoardIndex } from '../../utils/move-notation';
+
+/**
+ * Convert board to FEN notation for Fairy-Stockfish
+ * Janggi FEN format: rnba1abnr/4k4/1c5c1/p1p1p1p1p/9/9/P1P1P1P1P/1C5C1/4K4/RNBA1ABNR w - - 0 1
+ */
+export function boardToFEN(board: Board, isHanTurn: boolean, moveNumber: number = 1): string {
+  const ranks: string[] = [];
+
+  // FEN goes from rank 10 to rank 1 (top to bottom)
+  for (let row = 0; row < 10; row++) {
+    let rankStr = '';
+    let emptyCount = 0;
+
+    for (let col = 0; col < 9; col++) {
+      const piece = board[row][col];
+
+      if (piece === PieceType.EMPTY) {
+        emptyCount++;
+      } else {
+        if (emptyCount > 0) {
+          rankStr += emptyCount.toString();
+          emptyCount = 0;
+        }
+
+        // Convert piece number to FEN letter
+        const absPiece = Math.abs(piece);
+        const isHan = piece > 0; // Positive = Han (Red, uppercase)
+
+        let letter = '';
+        switch (absPiece) {
+          case 1: letter = 'p'; break; // Jol (soldier)
+          case 2: letter = 'b'; break; // Sang (elephant) - use 'b' for bishop-like
+          case 3: letter = 'n'; break; // Ma (horse) - use 'n' for knight-like
+          case 4: letter = 'c'; break; // Po (cannon)
+          case 5: letter = 'r'; break; // Cha (chariot) - use 'r' for rook-like
+          case 6: letter = 'a'; break; // Sa (advisor)
+          case 7: letter = 'k'; break; // King (general)
+        }
+
+        rankStr += isHan ? letter.toUpperCase() : letter;
+      }
+    }
+
+    if (emptyCount > 0) {
+      rankStr += emptyCount.toString();
+    }
+
+    ranks.push(rankStr);
+  }
+
+  const turn = isHanTurn ? 'w' : 'b';
+  return `${ranks.join('/')} ${turn} - - 0 ${moveNumber}`;
+}
+
+const FEN_PIECE_LETTERS = 'kabnrcp';
+
+/**
+ * A FEN that can't be read as a Janggi position
+ */
+export class FENError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FENError';
+  }
+}
+
+/**
+ * Problems with the FEN text itself (empty if it can be read):
+ * 10 ranks of 9 points, known piece letters and a side to move
+ */
+export function fenLayoutErrors(fen: string): string[] {
+  const errors: string[] = [];
+  const parts = fen.trim().split(/\s+/);
+  const ranks = parts[0] ? parts[0].split('/') : [];
+  if (ranks.length !== 10) {
+    errors.push(`Expected 10 ranks, found ${ranks.length}`);
+  }
+
+  ranks.forEach((rankData, row) => {
+    let width = 0;
+    for (const char of rankData) {
+      if (char >= '1' && char <= '9') {
+        width += parseInt(char, 10);
+      } else if (FEN_PIECE_LETTERS.includes(char.toLowerCase())) {
+        width++;
+      } else {
+        errors.push(`Unknown piece "${char}" on rank ${10 - row}`);
+        return;
+      }
+    }
+    if (width !== 9) {
+      errors.push(`Rank ${10 - row} has ${width} points instead of 9`);
+    }
+  });
+
+  if (parts[1] !== undefined && parts[1] !== 'w' && parts[1] !== 'b') {
+    errors.push(`Side to move must be "w" (Han) or "b" (Cho), not "${parts[1]}"`);
+  }
+  return errors;
+}
+
+/**
+ * Convert FEN notation to board array
+ * Throws FENError if the FEN can't be read (see fenLayoutErrors)
+ */
+export function FENToBoard(fen: string): { board: Board; isHanTurn: boolean; moveNumber: number } {
+  const [error] = fenLayoutErrors(fen);
+  if (error) {
+    throw new FENError(error);
+  }
+
+  const parts = fen.trim().split(/\s+/);
+  const boardPart = parts[0];
+  const turn = parts[1] || 'w';
+  const moveNumber = parseInt(parts[5] || '1', 10);
+
+  const ranks = boardPart.split('/');
+  const board: Board = Array(10).fill(0).map(() => Array(9).fill(PieceType.EMPTY));
+
+  for (let row = 0; row < 10; row++) {
+    const rankData = ranks[row] || '';
+    let col = 0;
+
+    for (let i = 0; i < rankData.length; i++) {
+      const char = rankData[i];
+
+      if (char >= '1' && char <= '9') {
+        const emptyCount = parseInt(char);
+        col += emptyCount;
+      } else {
+        const isHan = char === char.toUpperCase(); // Uppercase = Han (Red, positive)
+        const letter = char.toLowerCase();
+
+        let pieceType = 0;
+        switch (letter) {
+          case 'p': pieceType = 1; break; // Jol
+          case 'b': pieceType = 2; break; // Sang (elephant)
+          case 'n': pieceType = 3; break; // Ma (horse)
+          case 'c': pieceType = 4; break; // Po (cannon)
+          case 'r': pieceType = 5; break; // Cha (chariot)
+          case 'a': pieceType = 6; break; // Sa (advisor)
+          case 'k': pieceType = 7; break; // King
+        }
+
+        if (pieceType > 0) {
+          board[row][col] = isHan ? pieceType : -pieceType;
+        }
+        col++;
+      }
+    }
+  }
+
+  return {
+    board,
+    isHanTurn: turn === 'w',
+    moveNumber
+  };
+}
+
+/**
+ * Board move in Fairy-Stockfish notation ("e2e3", "a10a9"); a pass is the
+ * general staying on its square ("e2e2")
+ */
+export function moveToEngineNotation(move: Move): string {
+  const from = formatSquare(fromBoardIndex(move.from.row, move.from.col, 'janggi2'), 'janggi2');
+  const to = formatSquare(fromBoardIndex(move.to.row, move.to.col, 'janggi2'), 'janggi2');
+  return `${from}${to}`;
+}
+
+/**
+ * Engine notation ("e2e3", "a10a9", pass) to a legal board move, or null
+ * Engine ranks count from Han's side; board row 0 is Cho's back rank
+ */
+export function moveFromEngineNotation(board: Board, isHanTurn: boolean, engineMove: string): Move | null {
+  const parsed = parseMove(engineMove, 'janggi2');
+  if (!parsed || parsed.type === 'drop') return null;
+  if (parsed.type === 'pass') return getPassMove(board, isHanTurn);
+
+  const from = toBoardIndex(parsed.from, 'janggi2');
+  const to = toBoardIndex(parsed.to, 'janggi2');
+  const isLegal = getAllLegalMoves(board, isHanTurn).some(move =>
+    move.from.row === from.row && move.from.col === from.col &&
+    move.to.row === to.row && move.to.col === to.col
+  );
+  return isLegal ? { from, to } : null;
+}
@@ -0,0 +1,17 @@
+/**
+ * Janggi rules package
+ * One set of rules (board, moves, results, FEN, hashing) for both Janggi
+ * modes; the engine-backed and standalone modes are opponent providers
+ */
+
+export * from './board';
+export * from './setup';
+export * from './moves';
+export * from './fen';
+export * from './perft';
+export * from './zobrist';
+export * from './search';
+export * from './ai';
+export * from './opponents';
+export * from './record';
+export * from './validation';
@@ -0,0 +1,580 @@
+/**
+ * Janggi Move Generation and Game Results
+ * Ported from ladofa/janggi
+ */
+
+import {
+  Board,
+  Position,
+  Move,
+  PieceType,
+  inBoard,
+  getPiece,
+  isHanPiece,
+  isChoPiece,
+  applyMove,
+} from './board';
+
+// Movement patterns for Ma (Horse) - moves like a knight but can be blocked
+const MA_WAYS: [Position, Position][] = [
+  [{ row: -1, col: 0 }, { row: -2, col: -1 }], // Up, then up-left
+  [{ row: -1, col: 0 }, { row: -2, col: 1 }],  // Up, then up-right
+  [{ row: 1, col: 0 }, { row: 2, col: -1 }],   // Down, then down-left
+  [{ row: 1, col: 0 }, { row: 2, col: 1 }],    // Down, then down-right
+  [{ row: 0, col: 1 }, { row: 1, col: 2 }],    // Right, then down-right
+  [{ row: 0, col: 1 }, { row: -1, col: 2 }],   // Right, then up-right
+  [{ row: 0, col: -1 }, { row: 1, col: -2 }],  // Left, then down-left
+  [{ row: 0, col: -1 }, { row: -1, col: -2 }], // Left, then up-left
+];
+
+// Movement patterns for Sang (Elephant) - moves diagonally but can be blocked
+const SANG_WAYS: [Position, Position, Position][] = [
+  [{ row: 0, col: 1 }, { row: 1, col: 2 }, { row: 2, col: 3 }],
+  [{ row: 0, col: -1 }, { row: 1, col: -2 }, { row: 2, col: -3 }],
+  [{ row: 0, col: 1 }, { row: -1, col: 2 }, { row: -2, col: 3 }],
+  [{ row: 0, col: -1 }, { row: -1, col: -2 }, { row: -2, col: -3 }],
+  [{ row: 1, col: 0 }, { row: 2, col: 1 }, { row: 3, col: 2 }],
+  [{ row: 1, col: 0 }, { row: 2, col: -1 }, { row: 3, col: -2 }],
+  [{ row: -1, col: 0 }, { row: -2, col: 1 }, { row: -3, col: 2 }],
+  [{ row: -1, col: 0 }, { row: -2, col: -1 }, { row: -3, col: -2 }],
+];
+
+// Palace centres; the palace diagonals run corner - centre - opposite corner
+const PALACE_CENTERS: Position[] = [
+  { row: 1, col: 4 }, // Cho palace
+  { row: 8, col: 4 }, // Han palace
+];
+
+// Soldier movement (forward and sideways)
+const JOL_WAYS: Position[] = [
+  { row: 0, col: -1 }, // Left
+  { row: 0, col: 1 },  // Right
+  { row: -1, col: 0 }, // Forward (for Han)
+];
+
+// Official piece points for counting (the general is not counted)
+const PIECE_POINTS: Record<number, number> = {
+  [PieceType.HAN_CHA]: 13,
+  [PieceType.HAN_PO]: 7,
+  [PieceType.HAN_MA]: 5,
+  [PieceType.HAN_SANG]: 3,
+  [PieceType.HAN_SA]: 3,
+  [PieceType.HAN_JOL]: 2,
+};
+
+// Deom (덤): points added to Han's count, so counting never ties
+export const HAN_DEOM = 1.5;
+
+// Plies after which an unfinished game is decided by counting
+export const MOVE_LIMIT = 200;
+
+/**
+ * Why a game ended (see getGameOutcome)
+ */
+export type GameEndReason = 'checkmate' | 'bikjang' | 'move-limit' | 'general-captured';
+
+export interface PointCount {
+  han: number; // Includes the deom
+  cho: number;
+}
+
+export interface PositionOutcome {
+  result: number | null; // 1 (Han wins), -1 (Cho wins), 0 (draw), null (game continues)
+  reason: GameEndReason | null;
+  inCheck: boolean; // Side to move is in check (Janggun)
+  bikjang: boolean; // Generals face each other on an open file
+  points: PointCount | null; // Set when the game was decided by counting
+}
+
+/**
+ * Get all legal moves for a piece at given position
+ * Moves that leave the mover's own general attacked are filtered out, and
+ * so are moves that leave a bikjang standing (only a pass accepts it)
+ */
+export function getLegalMoves(board: Board, from: Position, isHanTurn: boolean): Move[] {
+  const bikjang = isBikjang(board);
+  return getPseudoLegalMoves(board, from, isHanTurn).filter(move => {
+    const after = applyMove(board, move);
+    return !isInCheck(after, isHanTurn) && !(bikjang && isBikjang(after));
+  });
+}
+
+/**
+ * Moves by piece movement rules only (own general may be left in check)
+ */
+function getPseudoLegalMoves(board: Board, from: Position, isHanTurn: boolean): Move[] {
+  const piece = getPiece(board, from);
+
+  // Check if piece belongs to current player
+  if (piece === PieceType.EMPTY) return [];
+  if (isHanTurn && !isHanPiece(piece)) return [];
+  if (!isHanTurn && !isChoPiece(piece)) return [];
+
+  const moves: Move[] = [];
+  const absPiece = Math.abs(piece);
+
+  switch (absPiece) {
+    case Math.abs(PieceType.HAN_CHA):
+    case Math.abs(PieceType.CHO_CHA):
+      return getChariotMoves(board, from, piece);
+
+    case Math.abs(PieceType.HAN_PO):
+    case Math.abs(PieceType.CHO_PO):
+      return getCannonMoves(board, from, piece);
+
+    case Math.abs(PieceType.HAN_MA):
+    case Math.abs(PieceType.CHO_MA):
+      return getHorseMoves(board, from, piece);
+
+    case Math.abs(PieceType.HAN_SANG):
+    case Math.abs(PieceType.CHO_SANG):
+      return getElephantMoves(board, from, piece);
+
+    case Math.abs(PieceType.HAN_SA):
+    case Math.abs(PieceType.CHO_SA):
+    case Math.abs(PieceType.HAN_KING):
+    case Math.abs(PieceType.CHO_KING):
+      return getPalaceMoves(board, from, piece);
+
+    case Math.abs(PieceType.HAN_JOL):
+    case Math.abs(PieceType.CHO_JOL):
+      return getSoldierMoves(board, from, piece);
+  }
+
+  return moves;
+}
+
+/**
+ * Get all legal moves for current player
+ */
+export function getAllLegalMoves(board: Board, isHanTurn: boolean): Move[] {
+  const moves: Move[] = [];
+
+  for (let row = 0; row < 10; row++) {
+    for (let col = 0; col < 9; col++) {
+      const pos = { row, col };
+      const piece = getPiece(board, pos);
+
+      if (isHanTurn && isHanPiece(piece)) {
+        moves.push(...getLegalMoves(board, pos, isHanTurn));
+      } else if (!isHanTurn && isChoPiece(piece)) {
+        moves.push(...getLegalMoves(board, pos, isHanTurn));
+      }
+    }
+  }
+
+  const pass = getPassMove(board, isHanTurn);
+  if (pass) moves.push(pass);
+
+  return moves;
+}
+
+/**
+ * All moves by movement rules only, without passing (used by the search,
+ * which refutes illegal moves by capturing the general)
+ */
+export function getAllPseudoLegalMoves(board: Board, isHanTurn: boolean): Move[] {
+  const moves: Move[] = [];
+
+  for (let row = 0; row < 10; row++) {
+    for (let col = 0; col < 9; col++) {
+      const piece = board[row][col];
+      if (piece !== PieceType.EMPTY && isHanPiece(piece) === isHanTurn) {
+        moves.push(...getPseudoLegalMoves(board, { row, col }, isHanTurn));
+      }
+    }
+  }
+
+  return moves;
+}
+
+/**
+ * Pass: the general "moves" onto its own square (Fairy-Stockfish notation)
+ * Not allowed while in check, unless it accepts a bikjang.
+ * Returns null if passing is not legal.
+ */
+export function getPassMove(board: Board, isHanTurn: boolean): Move | null {
+  const general = findGeneral(board, isHanTurn);
+  if (!general || (isInCheck(board, isHanTurn) && !isBikjang(board))) return null;
+  return { from: general, to: { ...general } };
+}
+
+export function isPassMove(move: Move): boolean {
+  return move.from.row === move.to.row && move.from.col === move.to.col;
+}
+
+/**
+ * Material points of both sides, Han including the deom
+ */
+export function countPoints(board: Board): PointCount {
+  let han = HAN_DEOM;
+  let cho = 0;
+
+  for (let row = 0; row < 10; row++) {
+    for (let col = 0; col < 9; col++) {
+      const piece = board[row][col];
+      const points = PIECE_POINTS[Math.abs(piece)] || 0;
+      if (isHanPiece(piece)) han += points;
+      else if (isChoPiece(piece)) cho += points;
+    }
+  }
+
+  return { han, cho };
+}
+
+/**
+ * Palace diagonal lines leaving `from`
+ * Each line lists the points along one diagonal in order of distance:
+ * from a corner [centre, opposite corner], from the centre [corner].
+ * Empty for points that are not on a palace diagonal.
+ */
+function getPalaceDiagonals(from: Position): Position[][] {
+  for (const center of PALACE_CENTERS) {
+    const dRow = from.row - center.row;
+    const dCol = from.col - center.col;
+
+    if (dRow === 0 && dCol === 0) {
+      return [[-1, -1], [-1, 1], [1, -1], [1, 1]].map(([r, c]) => [
+        { row: center.row + r, col: center.col + c },
+      ]);
+    }
+    if (Math.abs(dRow) === 1 && Math.abs(dCol) === 1) {
+      return [[center, { row: center.row - dRow, col: center.col - dCol }]];
+    }
+  }
+  return [];
+}
+
+/**
+ * Squares attacked by one side: every square a piece of that side could
+ * move to or capture on by movement rules alone
+ */
+export function getAttackMap(board: Board, byHan: boolean): boolean[][] {
+  const attacked: boolean[][] = Array(10).fill(0).map(() => Array(9).fill(false));
+
+  for (let row = 0; row < 10; row++) {
+    for (let col = 0; col < 9; col++) {
+      const piece = board[row][col];
+      if (piece === PieceType.EMPTY || isHanPiece(piece) !== byHan) continue;
+
+      for (const move of getPseudoLegalMoves(board, { row, col }, byHan)) {
+        attacked[move.to.row][move.to.col] = true;
+      }
+    }
+  }
+
+  return attacked;
+}
+
+export function findGeneral(board: Board, isHan: boolean): Position | null {
+  const general = isHan ? PieceType.HAN_KING : PieceType.CHO_KING;
+  for (let row = 0; row < 10; row++) {
+    const col = board[row].indexOf(general);
+    if (col !== -1) return { row, col };
+  }
+  return null;
+}
+
+/**
+ * True if the given side's general is attacked (Janggun)
+ */
+export function isInCheck(board: Board, isHan: boolean): boolean {
+  const general = findGeneral(board, isHan);
+  if (!general) return false;
+  return getAttackMap(board, !isHan)[general.row][general.col];
+}
+
+/**
+ * Bikjang: both generals on the same file with nothing between them
+ */
+export function isBikjang(board: Board): boolean {
+  const han = findGeneral(board, true);
+  const cho = findGeneral(board, false);
+  if (!han || !cho || han.col !== cho.col) return false;
+
+  for (let row = Math.min(han.row, cho.row) + 1; row < Math.max(han.row, cho.row); row++) {
+    if (board[row][han.col] !== PieceType.EMPTY) return false;
+  }
+  return true;
+}
+
+/**
+ * Result of the position after a move, with the side to move given
+ *
+ * - No legal moves: checkmate (a side that is not in check can always pass)
+ * - Bikjang: facing generals are legal, but if the side that faced the
+ *   bikjang (previousBoard) accepts it by moving without breaking it, or by
+ *   passing, the game is decided by counting points
+ * - After MOVE_LIMIT plies (plyCount) the game is decided by counting points
+ */
+export function getGameOutcome(
+  board: Board,
+  isHanTurn: boolean,
+  previousBoard?: Board,
+  plyCount: number = 0,
+): PositionOutcome {
+  const bikjang = isBikjang(board);
+
+  // Positions reached without legal moves (e.g. set up by hand) can lack a general
+  if (!findGeneral(board, true)) {
+    return { result: -1, reason: 'general-captured', inCheck: false, bikjang, points: null };
+  }
+  if (!findGeneral(board, false)) {
+    return { result: 1, reason: 'general-captured', inCheck: false, bikjang, points: null };
+  }
+
+  if (bikjang && previousBoard && isBikjang(previousBoard)) {
+    return decideByPoints(board, 'bikjang', false, bikjang);
+  }
+
+  const inCheck = isInCheck(board, isHanTurn);
+  if (getAllLegalMoves(board, isHanTurn).length === 0) {
+    return { result: isHanTurn ? -1 : 1, reason: 'checkmate', inCheck, bikjang, points: null };
+  }
+
+  if (plyCount >= MOVE_LIMIT) {
+    return decideByPoints(board, 'move-limit', inCheck, bikjang);
+  }
+
+  return { result: null, reason: null, inCheck, bikjang, points: null };
+}
+
+function decideByPoints(
+  board: Board,
+  reason: GameEndReason,
+  inCheck: boolean,
+  bikjang: boolean,
+): PositionOutcome {
+  const points = countPoints(board);
+  return { result: points.han > points.cho ? 1 : -1, reason, inCheck, bikjang, points };
+}
+
+function canCapture(piece: number, targetPiece: number): boolean {
+  if (targetPiece === PieceType.EMPTY) return true;
+  return (piece > 0 && targetPiece < 0) || (piece < 0 && targetPiece > 0);
+}
+
+function getChariotMoves(board: Board, from: Position, piece: number): Move[] {
+  const moves: Move[] = [];
+
+  // Orthogonal directions
+  const directions = [
+    { row: -1, col: 0 }, // Up
+    { row: 1, col: 0 },  // Down
+    { row: 0, col: -1 }, // Left
+    { row: 0, col: 1 },  // Right
+  ];
+
+  for (const dir of directions) {
+    let to = { row: from.row + dir.row, col: from.col + dir.col };
+
+    while (inBoard(to)) {
+      const targetPiece = getPiece(board, to);
+
+      if (targetPiece === PieceType.EMPTY) {
+        moves.push({ from, to: { ...to } });
+      } else {
+        if (canCapture(piece, targetPiece)) {
+          moves.push({ from, to: { ...to } });
+        }
+        break; // Can't jump over pieces
+      }
+
+      to.row += dir.row;
+      to.col += dir.col;
+    }
+  }
+
+  // Palace diagonals: slide along the line like an orthogonal move
+  for (const line of getPalaceDiagonals(from)) {
+    for (const to of line) {
+      const targetPiece = getPiece(board, to);
+
+      if (targetPiece === PieceType.EMPTY) {
+        moves.push({ from, to });
+      } else {
+        if (canCapture(piece, targetPiece)) {
+          moves.push({ from, to });
+        }
+        break;
+      }
+    }
+  }
+
+  return moves;
+}
+
+function getCannonMoves(board: Board, from: Position, piece: number): Move[] {
+  const moves: Move[] = [];
+
+  // Cannon must jump over exactly one piece (not another cannon)
+  const directions = [
+    { row: -1, col: 0 },
+    { row: 1, col: 0 },
+    { row: 0, col: -1 },
+    { row: 0, col: 1 },
+  ];
+
+  for (const dir of directions) {
+    let jumped = false;
+    let to = { row: from.row + dir.row, col: from.col + dir.col };
+
+    while (inBoard(to)) {
+      const targetPiece = getPiece(board, to);
+
+      if (!jumped) {
+        // Looking for piece to jump over
+        if (targetPiece === PieceType.EMPTY) {
+          to.row += dir.row;
+          to.col += dir.col;
+          continue;
+        } else if (Math.abs(targetPiece) === Math.abs(PieceType.HAN_PO)) {
+          break; // Can't jump over cannons
+        } else {
+          jumped = true;
+          to.row += dir.row;
+          to.col += dir.col;
+          continue;
+        }
+      } else {
+        // After jumping, can land on empty or capture
+        if (targetPiece === PieceType.EMPTY) {
+          moves.push({ from, to: { ...to } });
+        } else if (Math.abs(targetPiece) !== Math.abs(PieceType.HAN_PO) && canCapture(piece, targetPiece)) {
+          moves.push({ from, to: { ...to } });
+          break;
+        } else {
+          break;
+        }
+      }
+
+      to.row += dir.row;
+      to.col += dir.col;
+    }
+  }
+
+  // Palace diagonals: corner to opposite corner, jumping a non-cannon piece on the centre
+  for (const line of getPalaceDiagonals(from)) {
+    if (line.length < 2) continue;
+
+    const [center, to] = line;
+    const screen = getPiece(board, center);
+    if (screen === PieceType.EMPTY || Math.abs(screen) === Math.abs(PieceType.HAN_PO)) continue;
+
+    const targetPiece = getPiece(board, to);
+    if (targetPiece === PieceType.EMPTY ||
+        (Math.abs(targetPiece) !== Math.abs(PieceType.HAN_PO) && canCapture(piece, targetPiece))) {
+      moves.push({ from, to });
+    }
+  }
+
+  return moves;
+}
+
+function getHorseMoves(board: Board, from: Position, piece: number): Move[] {
+  const moves: Move[] = [];
+
+  for (const [block, dest] of MA_WAYS) {
+    const blockPos = { row: from.row + block.row, col: from.col + block.col };
+    const toPos = { row: from.row + dest.row, col: from.col + dest.col };
+
+    if (!inBoard(toPos)) continue;
+
+    // Check if blocking position is empty
+    if (getPiece(board, blockPos) !== PieceType.EMPTY) continue;
+
+    const targetPiece = getPiece(board, toPos);
+    if (canCapture(piece, targetPiece)) {
+      moves.push({ from, to: toPos });
+    }
+  }
+
+  return moves;
+}
+
+function getElephantMoves(board: Board, from: Position, piece: number): Move[] {
+  const moves: Move[] = [];
+
+  for (const [block1, block2, dest] of SANG_WAYS) {
+    const block1Pos = { row: from.row + block1.row, col: from.col + block1.col };
+    const block2Pos = { row: from.row + block2.row, col: from.col + block2.col };
+    const toPos = { row: from.row + dest.row, col: from.col + dest.col };
+
+    if (!inBoard(toPos)) continue;
+
+    // Check if both blocking positions are empty
+    if (getPiece(board, block1Pos) !== PieceType.EMPTY) continue;
+    if (getPiece(board, block2Pos) !== PieceType.EMPTY) continue;
+
+    const targetPiece = getPiece(board, toPos);
+    if (canCapture(piece, targetPiece)) {
+      moves.push({ from, to: toPos });
+    }
+  }
+
+  return moves;
+}
+
+function getPalaceMoves(board: Board, from: Position, piece: number): Move[] {
+  const moves: Move[] = [];
+
+  // General and guards step one point along a palace line: orthogonally,
+  // or diagonally only where the palace has a diagonal line
+  const orthogonal = [
+    { row: -1, col: 0 },  // Up
+    { row: 1, col: 0 },   // Down
+    { row: 0, col: -1 },  // Left
+    { row: 0, col: 1 },   // Right
+  ];
+  const targets = [
+    ...orthogonal.map(dir => ({ row: from.row + dir.row, col: from.col + dir.col })),
+    ...getPalaceDiagonals(from).map(line => line[0]),
+  ];
+
+  for (const to of targets) {
+    if (!inBoard(to)) continue;
+
+    // Must stay in palace
+    const inChoPalace = to.row >= 0 && to.row <= 2 && to.col >= 3 && to.col <= 5;
+    const inHanPalace = to.row >= 7 && to.row <= 9 && to.col >= 3 && to.col <= 5;
+
+    if (!inChoPalace && !inHanPalace) continue;
+
+    const targetPiece = getPiece(board, to);
+    if (canCapture(piece, targetPiece)) {
+      moves.push({ from, to });
+    }
+  }
+
+  return moves;
+}
+
+function getSoldierMoves(board: Board, from: Position, piece: number): Move[] {
+  const moves: Move[] = [];
+  const isHan = piece > 0;
+
+  for (const way of JOL_WAYS) {
+    let to = { row: from.row + way.row * (isHan ? 1 : -1), col: from.col + way.col }; // JOL_WAYS are written for Han
+
+    if (!inBoard(to)) continue;
+
+    const targetPiece = getPiece(board, to);
+    if (canCapture(piece, targetPiece)) {
+      moves.push({ from, to });
+    }
+  }
+
+  // Inside the enemy palace a soldier may also step forward along a diagonal
+  const forward = isHan ? -1 : 1;
+  for (const line of getPalaceDiagonals(from)) {
+    const to = line[0];
+    if (to.row - from.row !== forward) continue;
+
+    const targetPiece = getPiece(board, to);
+    if (canCapture(piece, targetPiece)) {
+      moves.push({ from, to });
+    }
+  }
+
+  return moves;
+}
@@ -0,0 +1,99 @@
+/**
+ * Janggi Opponent Providers
+ * Both modes play by the same rules (moves.ts) and differ only in who picks
+ * the computer's move:
+ * - Engine opponent: Fairy-Stockfish through a search callback (janggi2)
+ * - Standalone opponent: the built-in alpha-beta search (janggi3)
+ */
+
+import { Board, Move } from './board';
+import { boardToFEN, moveFromEngineNotation } from './fen';
+import { startAIMove } from './ai';
+import { SearchBudget, SearchProgress, SearchTask, DEFAULT_SEARCH_BUDGET } from './search';
+
+export interface JanggiOpponent {
+  usesEngine: boolean; // Needs a ready engine, which can also analyze the game
+
+  /**
+   * Move for the side to move; null if there is none (or the search was stopped)
+   * Moves rejected by `isAllowed` (forbidden repetitions) are avoided
+   */
+  getMove(board: Board, isHanTurn: boolean, isAllowed: (move: Move) => boolean): Promise<Move | null>;
+
+  /**
+   * Stop a pending getMove (new game, variant switch); it resolves with null
+   */
+  cancel(): void;
+}
+
+/**
+ * Engine search: position FEN in, move in UCI/PGN notation out (null if none)
+ * Rejects if the engine can't search, so a down engine isn't read as "no move".
+ * XBoard moves must be converted first (XBoardEngine does, see move-notation.ts)
+ */
+export type EngineSearch = (fen: string, isHanTurn: boolean) => Promise<string | null>;
+
+/**
+ * Told when the engine's move was rejected and the built-in search moved instead
+ */
+export type EngineFallbackListener = (engineMove: string, reason: 'illegal' | 'repetition') => void;
+
+/**
+ * Search depth and think time for the side to move
+ */
+export type SearchBudgetProvider = (isHanTurn: boolean) => SearchBudget;
+
+/**
+ * The search runs cooperatively (see search.ts); `onProgress` reports the
+ * best move so far while it thinks
+ */
+export function createStandaloneOpponent(
+  getBudget: SearchBudgetProvider = () => DEFAULT_SEARCH_BUDGET,
+  onProgress?: (progress: SearchProgress) => void,
+): JanggiOpponent {
+  let task: SearchTask | null = null;
+
+  return {
+    usesEngine: false,
+    getMove: async (board, isHanTurn, isAllowed) => {
+      const current = startAIMove(board, isHanTurn, isAllowed, getBudget(isHanTurn), onProgress);
+      task = current;
+      const result = await current.result;
+      // A newer getMove may have started meanwhile; its task stays cancellable
+      if (task === current) task = null;
+      return result.cancelled ? null : result.move;
+    },
+    cancel: () => task?.cancel(),
+  };
+}
+
+/**
+ * The engine only sees the FEN, not the game's history: an engine move that
+ * is illegal here or a forbidden repetition is replaced by the built-in search's
+ * choice, and `onFallback` is told
+ */
+export function createEngineOpponent(search: EngineSearch, onFallback?: EngineFallbackListener): JanggiOpponent {
+  const fallback = createStandaloneOpponent();
+  let cancelled = false;
+
+  return {
+    usesEngine: true,
+    getMove: async (board, isHanTurn, isAllowed) => {
+      cancelled = false;
+      const engineMove = await search(boardToFEN(board, isHanTurn, 1), isHanTurn);
+      if (!engineMove || cancelled) return null;
+
+      const move = moveFromEngineNotation(board, isHanTurn, engineMove);
+      if (move && isAllowed(move)) return move;
+
+      const reason = move ? 'repetition' : 'illegal';
+      console.warn(`[Janggi] Engine move ${engineMove} rejected (${reason}), choosing another move`);
+      onFallback?.(engineMove, reason);
+      return fallback.getMove(board, isHanTurn, isAllowed);
+    },
+    cancel: () => {
+      cancelled = true;
+      fallback.cancel();
+    },
+  };
+}
@@ -0,0 +1,64 @@
+/**
+ * Janggi perft (performance test): leaf counts of the legal move tree
+ *
+ * Counts match Fairy-Stockfish's `go perft` for the same FEN, which makes
+ * perft the reference check for the move generator (see __tests__/janggi).
+ * As in the engine, a line ends (no moves) after two passes in a row or
+ * after a pass that accepts a bikjang; other game ends are not applied.
+ */
+
+import { Board, Move, applyMove } from './board';
+import { getAllLegalMoves, isBikjang, isPassMove } from './moves';
+import { moveToEngineNotation } from './fen';
+
+// What the engine remembers of the previous ply
+interface PlyState {
+  pass: boolean; // Reached by a pass
+  bikjang: boolean;
+}
+
+/**
+ * Number of move sequences `depth` plies deep (passes included)
+ */
+export function perft(board: Board, isHanTurn: boolean, depth: number): number {
+  return countLeaves(board, isHanTurn, depth, { pass: false, bikjang: isBikjang(board) }, null);
+}
+
+/**
+ * Perft split by first move, keyed by engine notation (like the engine's
+ * per-move output), for finding where two move generators disagree
+ */
+export function perftDivide(board: Board, isHanTurn: boolean, depth: number): Record<string, number> {
+  const root: PlyState = { pass: false, bikjang: isBikjang(board) };
+  const counts: Record<string, number> = {};
+
+  for (const move of getAllLegalMoves(board, isHanTurn)) {
+    counts[moveToEngineNotation(move)] = countChild(board, isHanTurn, depth, move, root);
+  }
+  return counts;
+}
+
+function countLeaves(
+  board: Board,
+  isHanTurn: boolean,
+  depth: number,
+  state: PlyState,
+  previous: PlyState | null,
+): number {
+  if (depth <= 0) return 1;
+  if (previous && ((state.pass && previous.pass) || (state.bikjang && previous.bikjang))) return 0;
+
+  const moves = getAllLegalMoves(board, isHanTurn);
+  if (depth === 1) return moves.length;
+
+  let nodes = 0;
+  for (const move of moves) {
+    nodes += countChild(board, isHanTurn, depth, move, state);
+  }
+  return nodes;
+}
+
+function countChild(board: Board, isHanTurn: boolean, depth: number, move: Move, state: PlyState): number {
+  const next = applyMove(board, move);
+  return countLeaves(next, !isHanTurn, depth - 1, { pass: isPassMove(move), bikjang: isBikjang(next) }, state);
+}
@@ -0,0 +1,292 @@
+/**
+ * Janggi Game Records
+ * A game is kept as both sides' formations (or, for a game set up in the
+ * position editor, its starting FEN) plus the move list, and exchanged with
+ * other Janggi tools in two formats:
+ * - GIB, the Korean record format; it only knows games started from the formations
+ * - PGN as Fairy-Stockfish tools write it: Variant "janggi", the starting
+ *   position in FEN and moves in engine notation ("h1g3", a pass "e2e2")
+ *
+ * GIB seats its first player, 초, at the bottom: that is this app's Han
+ * (FEN side 'w'), so Han is written as 초 and Cho as 한. GIB squares are two
+ * digits, rank 1-9 or 0 (= 10) from the top then file 1-9 from the left, as
+ * in "79졸78"; a pass is "한수쉼". Players name their formation as seen
+ * from their own seat, so the top side's formation is mirrored.
+ */
+
+import { Board, Move, PieceType, Position, Setup, applyMove, createInitialBoard } from './board';
+import { GameSetups, SETUPS, SETUP_LABELS, setupsFromBoard } from './setup';
+import { getLegalMoves, getPassMove, isPassMove } from './moves';
+import { boardToFEN, FENToBoard, moveFromEngineNotation, moveToEngineNotation } from './fen';
+import { validateFEN } from './validation';
+import { PgnResult, formatPgn, formatPgnDate, parsePgn } from '../../utils/pgn';
+
+export interface JanggiGameRecord {
+  setups: GameSetups | null; // null if the game did not start from the formations
+  startFen?: string; // Starting position when setups is null (PGN only)
+  moves: Move[];
+  result: number | null; // 1 (Han wins), -1 (Cho wins), 0 (draw), null (unfinished)
+  han: string; // Player names
+  cho: string;
+  date: Date | null;
+  tags: Record<string, string>; // Further PGN tags (Event, Site, TimeControl...)
+}
+
+/**
+ * A record that can't be read or holds an illegal move
+ */
+export class GameRecordError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GameRecordError';
+  }
+}
+
+const GIB_PASS = '한수쉼';
+const GIB_TAG_PATTERN = /\[(\S+)\s+"([^"]*)"\]/g;
+const GIB_MOVE_PATTERN = /(\d+)\s*\.\s*(?:(한수쉼)|(\d)(\d)\s*[^\d\s]+\s*(\d)(\d))/g;
+const GIB_PIECE_NAMES: Record<number, string> = {
+  [PieceType.HAN_JOL]: '졸',
+  [PieceType.HAN_SANG]: '상',
+  [PieceType.HAN_MA]: '마',
+  [PieceType.HAN_PO]: '포',
+  [PieceType.HAN_CHA]: '차',
+  [PieceType.HAN_SA]: '사',
+  [PieceType.HAN_KING]: '장',
+};
+
+// Tags the record keeps in its own fields
+const RECORD_PGN_TAGS = ['White', 'Black', 'Date', 'Result', 'Variant', 'SetUp', 'FEN'];
+
+function isLegalMove(board: Board, move: Move, isHanTurn: boolean): boolean {
+  return isPassMove(move)
+    ? getPassMove(board, isHanTurn) !== null
+    : getLegalMoves(board, move.from, isHanTurn).some(
+        legal => legal.to.row === move.to.row && legal.to.col === move.to.col
+      );
+}
+
+/**
+ * Starting board and side to move: the formations with Han to move, or startFen
+ */
+export function recordStart(record: JanggiGameRecord): { board: Board; isHanTurn: boolean } {
+  if (record.setups) {
+    return { board: createInitialBoard(record.setups.han, record.setups.cho), isHanTurn: true };
+  }
+  if (!record.startFen) {
+    throw new GameRecordError('The record has no starting position');
+  }
+  const { board, isHanTurn } = FENToBoard(record.startFen);
+  return { board, isHanTurn };
+}
+
+/**
+ * Positions of a game: the starting board, then the board after each move
+ * Throws GameRecordError at the first illegal move.
+ */
+export function replayRecord(record: JanggiGameRecord): Board[] {
+  const start = recordStart(record);
+  const boards = [start.board];
+  record.moves.forEach((move, index) => {
+    const board = boards[boards.length - 1];
+    if (!isLegalMove(board, move, (index % 2 === 0) === start.isHanTurn)) {
+      throw new GameRecordError(`Move ${index + 1} (${moveToEngineNotation(move)}) is not legal`);
+    }
+    boards.push(applyMove(board, move));
+  });
+  return boards;
+}
+
+function parseRecordDate(text: string | undefined): Date | null {
+  const match = text?.match(/(\d{4})\D+(\d{1,2})\D+(\d{1,2})/);
+  if (!match) return null;
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+}
+
+function toPgnResult(result: number | null): PgnResult {
+  if (result === null) return '*';
+  return result === 1 ? '1-0' : result === -1 ? '0-1' : '1/2-1/2';
+}
+
+function fromPgnResult(result: PgnResult): number | null {
+  if (result === '*') return null;
+  return result === '1-0' ? 1 : result === '0-1' ? -1 : 0;
+}
+
+/**
+ * Fairy-Stockfish style PGN
+ */
+export function exportJanggiPgn(record: JanggiGameRecord): string {
+  const otherTags = Object.fromEntries(
+    Object.entries(record.tags).filter(([name]) => !RECORD_PGN_TAGS.includes(name))
+  );
+  const start = recordStart(record);
+  const tags = {
+    Event: 'Casual game',
+    Site: 'Chess Game app',
+    Date: record.date ? formatPgnDate(record.date) : '????.??.??',
+    Round: '-',
+    White: record.han,
+    Black: record.cho,
+    Result: toPgnResult(record.result),
+    ...otherTags,
+    Variant: 'janggi',
+    SetUp: '1',
+    FEN: record.startFen ?? boardToFEN(start.board, start.isHanTurn, 1),
+  };
+  return formatPgn(tags, record.moves.map(moveToEngineNotation));
+}
+
+/**
+ * Read a Fairy-Stockfish style PGN (moves in engine notation)
+ */
+export function importJanggiPgn(text: string): JanggiGameRecord {
+  const { tags, moves: tokens, result } = parsePgn(text);
+  if (tags.Variant && tags.Variant.toLowerCase() !== 'janggi') {
+    throw new GameRecordError(`Not a Janggi game (variant "${tags.Variant}")`);
+  }
+
+  const [fenError] = tags.FEN ? validateFEN(tags.FEN) : [];
+  if (fenError) {
+    throw new GameRecordError(`Invalid starting position: ${fenError}`);
+  }
+  const start = tags.FEN ? FENToBoard(tags.FEN) : { board: createInitialBoard(), isHanTurn: true };
+  const setups = start.isHanTurn ? setupsFromBoard(start.board) : null;
+
+  let board = start.board;
+  const moves = tokens.map((token, index) => {
+    const move = moveFromEngineNotation(board, (index % 2 === 0) === start.isHanTurn, token);
+    if (!move) {
+      throw new GameRecordError(`Move ${index + 1} (${token}) is not legal`);
+    }
+    board = applyMove(board, move);
+    return move;
+  });
+
+  return {
+    setups,
+    ...(setups ? {} : { startFen: tags.FEN }),
+    moves,
+    result: fromPgnResult(result),
+    han: tags.White || '?',
+    cho: tags.Black || '?',
+    date: parseRecordDate(tags.Date),
+    tags: Object.fromEntries(Object.entries(tags).filter(([name]) => !RECORD_PGN_TAGS.includes(name))),
+  };
+}
+
+// The top side names its formation from its own seat: left and right swap
+function mirrorSetup(setup: Setup): Setup {
+  if (setup === Setup.SMSM) return Setup.MSMS;
+  if (setup === Setup.MSMS) return Setup.SMSM;
+  return setup;
+}
+
+function parseGibSetup(label: string | undefined, isTop: boolean): Setup {
+  if (label === undefined) return Setup.MSSM;
+  const setup = SETUPS.find(s => SETUP_LABELS[s] === label.trim());
+  if (setup === undefined) {
+    throw new GameRecordError(`Unknown formation "${label}"`);
+  }
+  return isTop ? mirrorSetup(setup) : setup;
+}
+
+function gibSquare(pos: Position): string {
+  return `${(pos.row + 1) % 10}${pos.col + 1}`;
+}
+
+function fromGibSquare(rank: string, file: string): Position {
+  return { row: (Number(rank) + 9) % 10, col: Number(file) - 1 };
+}
+
+function gibResult(result: number | null): string {
+  if (result === null) return '';
+  return result === 1 ? '초 완승' : result === -1 ? '한 완승' : '무승부';
+}
+
+function fromGibResult(text: string | undefined): number | null {
+  if (!text) return null;
+  if (text.includes('무승부')) return 0;
+  if (!text.includes('승')) return null;
+  return text.trim().startsWith('초') ? 1 : text.trim().startsWith('한') ? -1 : null;
+}
+
+/**
+ * Korean GIB record
+ */
+export function exportGib(record: JanggiGameRecord): string {
+  const { setups } = record;
+  if (!setups) {
+    throw new GameRecordError('GIB records start from the formations: save this game as PGN');
+  }
+  const boards = replayRecord(record);
+  const tags: [string, string][] = [
+    ['대회명', record.tags.Event ?? '친선대국'],
+    ['대국일자', record.date ? formatPgnDate(record.date) : ''],
+    ['대국장소', record.tags.Site ?? 'Chess Game app'],
+    ['초대국자', record.han],
+    ['한대국자', record.cho],
+    ['초차림', SETUP_LABELS[setups.han]],
+    ['한차림', SETUP_LABELS[mirrorSetup(setups.cho)]],
+    ['대국결과', gibResult(record.result)],
+    ['총수', String(record.moves.length)],
+  ];
+
+  const moves = record.moves.map((move, index) => {
+    if (isPassMove(move)) return `${index + 1}. ${GIB_PASS}`;
+    const piece = boards[index][move.from.row][move.from.col];
+    const name = piece === PieceType.CHO_JOL ? '병' : GIB_PIECE_NAMES[Math.abs(piece)];
+    return `${index + 1}. ${gibSquare(move.from)}${name}${gibSquare(move.to)}`;
+  });
+
+  // Ten moves per line
+  const lines: string[] = [];
+  for (let i = 0; i < moves.length; i += 10) {
+    lines.push(moves.slice(i, i + 10).join(' '));
+  }
+
+  return `${tags.map(([name, value]) => `[${name} "${value}"]`).join('\n')}\n\n${lines.join('\n')}\n`;
+}
+
+/**
+ * Read a Korean GIB record
+ */
+export function importGib(text: string): JanggiGameRecord {
+  const tags: Record<string, string> = {};
+  for (const match of text.matchAll(GIB_TAG_PATTERN)) {
+    tags[match[1]] = match[2];
+  }
+
+  const setups = {
+    han: parseGibSetup(tags['초차림'], false),
+    cho: parseGibSetup(tags['한차림'], true),
+  };
+
+  let board = createInitialBoard(setups.han, setups.cho);
+  const body = text.replace(GIB_TAG_PATTERN, ' ');
+  const moves: Move[] = [];
+  for (const match of body.matchAll(GIB_MOVE_PATTERN)) {
+    const isHanTurn = moves.length % 2 === 0;
+    const move = match[2]
+      ? getPassMove(board, isHanTurn)
+      : { from: fromGibSquare(match[3], match[4]), to: fromGibSquare(match[5], match[6]) };
+    if (!move || !isLegalMove(board, move, isHanTurn)) {
+      throw new GameRecordError(`Move ${moves.length + 1} (${match[0].trim()}) is not legal`);
+    }
+    moves.push(move);
+    board = applyMove(board, move);
+  }
+
+  return {
+    setups,
+    moves,
+    result: fromGibResult(tags['대국결과']),
+    han: tags['초대국자'] || '?',
+    cho: tags['한대국자'] || '?',
+    date: parseRecordDate(tags['대국일자']),
+    tags: {
+      ...(tags['대회명'] ? { Event: tags['대회명'] } : {}),
+      ...(tags['대국장소'] ? { Site: tags['대국장소'] } : {}),
+    },
+  };
+}
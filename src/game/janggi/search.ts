@@ -0,0 +1,514 @@
+/**
+ * Janggi Alpha-Beta Search (the standalone opponent's move choice)
+ *
+ * Iterative deepening negamax with alpha-beta pruning:
+ * - Move ordering: transposition table move, captures by MVV-LVA, killer moves
+ * - Transposition table keyed by Zobrist hash (zobrist.ts)
+ * - Quiescence search on captures at the horizon
+ * - Evaluation: material (official points) plus piece-square tables
+ *
+ * Below the root the search uses pseudo-legal moves: a move that leaves the
+ * general attacked is refuted by capturing the general, scored as mate.
+ * Scores are centipoints (1 point = 100) from the side to move's view.
+ *
+ * The search is a generator that pauses every SEARCH_CHUNK_NODES nodes.
+ * startSearch runs it cooperatively, yielding to the JS event loop between
+ * chunks so rendering and input stay responsive; searchBestMove runs it in
+ * one go.
+ */
+
+import { Board, Move, PieceType, applyMove } from './board';
+import { getAllPseudoLegalMoves, findGeneral, isPassMove, HAN_DEOM } from './moves';
+import { ZobristHash, hashBoard, updateHash } from './zobrist';
+
+export interface SearchBudget {
+  maxDepth: number; // Plies
+  timeMs: number; // The last completed iteration is used once this runs out
+}
+
+export interface SearchResult {
+  move: Move | null; // Best move so far when the search was cut short
+  score: number;
+  depth: number; // Deepest completed iteration
+  nodes: number;
+  timedOut: boolean;
+  cancelled: boolean;
+}
+
+export type SearchProgress = Omit<SearchResult, 'timedOut' | 'cancelled'>;
+
+/**
+ * A search running in the background
+ */
+export interface SearchTask {
+  result: Promise<SearchResult>;
+  cancel(): void; // The result resolves soon after, flagged as cancelled
+}
+
+export const MIN_SEARCH_DEPTH = 1;
+export const MAX_SEARCH_DEPTH = 6;
+export const DEFAULT_SEARCH_DEPTH = 3;
+
+// Think time per move at any depth
+export const SEARCH_TIME_MS = 3000;
+
+export const DEFAULT_SEARCH_BUDGET: SearchBudget = {
+  maxDepth: DEFAULT_SEARCH_DEPTH,
+  timeMs: SEARCH_TIME_MS,
+};
+
+/**
+ * Think time on the game clock: a share of the time left plus half the
+ * increment (or byo-yomi period), never more than SEARCH_TIME_MS
+ */
+export function clockedSearchTime(timeLeftMs: number, incrementMs: number): number {
+  return Math.max(50, Math.min(SEARCH_TIME_MS, timeLeftMs / 30 + incrementMs / 2));
+}
+
+export const MATE_SCORE = 100000;
+const MATE_BOUND = MATE_SCORE - 1000; // Scores beyond this are mates
+const INFINITE = MATE_SCORE + 1;
+
+const MAX_PLY = 64;
+
+// Nodes searched between pauses (and time checks)
+export const SEARCH_CHUNK_NODES = 1000;
+const TT_MAX_ENTRIES = 1 << 18; // Cleared when full
+
+// Material by |piece| (official points × 100; the general is never traded)
+const PIECE_VALUES = [0, 200, 300, 500, 700, 1300, 300, 0];
+
+// Capture ordering value by |piece|: taking the general outranks everything
+const VICTIM_VALUES = [0, 200, 300, 500, 700, 1300, 300, 100000];
+
+// Piece-square tables from Han's side (row 0 = Cho's back rank); Cho uses
+// them mirrored top to bottom. The board is symmetric left to right.
+const JOL_TABLE = [
+  [0, 0, 0, 10, 20, 10, 0, 0, 0],
+  [10, 20, 30, 40, 50, 40, 30, 20, 10],
+  [10, 20, 30, 40, 40, 40, 30, 20, 10],
+  [5, 15, 20, 30, 30, 30, 20, 15, 5],
+  [5, 10, 15, 20, 20, 20, 15, 10, 5],
+  [0, 5, 10, 10, 10, 10, 10, 5, 0],
+  [0, 0, 0, 0, 5, 0, 0, 0, 0],
+  [0, 0, 0, 0, 0, 0, 0, 0, 0],
+  [0, 0, 0, 0, 0, 0, 0, 0, 0],
+  [0, 0, 0, 0, 0, 0, 0, 0, 0],
+];
+
+const SANG_TABLE = [
+  [-10, 0, 0, 0, 0, 0, 0, 0, -10],
+  [0, 5, 5, 10, 10, 10, 5, 5, 0],
+  [0, 5, 10, 10, 10, 10, 10, 5, 0],
+  [0, 5, 10, 15, 15, 15, 10, 5, 0],
+  [0, 5, 10, 15, 15, 15, 10, 5, 0],
+  [0, 5, 10, 10, 15, 10, 10, 5, 0],
+  [-5, 0, 5, 5, 10, 5, 5, 0, -5],
+  [-5, 0, 5, 5, 5, 5, 5, 0, -5],
+  [-10, -5, 0, 0, 0, 0, 0, -5, -10],
+  [-10, -5, 0, 0, 0, 0, 0, -5, -10],
+];
+
+const MA_TABLE = [
+  [-10, -5, 0, 0, 0, 0, 0, -5, -10],
+  [-5, 5, 10, 15, 15, 15, 10, 5, -5],
+  [0, 10, 15, 20, 20, 20, 15, 10, 0],
+  [0, 10, 15, 20, 20, 20, 15, 10, 0],
+  [-5, 5, 10, 15, 15, 15, 10, 5, -5],
+  [-5, 5, 10, 10, 15, 10, 10, 5, -5],
+  [-10, 0, 5, 5, 5, 5, 5, 0, -10],
+  [-10, -5, 0, 0, 0, 0, 0, -5, -10],
+  [-15, -10, -5, -5, -5, -5, -5, -10, -15],
+  [-20, -15, -10, -10, -10, -10, -10, -15, -20],
+];
+
+const PO_TABLE = [
+  [0, 0, 0, 5, 5, 5, 0, 0, 0],
+  [0, 0, 0, 10, 15, 10, 0, 0, 0],
+  [0, 0, 0, 10, 10, 10, 0, 0, 0],
+  [0, 0, 0, 0, 5, 0, 0, 0, 0],
+  [0, 0, 0, 0, 5, 0, 0, 0, 0],
+  [0, 0, 0, 0, 5, 0, 0, 0, 0],
+  [0, 0, 0, 0, 5, 0, 0, 0, 0],
+  [0, 5, 0, 5, 10, 5, 0, 5, 0],
+  [0, 0, 0, 5, 10, 5, 0, 0, 0],
+  [0, 0, 0, 0, 5, 0, 0, 0, 0],
+];
+
+const CHA_TABLE = [
+  [10, 10, 10, 20, 20, 20, 10, 10, 10],
+  [15, 15, 15, 25, 30, 25, 15, 15, 15],
+  [10, 10, 10, 20, 20, 20, 10, 10, 10],
+  [5, 5, 5, 10, 10, 10, 5, 5, 5],
+  [0, 5, 5, 5, 10, 5, 5, 5, 0],
+  [0, 5, 5, 5, 10, 5, 5, 5, 0],
+  [0, 0, 5, 5, 5, 5, 5, 0, 0],
+  [-5, 0, 0, 5, 5, 5, 0, 0, -5],
+  [-5, 0, 0, 5, 5, 5, 0, 0, -5],
+  [-10, -5, 0, 5, 5, 5, 0, -5, -10],
+];
+
+// Guards and the general never leave the palace (rows 7-9, cols 3-5)
+const SA_TABLE = [
+  ...Array.from({ length: 7 }, () => Array(9).fill(0)),
+  [0, 0, 0, -5, 0, -5, 0, 0, 0],
+  [0, 0, 0, 0, 10, 0, 0, 0, 0],
+  [0, 0, 0, 5, 0, 5, 0, 0, 0],
+];
+
+const KING_TABLE = [
+  ...Array.from({ length: 7 }, () => Array(9).fill(0)),
+  [0, 0, 0, -10, -5, -10, 0, 0, 0],
+  [0, 0, 0, -5, 10, -5, 0, 0, 0],
+  [0, 0, 0, -5, 0, -5, 0, 0, 0],
+];
+
+// Indexed by |piece|
+const PIECE_SQUARE_TABLES: number[][][] = [
+  [], JOL_TABLE, SANG_TABLE, MA_TABLE, PO_TABLE, CHA_TABLE, SA_TABLE, KING_TABLE,
+];
+
+enum Bound {
+  EXACT,
+  LOWER, // Fail high: score is at least this
+  UPPER, // Fail low: score is at most this
+}
+
+interface TableEntry {
+  depth: number;
+  score: number;
+  bound: Bound;
+  move: Move | null;
+}
+
+/**
+ * Static evaluation from the side to move's view
+ */
+export function evaluatePosition(board: Board, isHanTurn: boolean): number {
+  let score = HAN_DEOM * 100;
+
+  for (let row = 0; row < 10; row++) {
+    for (let col = 0; col < 9; col++) {
+      const piece = board[row][col];
+      if (piece === PieceType.EMPTY) continue;
+
+      const kind = Math.abs(piece);
+      if (piece > 0) {
+        score += PIECE_VALUES[kind] + PIECE_SQUARE_TABLES[kind][row][col];
+      } else {
+        score -= PIECE_VALUES[kind] + PIECE_SQUARE_TABLES[kind][9 - row][col];
+      }
+    }
+  }
+
+  return isHanTurn ? score : -score;
+}
+
+/**
+ * Best of `rootMoves` (legal moves of the side to move) within the budget,
+ * searched synchronously
+ * Falls back to the first root move if not even depth 1 completes.
+ */
+export function searchBestMove(
+  board: Board,
+  isHanTurn: boolean,
+  rootMoves: Move[],
+  budget: SearchBudget = DEFAULT_SEARCH_BUDGET,
+): SearchResult {
+  const searcher = new Searcher(budget);
+  const search = searcher.run(board, isHanTurn, rootMoves);
+
+  for (;;) {
+    const step = search.next();
+    if (step.done) return step.value;
+    searcher.checkDeadline();
+  }
+}
+
+/**
+ * Search like searchBestMove, yielding to the event loop between chunks
+ * `onProgress` gets the best move so far after every chunk.
+ */
+export function startSearch(
+  board: Board,
+  isHanTurn: boolean,
+  rootMoves: Move[],
+  budget: SearchBudget = DEFAULT_SEARCH_BUDGET,
+  onProgress?: (progress: SearchProgress) => void,
+): SearchTask {
+  const searcher = new Searcher(budget);
+  const search = searcher.run(board, isHanTurn, rootMoves);
+
+  const result = new Promise<SearchResult>((resolve, reject) => {
+    const runChunk = () => {
+      try {
+        const step = search.next();
+        if (step.done) {
+          resolve(step.value);
+          return;
+        }
+        searcher.checkDeadline();
+        onProgress?.(searcher.progress());
+        setTimeout(runChunk, 0);
+      } catch (error) {
+        reject(error);
+      }
+    };
+    setTimeout(runChunk, 0);
+  });
+
+  return { result, cancel: () => searcher.cancel() };
+}
+
+/**
+ * A finished task, for moves decided without searching
+ */
+export function completedSearch(move: Move | null, score: number = 0): SearchTask {
+  return {
+    result: Promise.resolve({ move, score, depth: 0, nodes: 0, timedOut: false, cancelled: false }),
+    cancel: () => {},
+  };
+}
+
+function sameMove(a: Move | null, b: Move | null): boolean {
+  return !!a && !!b &&
+    a.from.row === b.from.row && a.from.col === b.from.col &&
+    a.to.row === b.to.row && a.to.col === b.to.col;
+}
+
+function isCapture(board: Board, move: Move): boolean {
+  return !isPassMove(move) && board[move.to.row][move.to.col] !== PieceType.EMPTY;
+}
+
+// Mate scores are stored relative to the node, so they stay correct when
+// the same position is reached at another ply
+function toTableScore(score: number, ply: number): number {
+  if (score > MATE_BOUND) return score + ply;
+  if (score < -MATE_BOUND) return score - ply;
+  return score;
+}
+
+function fromTableScore(score: number, ply: number): number {
+  if (score > MATE_BOUND) return score - ply;
+  if (score < -MATE_BOUND) return score + ply;
+  return score;
+}
+
+class Searcher {
+  private table = new Map<ZobristHash, TableEntry>();
+  private killers: (Move | null)[][] = Array.from({ length: MAX_PLY }, () => [null, null]);
+  private nodes = 0;
+  private deadline = 0;
+  private stopped = false;
+  private timedOut = false;
+  private cancelled = false;
+
+  // Best so far, for progress reports and cut-off searches
+  private bestMove: Move | null = null;
+  private bestScore = 0;
+  private completedDepth = 0;
+
+  constructor(private budget: SearchBudget) {}
+
+  checkDeadline(): void {
+    if (!this.stopped && Date.now() >= this.deadline) {
+      this.stopped = true;
+      this.timedOut = true;
+    }
+  }
+
+  cancel(): void {
+    this.stopped = true;
+    this.cancelled = true;
+  }
+
+  progress(): SearchProgress {
+    return {
+      move: this.bestMove,
+      score: this.bestScore,
+      depth: this.completedDepth,
+      nodes: this.nodes,
+    };
+  }
+
+  *run(board: Board, isHanTurn: boolean, rootMoves: Move[]): Generator<void, SearchResult, undefined> {
+    this.deadline = Date.now() + this.budget.timeMs;
+    const hash = hashBoard(board, isHanTurn);
+
+    this.bestMove = rootMoves[0] || null;
+    this.bestScore = rootMoves.length > 0 ? evaluatePosition(board, isHanTurn) : -MATE_SCORE;
+    const moves = [...rootMoves];
+
+    for (let depth = 1; depth <= this.budget.maxDepth && moves.length > 0; depth++) {
+      let alpha = -INFINITE;
+      let iterationBest: Move | null = null;
+
+      for (let i = 0; i < moves.length; i++) {
+        const move = moves[i];
+        const score = -(yield* this.negamax(
+          applyMove(board, move), updateHash(hash, board, move), !isHanTurn,
+          depth - 1, -INFINITE, -alpha, 1,
+        ));
+        if (this.stopped) break;
+
+        if (score > alpha) {
+          alpha = score;
+          iterationBest = move;
+          // Best move so far first on the next iteration
+          moves.splice(i, 1);
+          moves.unshift(move);
+        }
+      }
+
+      // A cut-off iteration still counts once it has a best move: the
+      // previous best is searched first, so anything picked beat it
+      if (iterationBest) {
+        this.bestMove = iterationBest;
+        this.bestScore = alpha;
+      }
+      if (this.stopped) break;
+
+      this.completedDepth = depth;
+      if (Math.abs(this.bestScore) > MATE_BOUND) break; // Forced mate found
+    }
+
+    return { ...this.progress(), timedOut: this.timedOut, cancelled: this.cancelled };
+  }
+
+  /**
+   * Count a node; pauses the search every SEARCH_CHUNK_NODES nodes
+   */
+  private *visit(): Generator<void, void, undefined> {
+    this.nodes++;
+    if (this.nodes % SEARCH_CHUNK_NODES === 0) yield;
+  }
+
+  private *negamax(
+    board: Board,
+    hash: ZobristHash,
+    isHanTurn: boolean,
+    depth: number,
+    alpha: number,
+    beta: number,
+    ply: number,
+  ): Generator<void, number, undefined> {
+    yield* this.visit();
+    if (this.stopped) return 0;
+    if (depth <= 0 || ply >= MAX_PLY) return yield* this.quiesce(board, isHanTurn, alpha, beta, ply);
+
+    const moves = getAllPseudoLegalMoves(board, isHanTurn);
+    const enemyGeneral = isHanTurn ? PieceType.CHO_KING : PieceType.HAN_KING;
+    if (moves.some(move => board[move.to.row][move.to.col] === enemyGeneral)) {
+      return MATE_SCORE - ply; // The previous move left its general en prise
+    }
+
+    const entry = this.table.get(hash);
+    if (entry && entry.depth >= depth) {
+      const score = fromTableScore(entry.score, ply);
+      if (entry.bound === Bound.EXACT) return score;
+      if (entry.bound === Bound.LOWER && score >= beta) return score;
+      if (entry.bound === Bound.UPPER && score <= alpha) return score;
+    }
+
+    const general = findGeneral(board, isHanTurn);
+    if (general) moves.push({ from: general, to: { ...general } });
+    this.orderMoves(board, moves, entry ? entry.move : null, ply);
+
+    const originalAlpha = alpha;
+    let bestScore = -INFINITE;
+    let bestMove: Move | null = null;
+
+    for (const move of moves) {
+      const score = -(yield* this.negamax(
+        applyMove(board, move), updateHash(hash, board, move), !isHanTurn,
+        depth - 1, -beta, -alpha, ply + 1,
+      ));
+      if (this.stopped) return 0;
+
+      if (score > bestScore) {
+        bestScore = score;
+        bestMove = move;
+      }
+      if (score > alpha) alpha = score;
+      if (alpha >= beta) {
+        if (!isCapture(board, move)) this.storeKiller(move, ply);
+        break;
+      }
+    }
+
+    const bound = bestScore <= originalAlpha ? Bound.UPPER
+      : bestScore >= beta ? Bound.LOWER
+      : Bound.EXACT;
+    if (this.table.size >= TT_MAX_ENTRIES) this.table.clear();
+    this.table.set(hash, { depth, score: toTableScore(bestScore, ply), bound, move: bestMove });
+
+    return bestScore;
+  }
+
+  /**
+   * Captures only, until the position is quiet (the side to move may
+   * always stand pat on the static evaluation)
+   */
+  private *quiesce(
+    board: Board,
+    isHanTurn: boolean,
+    alpha: number,
+    beta: number,
+    ply: number,
+  ): Generator<void, number, undefined> {
+    yield* this.visit();
+    if (this.stopped) return 0;
+
+    const moves = getAllPseudoLegalMoves(board, isHanTurn);
+    const enemyGeneral = isHanTurn ? PieceType.CHO_KING : PieceType.HAN_KING;
+    if (moves.some(move => board[move.to.row][move.to.col] === enemyGeneral)) {
+      return MATE_SCORE - ply;
+    }
+
+    const standPat = evaluatePosition(board, isHanTurn);
+    if (standPat >= beta || ply >= MAX_PLY) return standPat;
+    if (standPat > alpha) alpha = standPat;
+
+    const captures = moves.filter(move => isCapture(board, move));
+    this.orderMoves(board, captures, null, ply);
+
+    for (const move of captures) {
+      const score = -(yield* this.quiesce(applyMove(board, move), !isHanTurn, -beta, -alpha, ply + 1));
+      if (this.stopped) return 0;
+
+      if (score >= beta) return score;
+      if (score > alpha) alpha = score;
+    }
+
+    return alpha;
+  }
+
+  /**
+   * Table move, captures (most valuable victim, then least valuable
+   * attacker), killer moves, quiet moves, pass
+   */
+  private orderMoves(board: Board, moves: Move[], tableMove: Move | null, ply: number): void {
+    const [killer1, killer2] = this.killers[ply] || [null, null];
+    const priority = (move: Move): number => {
+      if (sameMove(move, tableMove)) return 1000000;
+      if (isPassMove(move)) return -1;
+      const victim = board[move.to.row][move.to.col];
+      if (victim !== PieceType.EMPTY) {
+        return 200000 + VICTIM_VALUES[Math.abs(victim)] * 10 - Math.abs(board[move.from.row][move.from.col]);
+      }
+      if (sameMove(move, killer1)) return 2;
+      if (sameMove(move, killer2)) return 1;
+      return 0;
+    };
+
+    const priorities = new Map(moves.map(move => [move, priority(move)]));
+    moves.sort((a, b) => priorities.get(b)! - priorities.get(a)!);
+  }
+
+  private storeKiller(move: Move, ply: number): void {
+    const killers = this.killers[ply];
+    if (!killers || sameMove(move, killers[0])) return;
+    killers[1] = killers[0];
+    killers[0] = move;
+  }
+}
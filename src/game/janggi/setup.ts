@@ -0,0 +1,66 @@
+/**
+ * Janggi Formations (Sang/Ma setups)
+ * Before the game each side chooses where its elephants (Sang) and horses
+ * (Ma) stand; Cho chooses first, then Han. Formations are named by the
+ * pieces on columns b, c, g, h (see setSetupPieces in board.ts).
+ */
+
+import { Board, Setup, createInitialBoard } from './board';
+
+export const SETUPS: Setup[] = [Setup.MSSM, Setup.SMMS, Setup.SMSM, Setup.MSMS];
+
+export const SETUP_LABELS: Record<Setup, string> = {
+  [Setup.MSSM]: '마상상마',
+  [Setup.SMMS]: '상마마상',
+  [Setup.SMSM]: '상마상마',
+  [Setup.MSMS]: '마상마상',
+};
+
+export interface GameSetups {
+  han: Setup;
+  cho: Setup;
+}
+
+/**
+ * How an AI player chooses its formation
+ */
+export type SetupPolicy =
+  | { type: 'fixed'; setup: Setup }
+  | { type: 'random' }
+  | { type: 'mirror' }; // Same as the opponent's (random if the opponent hasn't chosen yet)
+
+export const DEFAULT_SETUP_POLICY: SetupPolicy = { type: 'random' };
+
+/**
+ * Formation for an AI player; `opponentSetup` is the opponent's choice if
+ * already made (Han chooses knowing Cho's)
+ */
+export function chooseSetup(
+  policy: SetupPolicy,
+  opponentSetup: Setup | null,
+  random: () => number = Math.random,
+): Setup {
+  switch (policy.type) {
+    case 'fixed':
+      return policy.setup;
+    case 'mirror':
+      if (opponentSetup !== null) return opponentSetup;
+      break;
+  }
+  return SETUPS[Math.floor(random() * SETUPS.length)];
+}
+
+/**
+ * Formations of a starting position, or null if `board` is not one
+ */
+export function setupsFromBoard(board: Board): GameSetups | null {
+  for (const han of SETUPS) {
+    for (const cho of SETUPS) {
+      const initial = createInitialBoard(han, cho);
+      if (initial.every((row, r) => row.every((piece, c) => piece === board[r][c]))) {
+        return { han, cho };
+      }
+    }
+  }
+  return null;
+}
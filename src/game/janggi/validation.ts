@@ -0,0 +1,103 @@
+/**
+ * Janggi position validation (position editor, imported FENs)
+ * Checks what any reachable position satisfies: one general per side in its
+ * own palace, advisors in the palace, no more pieces than a side starts
+ * with, soldiers not behind their starting rank, and the side that just
+ * moved not left in check.
+ */
+
+import { Board, PieceType, Position, inPalace } from './board';
+import { FENToBoard, fenLayoutErrors } from './fen';
+import { isInCheck } from './moves';
+import { formatSquare, fromBoardIndex } from '../../utils/move-notation';
+
+const PIECE_NAMES: Record<number, string> = {
+  [PieceType.HAN_JOL]: 'soldiers',
+  [PieceType.HAN_SANG]: 'elephants',
+  [PieceType.HAN_MA]: 'horses',
+  [PieceType.HAN_PO]: 'cannons',
+  [PieceType.HAN_CHA]: 'chariots',
+  [PieceType.HAN_SA]: 'advisors',
+  [PieceType.HAN_KING]: 'generals',
+};
+
+// Pieces per side at the start
+const MAX_PIECES: Record<number, number> = {
+  [PieceType.HAN_JOL]: 5,
+  [PieceType.HAN_SANG]: 2,
+  [PieceType.HAN_MA]: 2,
+  [PieceType.HAN_PO]: 2,
+  [PieceType.HAN_CHA]: 2,
+  [PieceType.HAN_SA]: 2,
+  [PieceType.HAN_KING]: 1,
+};
+
+// Engine notation of a point ("e2", "a10")
+function squareName(pos: Position): string {
+  return formatSquare(fromBoardIndex(pos.row, pos.col, 'janggi2'), 'janggi2');
+}
+
+// Soldiers never move back: Han's start on row 6, Cho's on row 3
+const SOLDIER_START_ROW = { han: 6, cho: 3 };
+
+/**
+ * Rule problems of a position, one message per problem (empty if valid)
+ */
+export function validatePosition(board: Board, isHanTurn: boolean): string[] {
+  const errors: string[] = [];
+
+  for (const isHan of [true, false]) {
+    const side = isHan ? 'Han' : 'Cho';
+    const counts: Record<number, number> = {};
+
+    for (let row = 0; row < 10; row++) {
+      for (let col = 0; col < 9; col++) {
+        const piece = board[row][col];
+        if (piece === PieceType.EMPTY || (piece > 0) !== isHan) continue;
+
+        const type = Math.abs(piece);
+        counts[type] = (counts[type] ?? 0) + 1;
+
+        const pos = { row, col };
+        const inOwnPalace = inPalace(pos) && (row >= 7) === isHan;
+        if (type === PieceType.HAN_KING && !inOwnPalace) {
+          errors.push(`${side} general on ${squareName(pos)} is outside its palace`);
+        }
+        if (type === PieceType.HAN_SA && !inOwnPalace) {
+          errors.push(`${side} advisor on ${squareName(pos)} is outside its palace`);
+        }
+        if (type === PieceType.HAN_JOL && (isHan ? row > SOLDIER_START_ROW.han : row < SOLDIER_START_ROW.cho)) {
+          errors.push(`${side} soldier on ${squareName(pos)} is behind its starting rank`);
+        }
+      }
+    }
+
+    if (!counts[PieceType.HAN_KING]) {
+      errors.push(`${side} has no general`);
+    }
+    for (const [type, max] of Object.entries(MAX_PIECES)) {
+      const count = counts[Number(type)] ?? 0;
+      if (count > max) {
+        errors.push(`${side} has ${count} ${PIECE_NAMES[Number(type)]} (at most ${max})`);
+      }
+    }
+  }
+
+  // The side that just moved can't have left its general in check
+  if (errors.length === 0 && isInCheck(board, !isHanTurn)) {
+    errors.push(`${isHanTurn ? 'Cho' : 'Han'} is in check with ${isHanTurn ? 'Han' : 'Cho'} to move`);
+  }
+  return errors;
+}
+
+/**
+ * Problems with a Janggi FEN: first its layout, then the rules
+ */
+export function validateFEN(fen: string): string[] {
+  const layoutErrors = fenLayoutErrors(fen);
+  if (layoutErrors.length > 0) {
+    return layoutErrors;
+  }
+  const { board, isHanTurn } = FENToBoard(fen);
+  return validatePosition(board, isHanTurn);
+}
@@ -0,0 +1,83 @@
+/**
+ * Zobrist hashing for Janggi boards
+ *
+ * A hash is the XOR of one random key per (piece, square) plus a key when
+ * Cho is to move, so a move updates it in O(1) (see updateHash).
+ * Hashes are 52-bit numbers (two 26-bit halves) to stay exact in JS.
+ */
+
+import { Board, Move, PieceType } from './board';
+
+export type ZobristHash = number;
+
+const HALF = 2 ** 26;
+const PIECE_KINDS = 14; // 7 Han + 7 Cho
+const SQUARES = 90;
+
+// Deterministic PRNG (mulberry32), so hashes are stable between runs
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const random = createRandom(0x4a414e47); // "JANG"
+const randomKey = (): ZobristHash =>
+  Math.floor(random() * HALF) * HALF + Math.floor(random() * HALF);
+
+const PIECE_KEYS: ZobristHash[] = Array.from({ length: PIECE_KINDS * SQUARES }, randomKey);
+const CHO_TO_MOVE_KEY: ZobristHash = randomKey();
+
+function xor(a: ZobristHash, b: ZobristHash): ZobristHash {
+  const high = (Math.floor(a / HALF) ^ Math.floor(b / HALF)) >>> 0;
+  const low = ((a % HALF) ^ (b % HALF)) >>> 0;
+  return high * HALF + low;
+}
+
+function pieceKey(piece: number, row: number, col: number): ZobristHash {
+  // Han 1..7 -> 0..6, Cho -1..-7 -> 7..13
+  const kind = piece > 0 ? piece - 1 : 6 - piece;
+  return PIECE_KEYS[kind * SQUARES + row * 9 + col];
+}
+
+/**
+ * Full hash of a position
+ */
+export function hashBoard(board: Board, isHanTurn: boolean): ZobristHash {
+  let hash = isHanTurn ? 0 : CHO_TO_MOVE_KEY;
+
+  for (let row = 0; row < 10; row++) {
+    for (let col = 0; col < 9; col++) {
+      const piece = board[row][col];
+      if (piece !== PieceType.EMPTY) {
+        hash = xor(hash, pieceKey(piece, row, col));
+      }
+    }
+  }
+
+  return hash;
+}
+
+/**
+ * Hash after `move`, given the hash and board before it
+ * A pass (from === to) only changes the side to move.
+ */
+export function updateHash(hash: ZobristHash, board: Board, move: Move): ZobristHash {
+  let next = xor(hash, CHO_TO_MOVE_KEY);
+  const { from, to } = move;
+  if (from.row === to.row && from.col === to.col) return next;
+
+  const piece = board[from.row][from.col];
+  const captured = board[to.row][to.col];
+
+  next = xor(next, pieceKey(piece, from.row, from.col));
+  if (captured !== PieceType.EMPTY) {
+    next = xor(next, pieceKey(captured, to.row, to.col));
+  }
+  return xor(next, pieceKey(piece, to.row, to.col));
+}
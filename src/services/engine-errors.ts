@@ -0,0 +1,86 @@
+/**
+ * Typed errors raised by the engine clients (XBoardEngine / UciEngine)
+ *
+ * Pending engine promises reject with one of these, so callers can tell a
+ * cancelled search from a crashed or hung engine.
+ */
+
+export class EngineError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EngineError';
+  }
+}
+
+/**
+ * Search cancelled on purpose: superseded by a newer request or stop()
+ */
+export class EngineJobCancelledError extends EngineError {
+  readonly jobId: number;
+  readonly kind: string;
+
+  constructor(jobId: number, kind: string, reason: string = 'cancelled') {
+    super(`Engine job #${jobId} (${kind}) ${reason}`);
+    this.name = 'EngineJobCancelledError';
+    this.jobId = jobId;
+    this.kind = kind;
+  }
+}
+
+/**
+ * Search did not finish within its time budget
+ */
+export class EngineJobTimeoutError extends EngineError {
+  readonly jobId: number;
+  readonly kind: string;
+  readonly timeoutMs: number;
+
+  constructor(jobId: number, kind: string, timeoutMs: number) {
+    super(`Engine job #${jobId} (${kind}) timed out after ${timeoutMs}ms`);
+    this.name = 'EngineJobTimeoutError';
+    this.jobId = jobId;
+    this.kind = kind;
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Engine process is gone (exited or killed)
+ */
+export class EngineCrashedError extends EngineError {
+  constructor(detail: string = 'Engine process is no longer running') {
+    super(detail);
+    this.name = 'EngineCrashedError';
+  }
+}
+
+/**
+ * Engine process is alive but missed a heartbeat (`ping`/`pong`, `isready`/`readyok`)
+ */
+export class EngineUnresponsiveError extends EngineError {
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super(`Engine did not answer a heartbeat within ${timeoutMs}ms`);
+    this.name = 'EngineUnresponsiveError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Protocol handshake never completed (`done=1` / `uciok`)
+ */
+export class EngineStartupError extends EngineError {
+  constructor(detail: string) {
+    super(detail);
+    this.name = 'EngineStartupError';
+  }
+}
+
+/**
+ * True for jobs that were cancelled or superseded on purpose
+ * Callers normally ignore these instead of reporting them
+ */
+export function isEngineJobCancelled(error: unknown): boolean {
+  return error instanceof EngineJobCancelledError;
+}
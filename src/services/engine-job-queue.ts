@@ -0,0 +1,235 @@
+import {EngineJobCancelledError, EngineJobTimeoutError} from './engine-errors';
+
+/**
+ * Serialized job queue for one engine process
+ *
+ * The engine runs one search at a time and its output carries no request ids,
+ * so every search is a job: jobs run strictly one after another, each gets an
+ * id, and engine output is routed only to the job that is currently running.
+ */
+
+// How long a cancelled search may take to wind down before the queue moves on
+const WIND_DOWN_MS = 2000;
+
+export interface EngineSearchSpec<T> {
+  kind: string; // Shown in logs and errors, e.g. 'bestmove', 'analyze d15'
+  discardable?: boolean; // Superseded (cancelled) by any newer job, e.g. UI analysis
+  timeoutMs?: number;
+  start: () => Promise<void>; // Send the commands that start the search
+  onLine: (line: string) => T | undefined; // Return a value to finish the job
+}
+
+interface QueuedJob {
+  id: number;
+  kind: string;
+  discardable: boolean;
+  timeoutMs?: number;
+  run: () => Promise<unknown>;
+  onLine?: (line: string) => unknown;
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+  settled: boolean;
+}
+
+export class EngineJobQueue {
+  private nextId: number = 1;
+  private pending: QueuedJob[] = [];
+  private active: QueuedJob | null = null;
+  private finishActive: ((value: unknown) => void) | null = null;
+  private interrupt: () => Promise<void>;
+
+  /**
+   * @param interrupt Sends the protocol's "stop searching" command (`?` / `stop`)
+   */
+  constructor(interrupt: () => Promise<void>) {
+    this.interrupt = interrupt;
+  }
+
+  /**
+   * Queue a search; resolves with the value returned by onLine
+   */
+  search<T>(spec: EngineSearchSpec<T>): Promise<T> {
+    return this.enqueue<T>(spec.kind, spec.start, {
+      discardable: spec.discardable ?? false,
+      timeoutMs: spec.timeoutMs,
+      onLine: spec.onLine,
+    });
+  }
+
+  /**
+   * Queue a command sequence that must not interleave with searches
+   * (variant change, moves, options). Receives no engine output.
+   */
+  exclusive<T>(kind: string, run: () => Promise<T>): Promise<T> {
+    return this.enqueue<T>(kind, run, {discardable: false});
+  }
+
+  /**
+   * Cancel every queued and running search
+   * Exclusive command sequences still run
+   */
+  cancelSearches(reason: string = 'cancelled'): void {
+    this.cancelWhere((job) => job.onLine !== undefined, reason);
+  }
+
+  /**
+   * True while a job is running or waiting to run
+   */
+  isBusy(): boolean {
+    return this.active !== null || this.pending.length > 0;
+  }
+
+  /**
+   * Reject every job, running or queued, with the same error
+   * Used when the engine process is lost: nothing will ever answer them.
+   * The running job is detached so new jobs can start on a fresh process.
+   */
+  failAll(error: Error): void {
+    const jobs = this.active ? [this.active, ...this.pending] : this.pending;
+    this.pending = [];
+    this.active = null;
+    this.finishActive = null;
+    jobs.forEach((job) => this.settle(job, error));
+  }
+
+  /**
+   * Route one line of engine output to the running search
+   */
+  handleLine(line: string): void {
+    const job = this.active;
+    if (!job || !job.onLine || !this.finishActive) {
+      return;
+    }
+
+    const result = job.onLine(line);
+    if (result !== undefined) {
+      this.finishActive(result);
+    }
+  }
+
+  private enqueue<T>(
+    kind: string,
+    run: () => Promise<unknown>,
+    options: {
+      discardable: boolean;
+      timeoutMs?: number;
+      onLine?: (line: string) => unknown;
+    },
+  ): Promise<T> {
+    // A newer job makes any pending UI analysis stale
+    this.cancelWhere((job) => job.discardable, 'superseded');
+
+    return new Promise<T>((resolve, reject) => {
+      this.pending.push({
+        id: this.nextId++,
+        kind,
+        discardable: options.discardable,
+        timeoutMs: options.timeoutMs,
+        run,
+        onLine: options.onLine,
+        // The value comes from `run` / `onLine`, which search<T>/exclusive<T> type as T
+        resolve: (value) => resolve(value as T),
+        reject,
+        settled: false,
+      });
+      this.pump();
+    });
+  }
+
+  private cancelWhere(predicate: (job: QueuedJob) => boolean, reason: string): void {
+    const dropped = this.pending.filter(predicate);
+    this.pending = this.pending.filter((job) => !predicate(job));
+    dropped.forEach((job) => {
+      this.settle(job, new EngineJobCancelledError(job.id, job.kind, reason));
+    });
+
+    if (this.active && predicate(this.active)) {
+      this.cancelActive(new EngineJobCancelledError(this.active.id, this.active.kind, reason));
+    }
+  }
+
+  /**
+   * Reject the running search right away, then let the engine wind down:
+   * its final output (move/bestmove) still goes to the job and is dropped
+   */
+  private cancelActive(error: Error): void {
+    const job = this.active;
+    if (!job || job.settled) {
+      return;
+    }
+
+    console.log(error.message);
+    this.settle(job, error);
+
+    this.interrupt().catch((interruptError) => {
+      console.error('Failed to interrupt engine search:', interruptError);
+    });
+
+    // Don't block the queue forever if the engine never answers
+    const finish = this.finishActive;
+    setTimeout(() => {
+      if (this.active === job && this.finishActive === finish) {
+        finish?.(undefined);
+      }
+    }, WIND_DOWN_MS);
+  }
+
+  private settle(job: QueuedJob, error: Error | null, value?: unknown): void {
+    if (job.settled) {
+      return;
+    }
+    job.settled = true;
+    if (error) {
+      job.reject(error);
+    } else {
+      job.resolve(value);
+    }
+  }
+
+  private async pump(): Promise<void> {
+    if (this.active) {
+      return;
+    }
+    const job = this.pending.shift();
+    if (!job) {
+      return;
+    }
+
+    this.active = job;
+    const finished = job.onLine
+      ? new Promise<unknown>((resolve) => {
+          this.finishActive = resolve;
+        })
+      : null;
+
+    let timeout: ReturnType<typeof setTimeout> | null = null;
+    if (job.timeoutMs !== undefined) {
+      const timeoutMs = job.timeoutMs;
+      timeout = setTimeout(() => {
+        this.cancelActive(new EngineJobTimeoutError(job.id, job.kind, timeoutMs));
+      }, timeoutMs);
+    }
+
+    try {
+      const started = await job.run();
+      if (job.settled && finished) {
+        // Cancelled while its commands were still being sent: stop the search it just started
+        await this.interrupt();
+      }
+      const result = finished ? await finished : started;
+      this.settle(job, null, result);
+    } catch (error) {
+      this.settle(job, error instanceof Error ? error : new Error(String(error)));
+    } finally {
+      if (timeout) {
+        clearTimeout(timeout);
+      }
+      // failAll() may already have detached this job
+      if (this.active === job) {
+        this.active = null;
+        this.finishActive = null;
+      }
+      this.pump();
+    }
+  }
+}
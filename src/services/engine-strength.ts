@@ -0,0 +1,60 @@
+/**
+ * Engine strength levels shared by the XBoard and UCI engine clients
+ *
+ * GameSettings.engineStrength (1-20) maps to Fairy-Stockfish options
+ * (`Skill Level`, `UCI_LimitStrength`/`UCI_Elo`) plus per-search caps.
+ * Level 20 is the unrestricted engine.
+ */
+
+export const MIN_STRENGTH = 1;
+export const MAX_STRENGTH = 20;
+
+// Elo range spread over levels 1-19 (Fairy-Stockfish accepts UCI_Elo 500-2850)
+const MIN_ELO = 800;
+const MAX_ELO = 2600;
+
+export interface EngineStrengthSettings {
+  skillLevel: number; // `Skill Level` (0-20)
+  elo: number | null; // UCI_Elo with UCI_LimitStrength, null = unlimited
+  depth: number | null; // Search depth cap, null = none
+  nodes: number | null; // Node cap, null = none (UCI only; XBoard has no node limit)
+}
+
+/**
+ * Difficulty presets for the per-player selector
+ */
+export const STRENGTH_PRESETS: {label: string; level: number}[] = [
+  {label: 'Beginner', level: 1},
+  {label: 'Casual', level: 5},
+  {label: 'Club', level: 10},
+  {label: 'Expert', level: 15},
+  {label: 'Max', level: MAX_STRENGTH},
+];
+
+export function clampStrength(level: number): number {
+  return Math.max(MIN_STRENGTH, Math.min(MAX_STRENGTH, Math.round(level)));
+}
+
+export function strengthLabel(level: number): string {
+  const preset = STRENGTH_PRESETS.find((p) => p.level === clampStrength(level));
+  return preset ? preset.label : `Level ${clampStrength(level)}`;
+}
+
+/**
+ * Engine settings for a strength level (1-20)
+ * Low levels also cap depth and nodes so the engine stays weak even with
+ * generous think time (e.g. on the game clock)
+ */
+export function strengthSettings(level: number): EngineStrengthSettings {
+  const clamped = clampStrength(level);
+  if (clamped === MAX_STRENGTH) {
+    return {skillLevel: 20, elo: null, depth: null, nodes: null};
+  }
+
+  return {
+    skillLevel: clamped - 1,
+    elo: Math.round(MIN_ELO + ((clamped - 1) * (MAX_ELO - MIN_ELO)) / (MAX_STRENGTH - 2)),
+    depth: clamped <= 15 ? clamped + 3 : null,
+    nodes: clamped <= 10 ? 1000 * Math.pow(2, clamped) : null,
+  };
+}
@@ -0,0 +1,142 @@
+import {
+  EngineError,
+  EngineCrashedError,
+  EngineUnresponsiveError,
+} from './engine-errors';
+
+/**
+ * Engine Supervisor
+ *
+ * Watches one engine process: polls the transport for exit and sends
+ * heartbeats (`ping`/`pong` for XBoard, `isready`/`readyok` for UCI) while the
+ * engine is idle. On a crash or missed heartbeat the engine rejects its pending
+ * promises, respawns, restores variant and position, and the incident is
+ * reported to the app (toast).
+ */
+
+// How often the engine is checked
+export const HEARTBEAT_INTERVAL_MS = 3000;
+// How long a heartbeat may take before the engine counts as hung
+export const HEARTBEAT_TIMEOUT_MS = 5000;
+// Give up after this many restarts within RESTART_WINDOW_MS
+export const MAX_RESTARTS = 3;
+export const RESTART_WINDOW_MS = 60000;
+
+/**
+ * What the supervisor needs from an engine client
+ * Implemented by XBoardEngine and UciEngine
+ */
+export interface SupervisedEngine {
+  isBusy(): boolean; // Busy engines may not answer heartbeats until the search ends
+  isProcessRunning(): Promise<boolean>;
+  heartbeat(timeoutMs: number): Promise<void>; // Rejects with EngineUnresponsiveError
+  recover(error: EngineError): Promise<void>; // Fail pending work, respawn, restore state
+}
+
+export interface EngineIncident {
+  error: EngineError; // What was detected
+  recovered: boolean; // false = restart failed or restart limit reached, engine is down
+  restartError?: unknown;
+}
+
+export class EngineSupervisor {
+  private engine: SupervisedEngine;
+  private onIncident: (incident: EngineIncident) => void;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private checking: boolean = false;
+  private restartTimes: number[] = [];
+
+  constructor(
+    engine: SupervisedEngine,
+    onIncident: (incident: EngineIncident) => void,
+  ) {
+    this.engine = engine;
+    this.onIncident = onIncident;
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      this.check();
+    }, HEARTBEAT_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * One supervision pass: process alive? answers a heartbeat?
+   */
+  private async check(): Promise<void> {
+    // Skip if the previous pass (or a restart) is still running
+    if (this.checking) {
+      return;
+    }
+    this.checking = true;
+
+    try {
+      const error = await this.detectFailure();
+      if (error) {
+        await this.restart(error);
+      }
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  private async detectFailure(): Promise<EngineError | null> {
+    let running: boolean;
+    try {
+      running = await this.engine.isProcessRunning();
+    } catch (error) {
+      running = false;
+    }
+    if (!running) {
+      return new EngineCrashedError();
+    }
+
+    // Searches have their own timeouts; check the engine once it is idle again
+    if (this.engine.isBusy()) {
+      return null;
+    }
+
+    try {
+      await this.engine.heartbeat(HEARTBEAT_TIMEOUT_MS);
+      return null;
+    } catch (error) {
+      return error instanceof EngineError
+        ? error
+        : new EngineUnresponsiveError(HEARTBEAT_TIMEOUT_MS);
+    }
+  }
+
+  private async restart(error: EngineError): Promise<void> {
+    console.error(`Engine failure detected: ${error.message}`);
+
+    const now = Date.now();
+    this.restartTimes = this.restartTimes.filter((time) => now - time < RESTART_WINDOW_MS);
+    if (this.restartTimes.length >= MAX_RESTARTS) {
+      // Crash loop: stop restarting and let the app show the engine as down
+      this.stop();
+      this.onIncident({error, recovered: false});
+      return;
+    }
+    this.restartTimes.push(now);
+
+    try {
+      await this.engine.recover(error);
+      console.log('✅ Engine restarted after failure');
+      this.onIncident({error, recovered: true});
+    } catch (restartError) {
+      console.error('Engine restart failed:', restartError);
+      this.stop();
+      this.onIncident({error, recovered: false, restartError});
+    }
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Engine Transport
+ * Low-level process I/O used by NativeEngineBridge
+ *
+ * A transport knows how to start the Fairy-Stockfish process and move raw
+ * text in and out of it. It does not know anything about XBoard or UCI.
+ *
+ * Implementations:
+ * - WindowsEngineTransport: React Native Windows native module (EngineModule)
+ * - NodeEngineTransport: Node child_process (Linux dev boxes, CI, Jest, scripts)
+ */
+
+export interface EngineTransport {
+  /** Short identifier used in logs (e.g. 'windows-native', 'node-child-process') */
+  readonly name: string;
+
+  /** Whether this transport can be used in the current runtime */
+  isAvailable(): boolean;
+
+  /** Start the engine process */
+  spawn(enginePath: string): Promise<boolean>;
+
+  /** Write one command line to engine stdin (newline is added by the transport) */
+  send(command: string): Promise<boolean>;
+
+  /** Drain stdout collected since the last read ('' if nothing new) */
+  read(): Promise<string>;
+
+  /** Stop the engine process */
+  stop(): Promise<boolean>;
+
+  /** Check if the engine process is alive */
+  isRunning(): Promise<boolean>;
+
+  /** Push-style stdout listener (transports without push support may never call it) */
+  onOutput(callback: (output: string) => void): void;
+
+  /** Push-style stderr/process error listener */
+  onError(callback: (error: string) => void): void;
+
+  /** Release listeners held by the transport */
+  cleanup(): void;
+}
@@ -0,0 +1,29 @@
+import {GameVariant} from '../types/game';
+
+/**
+ * Variant metadata shared by the XBoard and UCI engine clients
+ */
+
+/**
+ * NNUE network expected for each variant
+ * Empty string = variant does not use the engine (or has no network)
+ */
+export const VARIANT_NNUE_FILES: Record<GameVariant, string> = {
+  chess: 'nn-46832cfbead3.nnue',
+  janggi: 'janggi-9991472750de.nnue',
+  janggi2: 'janggi-9991472750de.nnue', // Same as janggi
+  janggi3: '', // Standalone, doesn't use engine
+  xiangqi: 'xiangqi-nnue.nnue',
+  shogi: 'shogi-nnue.nnue',
+};
+
+/**
+ * Map app variant to the Fairy-Stockfish variant name
+ * janggi2/janggi3 are app-side renderings of the same janggi rules
+ */
+export function toEngineVariant(variant: GameVariant): string {
+  if (variant === 'janggi2' || variant === 'janggi3') {
+    return 'janggi';
+  }
+  return variant;
+}
@@ -1,54 +1,38 @@
-import {NativeModules, NativeEventEmitter, Platform} from 'react-native';
+import {EngineTransport} from './engine-transport';
+import {WindowsEngineTransport} from './windows-engine-transport';
 
 /**
  * Bridge to native chess engine module
- * Provides JavaScript interface to Windows native code
+ * Provides JavaScript interface to the engine process through a pluggable transport
+ * (Windows native module in the app, Node child_process on Linux/CI/Jest)
  */
 
-interface IEngineModule {
-  SpawnEngine(enginePath: string): Promise<boolean>;
-  SendCommand(command: string): Promise<boolean>;
-  ReadOutput(): Promise<string>;
-  StopEngine(): Promise<boolean>;
-  IsEngineRunning(): Promise<boolean>;
-}
-
-// Get the native module
-const EngineModuleNative = NativeModules.EngineModule as IEngineModule | undefined;
-
-// Debug: Log what's available
-if (__DEV__) {
-  console.log('=== Native Module Debug ===');
-  console.log('EngineModule exists:', !!EngineModuleNative);
-  if (EngineModuleNative) {
-    console.log('Available methods:', Object.keys(EngineModuleNative));
-  }
-  console.log('All native modules:', Object.keys(NativeModules));
-}
-
 /**
  * Native Engine Bridge
  * Handles communication with the native chess engine process
  */
 export class NativeEngineBridge {
-  private eventEmitter: NativeEventEmitter | null = null;
-  private onOutputCallback: ((output: string) => void) | null = null;
-  private onErrorCallback: ((error: string) => void) | null = null;
-
-  constructor() {
-    if (EngineModuleNative && Platform.OS === 'windows') {
-      // Pass null to avoid removeListeners warning
-      // Event emitter will still work with the module name
-      this.eventEmitter = new NativeEventEmitter();
-      this.setupEventListeners();
-    }
+  private transport: EngineTransport;
+
+  /**
+   * @param transport Process transport to use (defaults to the Windows native module)
+   */
+  constructor(transport: EngineTransport = new WindowsEngineTransport()) {
+    this.transport = transport;
   }
 
   /**
-   * Check if native module is available
+   * Name of the transport in use (for logs)
+   */
+  get transportName(): string {
+    return this.transport.name;
+  }
+
+  /**
+   * Check if the engine transport is available
    */
   isAvailable(): boolean {
-    return EngineModuleNative !== undefined && Platform.OS === 'windows';
+    return this.transport.isAvailable();
   }
 
   /**
@@ -56,11 +40,11 @@ export class NativeEngineBridge {
    */
   async spawnEngine(enginePath: string): Promise<boolean> {
     if (!this.isAvailable()) {
-      throw new Error('Native engine module not available');
+      throw new Error(`Engine transport '${this.transport.name}' not available`);
     }
 
     try {
-      return await EngineModuleNative!.SpawnEngine(enginePath);
+      return await this.transport.spawn(enginePath);
     } catch (error) {
       console.error('Failed to spawn engine:', error);
       throw error;
@@ -72,11 +56,11 @@ export class NativeEngineBridge {
    */
   async sendCommand(command: string): Promise<boolean> {
     if (!this.isAvailable()) {
-      throw new Error('Native engine module not available');
+      throw new Error(`Engine transport '${this.transport.name}' not available`);
     }
 
     try {
-      return await EngineModuleNative!.SendCommand(command);
+      return await this.transport.send(command);
     } catch (error) {
       console.error('Failed to send command:', error);
       throw error;
@@ -88,11 +72,11 @@ export class NativeEngineBridge {
    */
   async readOutput(): Promise<string> {
     if (!this.isAvailable()) {
-      throw new Error('Native engine module not available');
+      throw new Error(`Engine transport '${this.transport.name}' not available`);
     }
 
     try {
-      return await EngineModuleNative!.ReadOutput();
+      return await this.transport.read();
     } catch (error) {
       console.error('Failed to read output:', error);
       throw error;
@@ -104,11 +88,11 @@ export class NativeEngineBridge {
    */
   async stopEngine(): Promise<boolean> {
     if (!this.isAvailable()) {
-      throw new Error('Native engine module not available');
+      throw new Error(`Engine transport '${this.transport.name}' not available`);
     }
 
     try {
-      return await EngineModuleNative!.StopEngine();
+      return await this.transport.stop();
     } catch (error) {
       console.error('Failed to stop engine:', error);
       throw error;
@@ -124,7 +108,7 @@ export class NativeEngineBridge {
     }
 
     try {
-      return await EngineModuleNative!.IsEngineRunning();
+      return await this.transport.isRunning();
     } catch (error) {
       console.error('Failed to check engine status:', error);
       return false;
@@ -135,47 +119,21 @@ export class NativeEngineBridge {
    * Set callback for engine output
    */
   onOutput(callback: (output: string) => void): void {
-    this.onOutputCallback = callback;
+    this.transport.onOutput(callback);
   }
 
   /**
    * Set callback for engine errors
    */
   onError(callback: (error: string) => void): void {
-    this.onErrorCallback = callback;
-  }
-
-  /**
-   * Setup event listeners for native module events
-   */
-  private setupEventListeners(): void {
-    if (!this.eventEmitter) {
-      return;
-    }
-
-    // Listen for output events
-    this.eventEmitter.addListener('OnEngineOutput', (output: string) => {
-      if (this.onOutputCallback) {
-        this.onOutputCallback(output);
-      }
-    });
-
-    // Listen for error events
-    this.eventEmitter.addListener('OnEngineError', (error: string) => {
-      if (this.onErrorCallback) {
-        this.onErrorCallback(error);
-      }
-    });
+    this.transport.onError(callback);
   }
 
   /**
    * Cleanup event listeners
    */
   cleanup(): void {
-    if (this.eventEmitter) {
-      this.eventEmitter.removeAllListeners('OnEngineOutput');
-      this.eventEmitter.removeAllListeners('OnEngineError');
-    }
+    this.transport.cleanup();
   }
 }
 
@@ -0,0 +1,148 @@
+/// <reference types="node" />
+import {spawn, ChildProcessWithoutNullStreams} from 'child_process';
+import * as path from 'path';
+import {EngineTransport} from './engine-transport';
+
+/**
+ * Node child_process engine transport
+ *
+ * Runs the Linux Fairy-Stockfish binary (src/assets/engines/fairy-stockfish)
+ * as a child process. Used from Jest and Node scripts, never bundled by Metro:
+ * import it directly and pass it to `new NativeEngineBridge(transport)`.
+ */
+
+// Linux engine binary shipped in the repo
+export const DEFAULT_NODE_ENGINE_PATH = path.resolve(
+  __dirname,
+  '../assets/engines/fairy-stockfish',
+);
+
+export class NodeEngineTransport implements EngineTransport {
+  readonly name = 'node-child-process';
+  private process: ChildProcessWithoutNullStreams | null = null;
+  private stdoutBuffer: string = '';
+  private running: boolean = false;
+  private onErrorCallback: ((error: string) => void) | null = null;
+
+  isAvailable(): boolean {
+    return typeof process !== 'undefined' && !!process.versions?.node;
+  }
+
+  async spawn(enginePath: string): Promise<boolean> {
+    if (this.running) {
+      await this.stop();
+    }
+
+    const child = spawn(enginePath, [], {stdio: 'pipe'});
+    this.process = child;
+    this.stdoutBuffer = '';
+
+    child.stdout.setEncoding('utf8');
+    child.stdout.on('data', (data: string) => {
+      // Collected here and drained by read(), same as the native module
+      this.stdoutBuffer += data;
+    });
+
+    child.stderr.setEncoding('utf8');
+    child.stderr.on('data', (data: string) => {
+      this.onErrorCallback?.(data);
+    });
+
+    // Writing to an engine that died fails with EPIPE, also emitted as an
+    // 'error' event: unhandled, it would crash the Node process
+    child.stdin.on('error', (error) => {
+      this.running = false;
+      this.onErrorCallback?.(`Engine input closed: ${error.message}`);
+    });
+
+    child.on('exit', (code, signal) => {
+      this.running = false;
+      if (code !== 0 && code !== null) {
+        this.onErrorCallback?.(`Engine process exited with code ${code}`);
+      } else if (signal) {
+        this.onErrorCallback?.(`Engine process killed by ${signal}`);
+      }
+    });
+
+    // Resolve once the OS has actually started (or refused to start) the process
+    return new Promise<boolean>((resolve, reject) => {
+      child.once('spawn', () => {
+        this.running = true;
+        // Later process errors (e.g. a failed kill) go to the supervisor
+        child.on('error', (error) => {
+          this.running = false;
+          this.onErrorCallback?.(`Engine process error: ${error.message}`);
+        });
+        resolve(true);
+      });
+      child.once('error', (error) => {
+        this.running = false;
+        this.process = null;
+        reject(error);
+      });
+    });
+  }
+
+  async send(command: string): Promise<boolean> {
+    if (!this.process || !this.running) {
+      throw new Error('Engine process is not running');
+    }
+
+    const child = this.process;
+    return new Promise<boolean>((resolve, reject) => {
+      child.stdin.write(`${command}\n`, (error) => {
+        if (error) {
+          reject(error);
+        } else {
+          resolve(true);
+        }
+      });
+    });
+  }
+
+  async read(): Promise<string> {
+    const output = this.stdoutBuffer;
+    this.stdoutBuffer = '';
+    return output;
+  }
+
+  async stop(): Promise<boolean> {
+    const child = this.process;
+    if (!child) {
+      return true;
+    }
+
+    this.process = null;
+    if (!this.running) {
+      return true;
+    }
+
+    return new Promise<boolean>((resolve) => {
+      // Give the engine a moment to exit on its own after 'quit'
+      const killTimer = setTimeout(() => child.kill('SIGKILL'), 1000);
+      child.once('exit', () => {
+        clearTimeout(killTimer);
+        this.running = false;
+        resolve(true);
+      });
+      child.stdin.end();
+      child.kill('SIGTERM');
+    });
+  }
+
+  async isRunning(): Promise<boolean> {
+    return this.running;
+  }
+
+  onOutput(_callback: (output: string) => void): void {
+    // Output is pulled via read(); no push events
+  }
+
+  onError(callback: (error: string) => void): void {
+    this.onErrorCallback = callback;
+  }
+
+  cleanup(): void {
+    this.onErrorCallback = null;
+  }
+}
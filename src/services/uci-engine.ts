@@ -0,0 +1,852 @@
+import {EngineAnalysis, EngineClock, GameVariant} from '../types/game';
+import {Platform} from 'react-native';
+import {nativeEngineBridge, NativeEngineBridge} from './native-engine-bridge';
+import {VARIANT_NNUE_FILES, toEngineVariant} from './engine-variants';
+import {
+  MAX_MULTIPV,
+  AnalysisListener,
+  ANALYSIS_TIMEOUT_MS,
+  BESTMOVE_TIMEOUT_MARGIN_MS,
+  HINT_TIMEOUT_MS,
+  STARTUP_TIMEOUT_MS,
+} from './xboard-engine';
+import {EngineJobQueue} from './engine-job-queue';
+import {MAX_STRENGTH, clampStrength, strengthSettings} from './engine-strength';
+import {EngineError, EngineStartupError, EngineUnresponsiveError} from './engine-errors';
+import {SupervisedEngine} from './engine-supervisor';
+import {EQUAL_SCORE, normalizeScore, parseUciScore} from '../utils/engine-score';
+
+export interface UciEngineConfig {
+  enginePath: string;
+  variant: GameVariant;
+  bridge?: NativeEngineBridge; // Defaults to the app-wide native bridge
+  nnueDirectory?: string; // Directory holding the NNUE files; without it the engine's built-in evaluation is used
+  fileExists?: (path: string) => Promise<boolean>; // Checks NNUE files before EvalFile is set (defaults to react-native-fs)
+}
+
+// react-native-fs where it is installed; elsewhere no file is known to exist
+async function defaultFileExists(path: string): Promise<boolean> {
+  try {
+    const RNFS = require('react-native-fs');
+    return await RNFS.exists(path);
+  } catch (error) {
+    console.warn(`Can't check for ${path}:`, error);
+    return false;
+  }
+}
+
+/**
+ * One parsed `info` line from a UCI engine
+ * Fields the engine did not send are left undefined
+ */
+export interface UciInfo {
+  depth?: number;
+  seldepth?: number;
+  multipv?: number;
+  scoreCp?: number;
+  scoreMate?: number;
+  bound?: 'lowerbound' | 'upperbound';
+  nodes?: number;
+  nps?: number;
+  time?: number;
+  pv?: string[];
+  string?: string;
+}
+
+/**
+ * Parse a UCI `info ...` line
+ * Example: info depth 12 seldepth 18 multipv 1 score cp 35 nodes 120345 nps 950000 time 126 pv e2e4 e7e5
+ * Returns null for lines that are not info lines
+ */
+export function parseUciInfoLine(line: string): UciInfo | null {
+  const tokens = line.trim().split(/\s+/);
+  if (tokens[0] !== 'info') {
+    return null;
+  }
+
+  const info: UciInfo = {};
+  let i = 1;
+  while (i < tokens.length) {
+    const token = tokens[i];
+    switch (token) {
+      case 'depth':
+      case 'seldepth':
+      case 'multipv':
+      case 'nodes':
+      case 'nps':
+      case 'time':
+        info[token] = parseInt(tokens[i + 1], 10);
+        i += 2;
+        break;
+      case 'score':
+        if (tokens[i + 1] === 'cp') {
+          info.scoreCp = parseInt(tokens[i + 2], 10);
+        } else if (tokens[i + 1] === 'mate') {
+          info.scoreMate = parseInt(tokens[i + 2], 10);
+        }
+        i += 3;
+        // Optional bound marker right after the score
+        if (tokens[i] === 'lowerbound' || tokens[i] === 'upperbound') {
+          info.bound = tokens[i] as UciInfo['bound'];
+          i++;
+        }
+        break;
+      case 'pv':
+        // PV runs to the end of the line
+        info.pv = tokens.slice(i + 1);
+        i = tokens.length;
+        break;
+      case 'string':
+        info.string = tokens.slice(i + 1).join(' ');
+        i = tokens.length;
+        break;
+      default:
+        // hashfull, tbhits, wdl, currmove, ... - skip the keyword and its value
+        i += 2;
+        break;
+    }
+  }
+
+  return info;
+}
+
+/**
+ * Parse `bestmove <move> [ponder <move>]`
+ * Returns null for other lines; bestMove is '' when the engine has no move
+ */
+function parseBestMoveLine(line: string): {bestMove: string; ponder: string | null} | null {
+  if (!line.startsWith('bestmove')) {
+    return null;
+  }
+
+  const parts = line.split(/\s+/);
+  const bestMove = parts[1] && parts[1] !== '(none)' ? parts[1] : '';
+  const ponderIdx = parts.indexOf('ponder');
+  const ponder = ponderIdx >= 0 ? parts[ponderIdx + 1] || null : null;
+  return {bestMove, ponder};
+}
+
+/**
+ * Fold one `info` line into the latest line per multipv index (1-based)
+ * Scores are converted from the side to move of `fen` to White
+ * Returns false for lines without a PV
+ */
+function collectInfoLine(lines: Map<number, EngineAnalysis>, data: string, fen: string): boolean {
+  const info = parseUciInfoLine(data);
+  if (!info || !info.pv || info.pv.length === 0) {
+    return false;
+  }
+
+  const previous = lines.get(info.multipv || 1);
+  const score = parseUciScore(info.scoreCp, info.scoreMate);
+  const time = info.time ?? previous?.time ?? 0;
+  const nodes = info.nodes ?? previous?.nodes ?? 0;
+
+  lines.set(info.multipv || 1, {
+    depth: info.depth ?? previous?.depth ?? 0,
+    score: score ? normalizeScore(score, fen) : previous?.score ?? EQUAL_SCORE,
+    bestMove: info.pv[0],
+    pv: info.pv,
+    nodes,
+    nps: info.nps ?? (time > 0 ? nodes / (time / 1000) : 0),
+    time,
+  });
+  return true;
+}
+
+/**
+ * Build the EngineAnalysis snapshot (main line + ranked multipv) from collected lines
+ */
+function rankInfoLines(lines: Map<number, EngineAnalysis>): EngineAnalysis | null {
+  const ranked = Array.from(lines.keys())
+    .sort((a, b) => a - b)
+    .map(index => lines.get(index)!);
+
+  if (ranked.length === 0) {
+    return null;
+  }
+
+  const mainLine: EngineAnalysis = {...ranked[0]};
+  if (ranked.length > 1) {
+    mainLine.multipv = ranked;
+  }
+  return mainLine;
+}
+
+/**
+ * UCI Protocol Engine Interface
+ *
+ * Same surface as XBoardEngine, but speaks UCI to Fairy-Stockfish.
+ * UCI adds what XBoard can't do:
+ * - setoption (Hash, Threads, MultiPV, EvalFile, ...)
+ * - Per-variant NNUE loading via EvalFile
+ * - Structured info lines (multipv, score cp/mate, bounds)
+ */
+export class UciEngine implements SupervisedEngine {
+  private enginePath: string;
+  private variant: GameVariant;
+  private nnueDirectory?: string;
+  private fileExists: (path: string) => Promise<boolean>;
+  private isReady: boolean = false;
+  private callbacks: Map<string, (data: any) => void> = new Map();
+  private outputBuffer: string = '';
+  private outputCheckInterval: ReturnType<typeof setInterval> | null = null;
+  private bridge: NativeEngineBridge;
+  private currentFen: string | null = null;
+  private currentMoves: string[] = []; // Moves played on top of currentFen
+  private lastPonderMove: string | null = null;
+  private analysisListeners: Set<AnalysisListener> = new Set();
+  private liveAnalysisFen: string | null = null; // Position of the running `go infinite`
+  private liveSearchDone: Promise<void> | null = null; // bestmove of the running `go infinite`
+  private jobs: EngineJobQueue;
+  private multiPV: number = 1;
+  private strength: number = MAX_STRENGTH; // 1-20, see engine-strength.ts
+  private optionsStrength: number = MAX_STRENGTH; // Strength the engine's options are set to
+  private waiterCounter: number = 0;
+
+  constructor(config: UciEngineConfig) {
+    this.enginePath = config.enginePath;
+    this.variant = config.variant;
+    this.nnueDirectory = config.nnueDirectory;
+    this.fileExists = config.fileExists || defaultFileExists;
+    this.bridge = config.bridge || nativeEngineBridge;
+    // `stop` ends a UCI search early; the engine still answers with bestmove
+    this.jobs = new EngineJobQueue(() => this.sendCommand('stop'));
+
+    // Set up output listener
+    this.bridge.onOutput((data) => {
+      this.handleOutput(data);
+    });
+
+    this.bridge.onError((error) => {
+      console.error(`Engine Error: ${error}`);
+    });
+  }
+
+  async initialize(): Promise<void> {
+    console.log(`Initializing UCI Engine for ${this.variant}`);
+
+    if (!this.bridge.isAvailable()) {
+      throw new Error(
+        `Engine transport '${this.bridge.transportName}' not available. Windows desktop app or Node runtime required.`,
+      );
+    }
+
+    const absolutePath = await this.getEnginePath();
+    console.log(`Spawning engine at: ${absolutePath}`);
+
+    await this.bridge.spawnEngine(absolutePath);
+    this.startOutputPolling();
+
+    // Initialize UCI protocol
+    const uciOk = this.waitFor('uciok', STARTUP_TIMEOUT_MS).catch(() => {
+      throw new EngineStartupError(`Engine did not send 'uciok' within ${STARTUP_TIMEOUT_MS}ms`);
+    });
+    await this.sendCommand('uci');
+    await uciOk;
+
+    // Select variant and its network
+    await this.setOption('UCI_Variant', toEngineVariant(this.variant));
+    await this.loadVariantNNUE();
+    await this.waitForReady();
+
+    this.isReady = true;
+    console.log('✅ UCI Engine initialized');
+  }
+
+  async sendCommand(command: string): Promise<void> {
+    console.log(`UCI >>> ${command}`);
+
+    if (this.bridge.isAvailable()) {
+      await this.bridge.sendCommand(command);
+    } else {
+      throw new Error(`Engine transport '${this.bridge.transportName}' not available`);
+    }
+  }
+
+  /**
+   * Set a UCI option
+   * Example: setOption('MultiPV', 3), setOption('EvalFile', 'janggi-9991472750de.nnue')
+   */
+  async setOption(name: string, value: string | number | boolean): Promise<void> {
+    await this.sendCommand(`setoption name ${name} value ${value}`);
+  }
+
+  /**
+   * Limit playing strength (1-20, 20 = full strength) for getBestMove/getClockedMove
+   * Sets `Skill Level`, `UCI_LimitStrength` and `UCI_Elo` before each move search;
+   * low levels also add `depth`/`nodes` to `go`. analyze() and startAnalysis()
+   * put the options back to full strength first.
+   */
+  async setStrength(level: number): Promise<void> {
+    return this.jobs.exclusive('strength', async () => {
+      this.strength = clampStrength(level);
+    });
+  }
+
+  /**
+   * Set the engine's strength options for the next search (only sent when they change)
+   */
+  private async applyStrength(level: number): Promise<void> {
+    if (level === this.optionsStrength) {
+      return;
+    }
+    const settings = strengthSettings(level);
+    await this.setOption('Skill Level', settings.skillLevel);
+    await this.setOption('UCI_LimitStrength', settings.elo !== null);
+    if (settings.elo !== null) {
+      await this.setOption('UCI_Elo', settings.elo);
+    }
+    this.optionsStrength = level;
+  }
+
+  /**
+   * Extra `go` limits for the current strength, e.g. " depth 8 nodes 32000"
+   */
+  private searchCaps(): string {
+    const settings = strengthSettings(this.strength);
+    return `${settings.depth !== null ? ` depth ${settings.depth}` : ''}${
+      settings.nodes !== null ? ` nodes ${settings.nodes}` : ''
+    }`;
+  }
+
+  /**
+   * Set how many candidate lines analyze() returns (1-5)
+   */
+  async setMultiPV(count: number): Promise<void> {
+    return this.jobs.exclusive('multipv', () => {
+      this.multiPV = Math.max(1, Math.min(MAX_MULTIPV, Math.round(count)));
+      return this.setOption('MultiPV', this.multiPV);
+    });
+  }
+
+  /**
+   * Wait until the engine has processed all previous commands
+   */
+  async waitForReady(): Promise<void> {
+    const readyOk = this.waitFor('readyok');
+    await this.sendCommand('isready');
+    await readyOk;
+  }
+
+  /**
+   * Get absolute path to engine executable
+   */
+  private async getEnginePath(): Promise<string> {
+    if (this.bridge.transportName === 'windows-native') {
+      // Windows: Same packaged engine as XBoardEngine
+      const engineName = 'fairy-stockfish-largeboard_x86-64-bmi2.exe';
+      const fullPath = `C:\\Users\\unatt\\OneDrive\\dev\\nbg\\ChessApp\\windows\\chessapp\\Assets\\engines\\${engineName}`;
+
+      console.log('Using engine path:', fullPath);
+      return fullPath;
+    } else {
+      // Other transports (Node child_process): Use the configured binary, e.g. the Linux build
+      return this.enginePath;
+    }
+  }
+
+  /**
+   * Change to a different game variant
+   */
+  async setVariant(variant: GameVariant): Promise<void> {
+    return this.jobs.exclusive('variant', async () => {
+      console.log(`Changing variant from ${this.variant} to ${variant}`);
+      await this.endLiveAnalysis();
+      this.variant = variant;
+
+      await this.setOption('UCI_Variant', toEngineVariant(variant));
+      await this.loadVariantNNUE();
+      await this.sendCommand('ucinewgame');
+      await this.waitForReady();
+
+      this.currentFen = null;
+      this.currentMoves = [];
+      console.log(`✅ Variant changed to ${variant}`);
+    });
+  }
+
+  /**
+   * Load variant-specific NNUE file via the EvalFile option
+   * Only a file that exists is set: Fairy-Stockfish exits on `go` when
+   * EvalFile can't be loaded. Without one it uses its built-in evaluation.
+   */
+  private async loadVariantNNUE(): Promise<void> {
+    const nnueFile = VARIANT_NNUE_FILES[this.variant];
+    if (!nnueFile || !this.nnueDirectory) {
+      return;
+    }
+
+    const evalFile = `${this.nnueDirectory}/${nnueFile}`;
+    if (!(await this.fileExists(evalFile))) {
+      console.warn(`NNUE file for ${this.variant} not found (${evalFile}), using the built-in evaluation`);
+      return;
+    }
+    console.log(`Loading NNUE file for ${this.variant}: ${evalFile}`);
+    await this.setOption('EvalFile', evalFile);
+  }
+
+  /**
+   * Start polling for engine output
+   */
+  private startOutputPolling(): void {
+    this.outputCheckInterval = setInterval(async () => {
+      try {
+        const output = await this.bridge.readOutput();
+        if (output) {
+          this.handleOutput(output);
+        }
+      } catch (error) {
+        console.error('Error reading engine output:', error);
+      }
+    }, 50); // Poll every 50ms
+  }
+
+  async newGame(): Promise<void> {
+    return this.jobs.exclusive('new game', async () => {
+      await this.endLiveAnalysis();
+      this.currentFen = null;
+      this.currentMoves = [];
+      this.lastPonderMove = null;
+      await this.sendCommand('ucinewgame');
+      await this.waitForReady();
+    });
+  }
+
+  async setPosition(fen: string): Promise<void> {
+    return this.jobs.exclusive('position', () => this.loadPosition(fen));
+  }
+
+  private async loadPosition(fen: string): Promise<void> {
+    this.currentFen = fen;
+    this.currentMoves = [];
+    this.lastPonderMove = null;
+    await this.sendCommand(`position fen ${fen}`);
+  }
+
+  /**
+   * Search a position for a fixed time and return the engine's move
+   * Runs as a queued job: it never sees output meant for another search
+   */
+  async getBestMove(
+    fen: string,
+    timeMs: number = 1000,
+    timeoutMs: number = timeMs + BESTMOVE_TIMEOUT_MARGIN_MS,
+  ): Promise<string> {
+    return this.jobs.search<string>({
+      kind: 'bestmove',
+      timeoutMs,
+      start: async () => {
+        await this.endLiveAnalysis(); // A fixed search ends any live analysis session
+        await this.loadPosition(fen);
+        await this.applyStrength(this.strength);
+        await this.sendCommand(`go movetime ${Math.max(1, Math.round(timeMs))}${this.searchCaps()}`);
+      },
+      onLine: (data) => {
+        const result = parseBestMoveLine(data);
+        if (!result) {
+          return undefined;
+        }
+        // Ponder move is the expected reply to bestMove, i.e. the hint once bestMove is played
+        this.lastPonderMove = result.ponder;
+        return result.bestMove;
+      },
+    });
+  }
+
+  /**
+   * Search with the game clock: `go wtime btime winc binc`
+   * The engine budgets its own time like in a real game
+   */
+  async getClockedMove(
+    fen: string,
+    clock: EngineClock,
+    timeoutMs?: number,
+  ): Promise<string> {
+    const ownMs = fen.split(' ')[1] === 'b' ? clock.blackMs : clock.whiteMs;
+    const inc = Math.round(clock.incrementMs);
+
+    return this.jobs.search<string>({
+      kind: 'bestmove (clock)',
+      timeoutMs: timeoutMs ?? ownMs + clock.incrementMs + BESTMOVE_TIMEOUT_MARGIN_MS,
+      start: async () => {
+        await this.endLiveAnalysis(); // A fixed search ends any live analysis session
+        await this.loadPosition(fen);
+        await this.applyStrength(this.strength);
+        await this.sendCommand(
+          `go wtime ${Math.round(clock.whiteMs)} btime ${Math.round(clock.blackMs)} winc ${inc} binc ${inc}${this.searchCaps()}`,
+        );
+      },
+      onLine: (data) => {
+        const result = parseBestMoveLine(data);
+        if (!result) {
+          return undefined;
+        }
+        this.lastPonderMove = result.ponder;
+        return result.bestMove;
+      },
+    });
+  }
+
+  /**
+   * Fixed-depth analysis for the UI
+   * Discardable: any newer engine request supersedes it, and the returned
+   * promise rejects with EngineJobCancelledError (see isEngineJobCancelled)
+   */
+  async analyze(
+    fen: string,
+    depth: number = 20,
+    timeoutMs: number = ANALYSIS_TIMEOUT_MS,
+  ): Promise<EngineAnalysis> {
+    // Latest info per multipv index (1-based)
+    const lines = new Map<number, EngineAnalysis>();
+
+    return this.jobs.search<EngineAnalysis>({
+      kind: `analyze d${depth}`,
+      discardable: true,
+      timeoutMs,
+      start: async () => {
+        await this.endLiveAnalysis(); // A fixed search ends any live analysis session
+        await this.loadPosition(fen);
+        await this.applyStrength(MAX_STRENGTH);
+        await this.sendCommand(`go depth ${depth}`);
+      },
+      onLine: (data) => {
+        if (collectInfoLine(lines, data, fen)) {
+          return undefined;
+        }
+        const result = parseBestMoveLine(data);
+        if (!result) {
+          return undefined;
+        }
+        this.lastPonderMove = result.ponder;
+
+        const mainLine = rankInfoLines(lines) || {
+          depth: 0,
+          score: EQUAL_SCORE,
+          bestMove: '',
+          pv: [],
+          nodes: 0,
+          nps: 0,
+          time: 0,
+        };
+
+        // The PV's first move is the line shown; bestmove only fills in a missing PV
+        if (result.bestMove && !mainLine.bestMove) {
+          mainLine.bestMove = result.bestMove;
+          mainLine.pv = [result.bestMove];
+        }
+
+        return mainLine;
+      },
+    });
+  }
+
+  /**
+   * Subscribe to live snapshots from startAnalysis()
+   * Returns an unsubscribe function
+   */
+  subscribeAnalysis(listener: AnalysisListener): () => void {
+    this.analysisListeners.add(listener);
+    return () => {
+      this.analysisListeners.delete(listener);
+    };
+  }
+
+  isAnalysisRunning(): boolean {
+    return this.liveAnalysisFen !== null;
+  }
+
+  /**
+   * Start (or re-target) infinite analysis of a position
+   *
+   * Runs `go infinite` and pushes a ranked snapshot to subscribers on every
+   * info line. Calling again while running stops the search, waits for its
+   * bestmove and restarts on the new FEN without respawning the engine.
+   */
+  async startAnalysis(fen: string): Promise<void> {
+    return this.jobs.exclusive('live analysis', () => this.beginLiveAnalysis(fen));
+  }
+
+  private async beginLiveAnalysis(fen: string): Promise<void> {
+    if (this.liveAnalysisFen === fen) {
+      return;
+    }
+
+    await this.endLiveAnalysis();
+    this.liveAnalysisFen = fen;
+
+    const lines = new Map<number, EngineAnalysis>();
+    this.callbacks.set('info-stream', (data: string) => {
+      if (collectInfoLine(lines, data, fen)) {
+        const snapshot = rankInfoLines(lines)!;
+        this.analysisListeners.forEach((listener) => listener(snapshot, fen));
+      }
+    });
+
+    await this.loadPosition(fen);
+    await this.applyStrength(MAX_STRENGTH);
+    this.liveSearchDone = new Promise<void>((resolve) => {
+      this.callbacks.set('live-bestmove', (data: string) => {
+        if (parseBestMoveLine(data)) {
+          this.callbacks.delete('live-bestmove');
+          resolve();
+        }
+      });
+    });
+    await this.sendCommand('go infinite');
+  }
+
+  /**
+   * Stop infinite analysis; subscribers stay registered for the next session
+   */
+  async stopAnalysis(): Promise<void> {
+    return this.jobs.exclusive('live analysis', () => this.endLiveAnalysis());
+  }
+
+  /**
+   * Send `stop` to the running `go infinite` and swallow its bestmove
+   */
+  private async endLiveAnalysis(): Promise<void> {
+    if (this.liveAnalysisFen === null) {
+      return;
+    }
+
+    this.liveAnalysisFen = null;
+    this.callbacks.delete('info-stream');
+
+    const done = this.liveSearchDone;
+    this.liveSearchDone = null;
+    await this.sendCommand('stop');
+    await done;
+  }
+
+  async makeMove(move: string): Promise<void> {
+    return this.jobs.exclusive('move', async () => {
+      // UCI is stateless between searches: replay the moves on top of the last position
+      if (this.currentFen) {
+        this.currentMoves.push(move);
+        this.lastPonderMove = null;
+        await this.sendCommand(
+          `position fen ${this.currentFen} moves ${this.currentMoves.join(' ')}`,
+        );
+      }
+    });
+  }
+
+  /**
+   * Take back `plies` moves; `fen` is the position after the takeback
+   * UCI has no undo: the shortened move list is sent again, or `fen` when
+   * the moves were not sent with makeMove
+   */
+  async takeBack(plies: number, fen: string): Promise<void> {
+    return this.jobs.exclusive('takeback', async () => {
+      await this.endLiveAnalysis();
+      if (!this.currentFen || plies > this.currentMoves.length) {
+        await this.loadPosition(fen);
+        return;
+      }
+
+      this.currentMoves.splice(this.currentMoves.length - plies);
+      this.lastPonderMove = null;
+      const moves = this.currentMoves.length > 0 ? ` moves ${this.currentMoves.join(' ')}` : '';
+      await this.sendCommand(`position fen ${this.currentFen}${moves}`);
+    });
+  }
+
+  /**
+   * UCI has no hint command: use the ponder move from the last search,
+   * otherwise run a short search on the current position
+   */
+  async hint(timeoutMs: number = HINT_TIMEOUT_MS): Promise<string> {
+    if (this.lastPonderMove) {
+      return this.lastPonderMove;
+    }
+    if (!this.currentFen) {
+      return '';
+    }
+
+    return this.jobs.search<string>({
+      kind: 'hint',
+      timeoutMs,
+      start: async () => {
+        await this.endLiveAnalysis(); // `go` would wait behind a running `go infinite`
+        await this.sendCommand('go movetime 500');
+      },
+      onLine: (data) => parseBestMoveLine(data)?.bestMove,
+    });
+  }
+
+  /**
+   * Wait for an exact line (uciok, readyok)
+   * Each waiter gets its own key, so a heartbeat can overlap a command sequence
+   */
+  private waitFor(token: string, timeoutMs?: number): Promise<void> {
+    const key = `${token}-${++this.waiterCounter}`;
+
+    return new Promise((resolve, reject) => {
+      const timer = timeoutMs !== undefined
+        ? setTimeout(() => {
+            this.callbacks.delete(key);
+            reject(new EngineUnresponsiveError(timeoutMs));
+          }, timeoutMs)
+        : null;
+
+      const callback = (data: string) => {
+        if (data === token) {
+          if (timer) {
+            clearTimeout(timer);
+          }
+          this.callbacks.delete(key);
+          resolve();
+        }
+      };
+      this.callbacks.set(key, callback);
+    });
+  }
+
+  /**
+   * Supervisor hooks (see EngineSupervisor)
+   * UCI engines must answer isready even mid-search, so heartbeats always run
+   */
+  isBusy(): boolean {
+    return false;
+  }
+
+  async isProcessRunning(): Promise<boolean> {
+    return this.bridge.isEngineRunning();
+  }
+
+  async heartbeat(timeoutMs: number): Promise<void> {
+    const readyOk = this.waitFor('readyok', timeoutMs);
+    await this.sendCommand('isready');
+    await readyOk;
+  }
+
+  /**
+   * Respawn after a crash or hang and put the engine back where it was:
+   * variant, MultiPV, position (plus moves) and any live analysis session
+   */
+  async recover(error: EngineError): Promise<void> {
+    console.log(`Restarting UCI engine: ${error.message}`);
+    this.jobs.failAll(error);
+
+    // Queued ahead of any job retried after the failure: those run on the new
+    // process once the handshake and the restore are done
+    return this.jobs.exclusive('recover', async () => {
+      const fen = this.currentFen;
+      const moves = [...this.currentMoves];
+      const liveFen = this.liveAnalysisFen;
+
+      // Tear down the old process; it may already be gone
+      this.isReady = false;
+      this.liveAnalysisFen = null;
+      this.liveSearchDone = null;
+      this.optionsStrength = MAX_STRENGTH;
+      this.callbacks.clear();
+      this.outputBuffer = '';
+      if (this.outputCheckInterval) {
+        clearInterval(this.outputCheckInterval);
+        this.outputCheckInterval = null;
+      }
+      try {
+        await this.bridge.stopEngine();
+      } catch (stopError) {
+        console.error('Error stopping failed engine:', stopError);
+      }
+
+      await this.initialize();
+
+      if (this.multiPV > 1) {
+        await this.setOption('MultiPV', this.multiPV);
+      }
+      if (fen) {
+        this.currentFen = fen;
+        this.currentMoves = moves;
+        await this.sendCommand(
+          moves.length > 0 ? `position fen ${fen} moves ${moves.join(' ')}` : `position fen ${fen}`,
+        );
+      }
+      if (liveFen) {
+        await this.beginLiveAnalysis(liveFen);
+      }
+    });
+  }
+
+  /**
+   * Cancel every queued and running search (`stop` interrupts the one thinking)
+   * Their promises reject with EngineJobCancelledError
+   */
+  async stop(): Promise<void> {
+    this.jobs.cancelSearches();
+  }
+
+  async quit(): Promise<void> {
+    // Drop pending searches and any live analysis session
+    this.jobs.cancelSearches('engine shut down');
+    this.liveAnalysisFen = null;
+    this.liveSearchDone = null;
+    this.analysisListeners.clear();
+
+    // Stop output polling
+    if (this.outputCheckInterval) {
+      clearInterval(this.outputCheckInterval);
+      this.outputCheckInterval = null;
+    }
+
+    await this.sendCommand('quit');
+
+    // Stop the engine process
+    if (this.bridge.isAvailable()) {
+      await this.bridge.stopEngine();
+    }
+
+    // Cleanup
+    this.bridge.cleanup();
+    this.isReady = false;
+    console.log('✅ UCI Engine shut down');
+  }
+
+  // Handle output from engine
+  handleOutput(data: string): void {
+    this.outputBuffer += data;
+    const lines = this.outputBuffer.split('\n');
+    this.outputBuffer = lines.pop() || '';
+
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (trimmed) {
+        console.log(`UCI <<< ${trimmed}`);
+        this.callbacks.forEach((callback) => callback(trimmed));
+        this.jobs.handleLine(trimmed);
+      }
+    }
+  }
+}
+
+/**
+ * Factory function to create UCI engine instance
+ * Accepts the same transport options as createXBoardEngine
+ */
+export async function createUciEngine(
+  variant: GameVariant = 'chess',
+  options: Partial<Omit<UciEngineConfig, 'variant'>> = {},
+): Promise<UciEngine> {
+  const enginePath = Platform.select({
+    windows: 'fairy-stockfish-largeboard_x86-64-bmi2.exe',
+    android: 'fairy-stockfish',
+    ios: 'fairy-stockfish',
+    default: 'fairy-stockfish',
+  }) || 'fairy-stockfish';
+
+  const engine = new UciEngine({
+    enginePath: options.enginePath || enginePath,
+    variant,
+    bridge: options.bridge,
+    nnueDirectory: options.nnueDirectory,
+    fileExists: options.fileExists,
+  });
+
+  await engine.initialize();
+  return engine;
+}
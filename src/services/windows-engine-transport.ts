@@ -0,0 +1,106 @@
+import {NativeModules, NativeEventEmitter, Platform} from 'react-native';
+import {EngineTransport} from './engine-transport';
+
+/**
+ * Windows native engine transport
+ * Talks to the EngineModule native module (windows/chessapp/EngineModule.cpp)
+ */
+
+interface IEngineModule {
+  SpawnEngine(enginePath: string): Promise<boolean>;
+  SendCommand(command: string): Promise<boolean>;
+  ReadOutput(): Promise<string>;
+  StopEngine(): Promise<boolean>;
+  IsEngineRunning(): Promise<boolean>;
+}
+
+// Get the native module
+const EngineModuleNative = NativeModules.EngineModule as IEngineModule | undefined;
+
+// Debug: Log what's available
+if (__DEV__) {
+  console.log('=== Native Module Debug ===');
+  console.log('EngineModule exists:', !!EngineModuleNative);
+  if (EngineModuleNative) {
+    console.log('Available methods:', Object.keys(EngineModuleNative));
+  }
+  console.log('All native modules:', Object.keys(NativeModules));
+}
+
+export class WindowsEngineTransport implements EngineTransport {
+  readonly name = 'windows-native';
+  private eventEmitter: NativeEventEmitter | null = null;
+  private onOutputCallback: ((output: string) => void) | null = null;
+  private onErrorCallback: ((error: string) => void) | null = null;
+
+  constructor() {
+    if (this.isAvailable()) {
+      // Pass null to avoid removeListeners warning
+      // Event emitter will still work with the module name
+      this.eventEmitter = new NativeEventEmitter();
+      this.setupEventListeners();
+    }
+  }
+
+  isAvailable(): boolean {
+    return EngineModuleNative !== undefined && Platform.OS === 'windows';
+  }
+
+  async spawn(enginePath: string): Promise<boolean> {
+    return EngineModuleNative!.SpawnEngine(enginePath);
+  }
+
+  async send(command: string): Promise<boolean> {
+    return EngineModuleNative!.SendCommand(command);
+  }
+
+  async read(): Promise<string> {
+    return EngineModuleNative!.ReadOutput();
+  }
+
+  async stop(): Promise<boolean> {
+    return EngineModuleNative!.StopEngine();
+  }
+
+  async isRunning(): Promise<boolean> {
+    return EngineModuleNative!.IsEngineRunning();
+  }
+
+  onOutput(callback: (output: string) => void): void {
+    this.onOutputCallback = callback;
+  }
+
+  onError(callback: (error: string) => void): void {
+    this.onErrorCallback = callback;
+  }
+
+  /**
+   * Setup event listeners for native module events
+   */
+  private setupEventListeners(): void {
+    if (!this.eventEmitter) {
+      return;
+    }
+
+    // Listen for output events
+    this.eventEmitter.addListener('OnEngineOutput', (output: string) => {
+      if (this.onOutputCallback) {
+        this.onOutputCallback(output);
+      }
+    });
+
+    // Listen for error events
+    this.eventEmitter.addListener('OnEngineError', (error: string) => {
+      if (this.onErrorCallback) {
+        this.onErrorCallback(error);
+      }
+    });
+  }
+
+  cleanup(): void {
+    if (this.eventEmitter) {
+      this.eventEmitter.removeAllListeners('OnEngineOutput');
+      this.eventEmitter.removeAllListeners('OnEngineError');
+    }
+  }
+}
@@ -1,10 +1,34 @@
-import {EngineAnalysis, GameVariant} from '../types/game';
+import {EngineAnalysis, EngineClock, GameVariant} from '../types/game';
 import {Platform} from 'react-native';
-import {nativeEngineBridge} from './native-engine-bridge';
+import {nativeEngineBridge, NativeEngineBridge} from './native-engine-bridge';
+import {VARIANT_NNUE_FILES, toEngineVariant} from './engine-variants';
+import {EngineJobQueue} from './engine-job-queue';
+import {MAX_STRENGTH, clampStrength, strengthSettings} from './engine-strength';
+import {EngineError, EngineStartupError, EngineUnresponsiveError} from './engine-errors';
+import {SupervisedEngine} from './engine-supervisor';
+import {convertMove, isMoveToken} from '../utils/move-notation';
+import {EQUAL_SCORE, normalizeScore, parseXBoardScore} from '../utils/engine-score';
+
+// Upper bound for candidate lines shown in the analysis panel
+export const MAX_MULTIPV = 5;
+
+// Job timeouts: move searches get their think time plus this margin
+export const BESTMOVE_TIMEOUT_MARGIN_MS = 5000;
+export const ANALYSIS_TIMEOUT_MS = 60000;
+export const HINT_TIMEOUT_MS = 5000;
+// Protocol handshake (`done=1` / `uciok`) must finish within this time
+export const STARTUP_TIMEOUT_MS = 10000;
+
+/**
+ * Receives live snapshots from an infinite analysis session
+ * `fen` is the position the snapshot belongs to
+ */
+export type AnalysisListener = (analysis: EngineAnalysis, fen: string) => void;
 
 export interface XBoardEngineConfig {
   enginePath: string;
   variant: GameVariant;
+  bridge?: NativeEngineBridge; // Defaults to the app-wide native bridge
 }
 
 /**
@@ -17,24 +41,38 @@ export interface XBoardEngineConfig {
  * - Evaluation: NNUE (local neural network)
  * - NO AI APIs needed!
  */
-export class XBoardEngine {
+export class XBoardEngine implements SupervisedEngine {
   private enginePath: string;
   private variant: GameVariant;
   private isReady: boolean = false;
   private callbacks: Map<string, (data: any) => void> = new Map();
   private outputBuffer: string = '';
   private outputCheckInterval: ReturnType<typeof setInterval> | null = null;
+  private bridge: NativeEngineBridge;
+  private multiPV: number = 1;
+  private strength: number = MAX_STRENGTH; // 1-20, see engine-strength.ts
+  private optionsStrength: number = MAX_STRENGTH; // Strength the engine's options are set to
+  private analysisListeners: Set<AnalysisListener> = new Set();
+  private liveAnalysisFen: string | null = null; // Position of the running infinite analysis
+  private pingCounter: number = 0;
+  private jobs: EngineJobQueue;
+  private positionFen: string | null = null; // Last position sent, restored after a restart
+  private positionMoves: string[] = []; // Moves played on top of positionFen (XBoard notation)
+  private depthLimit: number = 0; // Last `sd` sent, 0 = none
 
   constructor(config: XBoardEngineConfig) {
     this.enginePath = config.enginePath;
     this.variant = config.variant;
+    this.bridge = config.bridge || nativeEngineBridge;
+    // `?` makes a thinking XBoard engine move now, which ends the job
+    this.jobs = new EngineJobQueue(() => this.sendCommand('?'));
 
     // Set up output listener
-    nativeEngineBridge.onOutput((data) => {
+    this.bridge.onOutput((data) => {
       this.handleOutput(data);
     });
 
-    nativeEngineBridge.onError((error) => {
+    this.bridge.onError((error) => {
       console.error(`Engine Error: ${error}`);
     });
   }
@@ -42,10 +80,10 @@ export class XBoardEngine {
   async initialize(): Promise<void> {
     console.log(`Initializing XBoard Engine for ${this.variant}`);
 
-    // Check if native bridge is available (Windows only for now)
-    if (!nativeEngineBridge.isAvailable()) {
+    // Check if the engine transport is available (Windows native module or Node child_process)
+    if (!this.bridge.isAvailable()) {
       throw new Error(
-        'Native engine bridge not available. Windows desktop app required.',
+        `Engine transport '${this.bridge.transportName}' not available. Windows desktop app or Node runtime required.`,
       );
     }
 
@@ -54,19 +92,20 @@ export class XBoardEngine {
     console.log(`Spawning engine at: ${absolutePath}`);
 
     // Spawn the engine process
-    await nativeEngineBridge.spawnEngine(absolutePath);
+    await this.bridge.spawnEngine(absolutePath);
 
     // Start polling for output
     this.startOutputPolling();
 
     // Initialize XBoard protocol
     await this.sendCommand('xboard');
+    const featuresDone = this.waitForFeature('done=1', STARTUP_TIMEOUT_MS);
     await this.sendCommand('protover 2');
-    await this.waitForFeature('done=1');
+    await featuresDone;
 
     // Set variant if not standard chess
     if (this.variant !== 'chess') {
-      await this.sendCommand(`variant ${this.variant}`);
+      await this.sendCommand(`variant ${toEngineVariant(this.variant)}`);
 
       // Load variant-specific NNUE file
       await this.loadVariantNNUE();
@@ -82,10 +121,10 @@ export class XBoardEngine {
   async sendCommand(command: string): Promise<void> {
     console.log(`XBoard >>> ${command}`);
 
-    if (nativeEngineBridge.isAvailable()) {
-      await nativeEngineBridge.sendCommand(command);
+    if (this.bridge.isAvailable()) {
+      await this.bridge.sendCommand(command);
     } else {
-      throw new Error('Native engine bridge not available');
+      throw new Error(`Engine transport '${this.bridge.transportName}' not available`);
     }
   }
 
@@ -93,7 +132,7 @@ export class XBoardEngine {
    * Get absolute path to engine executable
    */
   private async getEnginePath(): Promise<string> {
-    if (Platform.OS === 'windows') {
+    if (this.bridge.transportName === 'windows-native') {
       // Windows: Get the full path to the engine in the app package
       // In Debug mode, this is in the project directory
       // In Release mode, this is in the installed package
@@ -105,7 +144,7 @@ export class XBoardEngine {
       console.log('Using engine path:', fullPath);
       return fullPath;
     } else {
-      // Other platforms: Use the Linux binary
+      // Other transports (Node child_process): Use the configured binary, e.g. the Linux build
       return this.enginePath;
     }
   }
@@ -114,20 +153,23 @@ export class XBoardEngine {
    * Change to a different game variant
    */
   async setVariant(variant: GameVariant): Promise<void> {
-    console.log(`Changing variant from ${this.variant} to ${variant}`);
-    this.variant = variant;
-
-    // Send variant command to engine
-    if (variant !== 'chess') {
-      await this.sendCommand(`variant ${variant}`);
-    } else {
-      await this.sendCommand('variant normal');
-    }
+    return this.jobs.exclusive('variant', async () => {
+      console.log(`Changing variant from ${this.variant} to ${variant}`);
+      await this.endLiveAnalysis();
+      this.variant = variant;
+
+      // Send variant command to engine
+      if (variant !== 'chess') {
+        await this.sendCommand(`variant ${toEngineVariant(variant)}`);
+      } else {
+        await this.sendCommand('variant normal');
+      }
 
-    // Load variant-specific NNUE file
-    await this.loadVariantNNUE();
+      // Load variant-specific NNUE file
+      await this.loadVariantNNUE();
 
-    console.log(`✅ Variant changed to ${variant}`);
+      console.log(`✅ Variant changed to ${variant}`);
+    });
   }
 
   /**
@@ -135,22 +177,14 @@ export class XBoardEngine {
    *
    * NOTE: XBoard protocol doesn't support runtime NNUE loading via commands.
    * Fairy-Stockfish should automatically load the correct NNUE file for each variant
-   * from the engines directory. If not, NNUE must be specified via command-line args.
+   * from the engines directory. If not, NNUE must be specified via command-line args,
+   * or use UciEngine, which loads EvalFile per variant with setoption.
    */
   private async loadVariantNNUE(): Promise<void> {
     // XBoard doesn't support setoption command (that's UCI)
     // Fairy-Stockfish should auto-load NNUE files for variants
     // Just log what we expect the engine to use
-    const nnueFiles: Record<GameVariant, string> = {
-      chess: 'nn-46832cfbead3.nnue',
-      janggi: 'janggi-9991472750de.nnue',
-      janggi2: 'janggi-9991472750de.nnue', // Same as janggi
-      janggi3: '', // Standalone, doesn't use engine
-      xiangqi: 'xiangqi-nnue.nnue',
-      shogi: 'shogi-nnue.nnue',
-    };
-
-    const nnueFile = nnueFiles[this.variant];
+    const nnueFile = VARIANT_NNUE_FILES[this.variant];
     if (nnueFile) {
       console.log(`Expected NNUE file for ${this.variant}: ${nnueFile}`);
       console.log(`(Fairy-Stockfish should load this automatically)`);
@@ -163,7 +197,7 @@ export class XBoardEngine {
   private startOutputPolling(): void {
     this.outputCheckInterval = setInterval(async () => {
       try {
-        const output = await nativeEngineBridge.readOutput();
+        const output = await this.bridge.readOutput();
         if (output) {
           this.handleOutput(output);
         }
@@ -174,116 +208,494 @@ export class XBoardEngine {
   }
 
   async newGame(): Promise<void> {
-    this.sendCommand('new');
-    this.sendCommand('force'); // Enter force mode to set up position
+    return this.jobs.exclusive('new game', async () => {
+      await this.endLiveAnalysis();
+      this.positionFen = null;
+      this.positionMoves = [];
+      await this.sendCommand('new');
+      await this.sendCommand('force'); // Enter force mode to set up position
+    });
   }
 
   async setPosition(fen: string): Promise<void> {
-    this.sendCommand('force');
-    this.sendCommand(`setboard ${fen}`);
+    return this.jobs.exclusive('position', () => this.loadPosition(fen));
   }
 
-  async getBestMove(fen: string, timeMs: number = 1000): Promise<string> {
-    await this.setPosition(fen);
+  private async loadPosition(fen: string): Promise<void> {
+    this.positionFen = fen;
+    this.positionMoves = [];
+    await this.sendCommand('force');
+    await this.sendCommand(`setboard ${fen}`);
+  }
 
-    return new Promise((resolve) => {
-      const callback = (data: string) => {
-        // XBoard sends moves as "move e2e4"
-        if (data.startsWith('move ')) {
-          const move = data.substring(5).trim();
-          this.callbacks.delete('move');
-          resolve(move);
-        }
-      };
+  /**
+   * Search a position for a fixed time and return the engine's move
+   * Runs as a queued job: it never sees output meant for another search
+   * `st` takes whole seconds, so the time is rounded up to at least one second
+   */
+  async getBestMove(
+    fen: string,
+    timeMs: number = 1000,
+    timeoutMs?: number,
+  ): Promise<string> {
+    const seconds = Math.max(1, Math.ceil(timeMs / 1000));
+    return this.jobs.search<string>({
+      kind: 'bestmove',
+      timeoutMs: timeoutMs ?? seconds * 1000 + BESTMOVE_TIMEOUT_MARGIN_MS,
+      start: async () => {
+        await this.endLiveAnalysis(); // A fixed search ends any live analysis session
+        await this.loadPosition(fen);
+        await this.applyStrength(this.strength);
+        // Set time control and start thinking
+        await this.sendCommand(`st ${seconds}`); // Set time in seconds
+        await this.sendDepthCap();
+        await this.sendCommand('go'); // Start thinking
+      },
+      // XBoard sends moves as "move e2e4"
+      onLine: (data) => this.parseMoveLine(data),
+    });
+  }
+
+  /**
+   * Search with the game clock: the engine budgets its own time like in a real game
+   * Sends `st 0` and `level 0 <base> <inc>`, then `time` (own clock) and `otim`
+   * (opponent's) in centiseconds before `go`. The engine plays the side to move in `fen`.
+   */
+  async getClockedMove(
+    fen: string,
+    clock: EngineClock,
+    timeoutMs?: number,
+  ): Promise<string> {
+    const whiteToMove = fen.split(' ')[1] !== 'b';
+    const ownMs = whiteToMove ? clock.whiteMs : clock.blackMs;
+    const otherMs = whiteToMove ? clock.blackMs : clock.whiteMs;
+    const baseSeconds = Math.round(clock.baseMs / 1000);
+    const base = `${Math.floor(baseSeconds / 60)}:${String(baseSeconds % 60).padStart(2, '0')}`;
+
+    return this.jobs.search<string>({
+      kind: 'bestmove (clock)',
+      timeoutMs: timeoutMs ?? ownMs + clock.incrementMs + BESTMOVE_TIMEOUT_MARGIN_MS,
+      start: async () => {
+        await this.endLiveAnalysis(); // A fixed search ends any live analysis session
+        await this.loadPosition(fen);
+        await this.applyStrength(this.strength);
+        await this.sendCommand('st 0'); // Clear the fixed move time a getBestMove left
+        await this.sendCommand(`level 0 ${base} ${Math.round(clock.incrementMs / 1000)}`);
+        await this.sendCommand(`time ${Math.max(1, Math.floor(ownMs / 10))}`);
+        await this.sendCommand(`otim ${Math.max(1, Math.floor(otherMs / 10))}`);
+        await this.sendDepthCap();
+        await this.sendCommand('go');
+      },
+      onLine: (data) => this.parseMoveLine(data),
+    });
+  }
+
+  private parseMoveLine(data: string): string | undefined {
+    return data.startsWith('move ') ? this.fromEngineMove(data.substring(5).trim()) : undefined;
+  }
+
+  /**
+   * XBoard numbers the ranks of 10-rank boards from 0; the app uses UCI/PGN
+   * numbering (see move-notation.ts), so moves are converted both ways here
+   */
+  private fromEngineMove(move: string): string {
+    return convertMove(move, this.variant, 'xboard', 'uci');
+  }
+
+  private toEngineMove(move: string): string {
+    return convertMove(move, this.variant, 'uci', 'xboard');
+  }
+
+  /**
+   * Limit playing strength (1-20, 20 = full strength) for getBestMove/getClockedMove
+   * Sent before each move search as `option Skill Level=N`, `option UCI_LimitStrength=1`,
+   * `option UCI_Elo=N`; low levels also cap depth with `sd`. analyze() and
+   * startAnalysis() put the options back to full strength first.
+   */
+  async setStrength(level: number): Promise<void> {
+    return this.jobs.exclusive('strength', async () => {
+      this.strength = clampStrength(level);
+    });
+  }
 
-      this.callbacks.set('move', callback);
+  /**
+   * Set the engine's strength options for the next search (only sent when they change)
+   */
+  private async applyStrength(level: number): Promise<void> {
+    if (level === this.optionsStrength) {
+      return;
+    }
+    const settings = strengthSettings(level);
+    await this.sendCommand(`option Skill Level=${settings.skillLevel}`);
+    await this.sendCommand(`option UCI_LimitStrength=${settings.elo !== null ? 1 : 0}`);
+    if (settings.elo !== null) {
+      await this.sendCommand(`option UCI_Elo=${settings.elo}`);
+    }
+    this.optionsStrength = level;
+  }
 
-      // Set time control and start thinking
-      this.sendCommand(`st ${timeMs / 1000}`); // Set time in seconds
-      this.sendCommand('go'); // Start thinking
+  /**
+   * Depth limit for a move search: the strength's cap, or none
+   * `sd` is only sent when the limit changes (`sd 0` lifts a cap left by
+   * a weaker level or by analyze())
+   */
+  private async sendDepthCap(): Promise<void> {
+    await this.sendDepthLimit(strengthSettings(this.strength).depth ?? 0);
+  }
+
+  private async sendDepthLimit(depth: number): Promise<void> {
+    if (depth !== this.depthLimit) {
+      await this.sendCommand(`sd ${depth}`);
+      this.depthLimit = depth;
+    }
+  }
+
+  /**
+   * Set how many candidate lines analyze() returns (1-5)
+   * Sent as `option MultiPV=N`; Fairy-Stockfish then prints one thinking line per PV
+   */
+  async setMultiPV(count: number): Promise<void> {
+    return this.jobs.exclusive('multipv', async () => {
+      this.multiPV = Math.max(1, Math.min(MAX_MULTIPV, Math.round(count)));
+      await this.sendCommand(`option MultiPV=${this.multiPV}`);
     });
   }
 
+  /**
+   * Fixed-depth analysis for the UI
+   * Discardable: any newer engine request supersedes it, and the returned
+   * promise rejects with EngineJobCancelledError (see isEngineJobCancelled)
+   */
   async analyze(
     fen: string,
     depth: number = 20,
+    timeoutMs: number = ANALYSIS_TIMEOUT_MS,
   ): Promise<EngineAnalysis> {
-    await this.setPosition(fen);
+    let currentAnalysis: EngineAnalysis = {
+      depth: 0,
+      score: EQUAL_SCORE,
+      bestMove: '',
+      pv: [],
+      nodes: 0,
+      nps: 0,
+      time: 0,
+    };
+    const collectThinking = this.createThinkingCollector(fen);
+
+    return this.jobs.search<EngineAnalysis>({
+      kind: `analyze d${depth}`,
+      discardable: true,
+      timeoutMs,
+      start: async () => {
+        await this.endLiveAnalysis(); // A fixed search ends any live analysis session
+        await this.loadPosition(fen);
+        await this.applyStrength(MAX_STRENGTH);
+        // Set search depth and start analyzing
+        await this.sendDepthLimit(depth);
+        await this.sendCommand('go'); // Start thinking
+      },
+      onLine: (data) => {
+        const snapshot = collectThinking(data);
+        if (snapshot) {
+          currentAnalysis = snapshot;
+        }
+        return data.startsWith('move ') ? currentAnalysis : undefined;
+      },
+    });
+  }
+
+  /**
+   * Build a parser for XBoard thinking output
+   * Returns the ranked snapshot after each thinking line, null for other lines
+   * @param fen Searched position; scores are converted from its side to move to White
+   */
+  private createThinkingCollector(fen: string): (data: string) => EngineAnalysis | null {
+    // With MultiPV, each thinking output is a block of lines ranked best-first.
+    // All lines of one block share the same time and node count.
+    let block: EngineAnalysis[] = [];
+    let blockKey = '';
+    let previousBlock: EngineAnalysis[] = [];
+
+    return (data: string) => {
+      // Parse XBoard thinking output
+      // Format: ply score time nodes seldepth nps tbhits <tab> pv...
+      // Example: 12 +145 1234 567890 18 460000 0	e2e4 e7e5 g1f3
+      if (!data.match(/^\d+\s+[+-]?\d+/)) {
+        return null;
+      }
 
-    return new Promise((resolve) => {
-      let currentAnalysis: Partial<EngineAnalysis> = {
-        depth: 0,
-        score: 0,
+      const parts = data.split(/\s+/).filter(p => p.length > 0);
+      if (parts.length < 4) {
+        return null;
+      }
+
+      const line: EngineAnalysis = {
+        depth: parseInt(parts[0], 10),
+        score: normalizeScore(parseXBoardScore(parseInt(parts[1], 10)), fen),
+        time: parseInt(parts[2], 10) * 10, // Convert to ms
+        nodes: parseInt(parts[3], 10),
+        nps: 0,
         bestMove: '',
         pv: [],
-        nodes: 0,
-        nps: 0,
-        time: 0,
       };
+      line.nps = line.time > 0 ? line.nodes / (line.time / 1000) : 0;
+
+      // Filter out numeric fields, keep only moves on this variant's board
+      // (e2e4, e7e8q, a10a9, P@e5, ...)
+      const moves = parts
+        .slice(4)
+        .filter(move => isMoveToken(move, this.variant, 'xboard'))
+        .map(move => this.fromEngineMove(move));
+      line.pv = moves;
+      line.bestMove = moves[0] || '';
+
+      const key = `${parts[2]}:${parts[3]}`;
+      if (key !== blockKey || block.length >= this.multiPV) {
+        if (block.length > 0) {
+          previousBlock = block;
+        }
+        block = [];
+        blockKey = key;
+      }
+      block.push(line);
 
-      const callback = (data: string) => {
-        // Parse XBoard thinking output
-        // Format: ply score time nodes pv...
-        // Example: 12 +145 1234 567890 e2e4 e7e5 g1f3
-
-        if (data.match(/^\d+\s+[+-]?\d+/)) {
-          const parts = data.split(/\s+/).filter(p => p.length > 0);
-          if (parts.length >= 4) {
-            currentAnalysis.depth = parseInt(parts[0], 10);
-            currentAnalysis.score = parseInt(parts[1], 10);
-            currentAnalysis.time = parseInt(parts[2], 10) * 10; // Convert to ms
-            currentAnalysis.nodes = parseInt(parts[3], 10);
-            currentAnalysis.nps = currentAnalysis.nodes / (currentAnalysis.time / 1000);
-
-            // Filter out numeric fields, keep only moves (format: e2e4, g1f3, etc.)
-            const moves = parts.slice(4).filter(move =>
-              /^[a-h][1-8][a-h][1-8][qrbn]?$/.test(move)
-            );
-            currentAnalysis.pv = moves;
-            currentAnalysis.bestMove = moves[0] || '';
+      // Ranks missing from a partial block keep their previous line
+      const ranked = block.length >= previousBlock.length
+        ? block
+        : [...block, ...previousBlock.slice(block.length)];
+
+      const snapshot: EngineAnalysis = {...ranked[0]};
+      if (ranked.length > 1) {
+        snapshot.multipv = ranked;
+      }
+      return snapshot;
+    };
+  }
+
+  /**
+   * Subscribe to live snapshots from startAnalysis()
+   * Returns an unsubscribe function
+   */
+  subscribeAnalysis(listener: AnalysisListener): () => void {
+    this.analysisListeners.add(listener);
+    return () => {
+      this.analysisListeners.delete(listener);
+    };
+  }
+
+  isAnalysisRunning(): boolean {
+    return this.liveAnalysisFen !== null;
+  }
+
+  /**
+   * Start (or re-target) infinite analysis of a position
+   *
+   * Uses XBoard analyze mode: the engine searches until `exit` and posts
+   * thinking output as it deepens; every line is pushed to subscribers.
+   * Calling again while running switches to the new FEN on the same process.
+   */
+  async startAnalysis(fen: string): Promise<void> {
+    return this.jobs.exclusive('live analysis', () => this.beginLiveAnalysis(fen));
+  }
+
+  private async beginLiveAnalysis(fen: string): Promise<void> {
+    if (this.liveAnalysisFen === fen) {
+      return;
+    }
+
+    if (this.liveAnalysisFen !== null) {
+      // Output of the old search is flushed before the engine answers the ping
+      this.callbacks.delete('analysis-stream');
+      await this.sendCommand('exit');
+      await this.waitForPong();
+    }
+    this.liveAnalysisFen = fen;
+
+    const collectThinking = this.createThinkingCollector(fen);
+    this.callbacks.set('analysis-stream', (data: string) => {
+      const snapshot = collectThinking(data);
+      if (snapshot && snapshot.pv.length > 0) {
+        this.analysisListeners.forEach((listener) => listener(snapshot, fen));
+      }
+    });
+
+    await this.loadPosition(fen);
+    await this.applyStrength(MAX_STRENGTH);
+    await this.sendCommand('analyze');
+  }
+
+  /**
+   * Leave analyze mode; subscribers stay registered for the next session
+   */
+  async stopAnalysis(): Promise<void> {
+    return this.jobs.exclusive('live analysis', () => this.endLiveAnalysis());
+  }
+
+  private async endLiveAnalysis(): Promise<void> {
+    if (this.liveAnalysisFen === null) {
+      return;
+    }
+
+    // As when re-targeting: the old search's output is flushed before the pong,
+    // so none of it reaches the next job's collector
+    this.liveAnalysisFen = null;
+    this.callbacks.delete('analysis-stream');
+    await this.sendCommand('exit');
+    await this.waitForPong();
+  }
+
+  /**
+   * Send `ping N` and wait for the matching `pong N`
+   * The engine answers only after it has finished processing earlier commands
+   */
+  private async waitForPong(timeoutMs?: number): Promise<void> {
+    const id = ++this.pingCounter;
+    const key = `pong-${id}`;
+
+    const pong = new Promise<void>((resolve, reject) => {
+      const timer = timeoutMs !== undefined
+        ? setTimeout(() => {
+            this.callbacks.delete(key);
+            reject(new EngineUnresponsiveError(timeoutMs));
+          }, timeoutMs)
+        : null;
+
+      this.callbacks.set(key, (data: string) => {
+        if (data === `pong ${id}`) {
+          if (timer) {
+            clearTimeout(timer);
           }
+          this.callbacks.delete(key);
+          resolve();
         }
+      });
+    });
 
-        if (data.startsWith('move ')) {
-          this.callbacks.delete('analysis');
-          resolve(currentAnalysis as EngineAnalysis);
-        }
-      };
+    await this.sendCommand(`ping ${id}`);
+    return pong;
+  }
+
+  /**
+   * Supervisor hooks (see EngineSupervisor)
+   * While searching or in analyze mode the engine may hold back pong, so
+   * heartbeats only run when idle; searches are covered by job timeouts.
+   */
+  isBusy(): boolean {
+    return this.jobs.isBusy() || this.liveAnalysisFen !== null;
+  }
+
+  async isProcessRunning(): Promise<boolean> {
+    return this.bridge.isEngineRunning();
+  }
+
+  async heartbeat(timeoutMs: number): Promise<void> {
+    await this.waitForPong(timeoutMs);
+  }
 
-      this.callbacks.set('analysis', callback);
+  /**
+   * Respawn after a crash or hang and put the engine back where it was:
+   * variant, MultiPV, position (plus moves) and any live analysis session
+   */
+  async recover(error: EngineError): Promise<void> {
+    console.log(`Restarting XBoard engine: ${error.message}`);
+    this.jobs.failAll(error);
+
+    // Queued ahead of any job retried after the failure: those run on the new
+    // process once the handshake and the restore are done
+    return this.jobs.exclusive('recover', async () => {
+      const fen = this.positionFen;
+      const moves = [...this.positionMoves];
+      const liveFen = this.liveAnalysisFen;
+
+      // Tear down the old process; it may already be gone
+      this.isReady = false;
+      this.liveAnalysisFen = null;
+      this.depthLimit = 0; // The new process starts without one
+      this.optionsStrength = MAX_STRENGTH;
+      this.callbacks.clear();
+      this.outputBuffer = '';
+      if (this.outputCheckInterval) {
+        clearInterval(this.outputCheckInterval);
+        this.outputCheckInterval = null;
+      }
+      try {
+        await this.bridge.stopEngine();
+      } catch (stopError) {
+        console.error('Error stopping failed engine:', stopError);
+      }
+
+      await this.initialize();
 
-      // Set search depth and start analyzing
-      this.sendCommand(`sd ${depth}`); // Set depth
-      this.sendCommand('go'); // Start thinking
+      if (this.multiPV > 1) {
+        await this.sendCommand(`option MultiPV=${this.multiPV}`);
+      }
+      if (fen) {
+        await this.loadPosition(fen);
+        for (const move of moves) {
+          await this.sendCommand(move);
+        }
+        this.positionMoves = moves;
+      }
+      if (liveFen) {
+        await this.beginLiveAnalysis(liveFen);
+      }
     });
   }
 
   async makeMove(move: string): Promise<void> {
-    // Tell engine about player's move
-    this.sendCommand('force'); // Ensure force mode
-    this.sendCommand(move); // Send the move
+    return this.jobs.exclusive('move', async () => {
+      // Tell engine about player's move
+      const engineMove = this.toEngineMove(move);
+      await this.sendCommand('force'); // Ensure force mode
+      await this.sendCommand(engineMove); // Send the move
+      this.positionMoves.push(engineMove);
+    });
   }
 
-  async hint(): Promise<string> {
-    return new Promise((resolve) => {
-      const callback = (data: string) => {
-        // XBoard returns hint as "Hint: e2e4"
-        if (data.startsWith('Hint: ')) {
-          const hint = data.substring(6).trim();
-          this.callbacks.delete('hint');
-          resolve(hint);
-        }
-      };
+  /**
+   * Take back `plies` moves; `fen` is the position after the takeback
+   * Moves sent with makeMove are taken back with `remove` (two plies) and
+   * `undo` (one ply), otherwise the engine is resynced with `setboard fen`.
+   */
+  async takeBack(plies: number, fen: string): Promise<void> {
+    return this.jobs.exclusive('takeback', async () => {
+      await this.endLiveAnalysis();
+      if (plies > this.positionMoves.length) {
+        await this.loadPosition(fen);
+        return;
+      }
 
-      this.callbacks.set('hint', callback);
-      this.sendCommand('hint');
+      await this.sendCommand('force');
+      for (let i = 0; i < Math.floor(plies / 2); i++) {
+        await this.sendCommand('remove');
+      }
+      if (plies % 2 === 1) {
+        await this.sendCommand('undo');
+      }
+      this.positionMoves.splice(this.positionMoves.length - plies);
+    });
+  }
+
+  async hint(timeoutMs: number = HINT_TIMEOUT_MS): Promise<string> {
+    return this.jobs.search<string>({
+      kind: 'hint',
+      timeoutMs,
+      start: () => this.sendCommand('hint'),
+      // XBoard returns hint as "Hint: e2e4"
+      onLine: (data) => (data.startsWith('Hint: ') ? this.fromEngineMove(data.substring(6).trim()) : undefined),
     });
   }
 
-  private waitForFeature(feature: string): Promise<void> {
-    return new Promise((resolve) => {
+  private waitForFeature(feature: string, timeoutMs: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.callbacks.delete('feature');
+        reject(new EngineStartupError(`Engine did not send '${feature}' within ${timeoutMs}ms`));
+      }, timeoutMs);
+
       const callback = (data: string) => {
         if (data.includes(feature)) {
+          clearTimeout(timer);
           this.callbacks.delete('feature');
           resolve();
         }
@@ -292,11 +704,20 @@ export class XBoardEngine {
     });
   }
 
+  /**
+   * Cancel every queued and running search (`?` interrupts the one thinking)
+   * Their promises reject with EngineJobCancelledError
+   */
   async stop(): Promise<void> {
-    this.sendCommand('?'); // Interrupt thinking
+    this.jobs.cancelSearches();
   }
 
   async quit(): Promise<void> {
+    // Drop pending searches and any live analysis session
+    this.jobs.cancelSearches('engine shut down');
+    this.liveAnalysisFen = null;
+    this.analysisListeners.clear();
+
     // Stop output polling
     if (this.outputCheckInterval) {
       clearInterval(this.outputCheckInterval);
@@ -307,12 +728,12 @@ export class XBoardEngine {
     await this.sendCommand('quit');
 
     // Stop the engine process
-    if (nativeEngineBridge.isAvailable()) {
-      await nativeEngineBridge.stopEngine();
+    if (this.bridge.isAvailable()) {
+      await this.bridge.stopEngine();
     }
 
     // Cleanup
-    nativeEngineBridge.cleanup();
+    this.bridge.cleanup();
     this.isReady = false;
     console.log('✅ XBoard Engine shut down');
   }
@@ -328,6 +749,7 @@ export class XBoardEngine {
       if (trimmed) {
         console.log(`XBoard <<< ${trimmed}`);
         this.callbacks.forEach((callback) => callback(trimmed));
+        this.jobs.handleLine(trimmed);
       }
     }
   }
@@ -336,9 +758,15 @@ export class XBoardEngine {
 /**
  * Factory function to create XBoard engine instance
  * Uses the Windows .exe for native Windows apps
+ * Pass `bridge` (and `enginePath`) to run over another transport, e.g. in Jest:
+ *   createXBoardEngine('janggi', {
+ *     bridge: new NativeEngineBridge(new NodeEngineTransport()),
+ *     enginePath: DEFAULT_NODE_ENGINE_PATH,
+ *   })
  */
 export async function createXBoardEngine(
   variant: GameVariant = 'chess',
+  options: Partial<Omit<XBoardEngineConfig, 'variant'>> = {},
 ): Promise<XBoardEngine> {
   const enginePath = Platform.select({
     windows: 'fairy-stockfish-largeboard_x86-64-bmi2.exe',
@@ -348,8 +776,9 @@ export async function createXBoardEngine(
   }) || 'fairy-stockfish';
 
   const engine = new XBoardEngine({
-    enginePath,
+    enginePath: options.enginePath || enginePath,
     variant,
+    bridge: options.bridge,
   });
 
   await engine.initialize();
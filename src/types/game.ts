@@ -21,9 +21,18 @@ export interface GameState {
   result?: 'win' | 'draw' | 'loss';
 }
 
+/**
+ * Engine evaluation, always from White's (first player's) point of view
+ * cp: centipawns; mate: moves until mate, negative when White gets mated
+ */
+export interface EngineScore {
+  type: 'cp' | 'mate';
+  value: number;
+}
+
 export interface EngineAnalysis {
   depth: number;
-  score: number;
+  score: EngineScore;
   bestMove: string;
   pv: string[]; // Principal Variation
   nodes: number;
@@ -34,13 +43,35 @@ export interface EngineAnalysis {
 
 export type GameMode = 'player-vs-ai' | 'ai-vs-ai' | 'learning' | 'analysis';
 
+export type TimeControlType = 'none' | 'sudden-death' | 'increment' | 'byoyomi';
+
+export interface TimeControl {
+  type: TimeControlType;
+  baseMs: number; // Main time per side
+  incrementMs: number; // Added after every move ('increment')
+  byoyomiMs: number; // Length of one byo-yomi period ('byoyomi')
+  byoyomiPeriods: number; // Number of byo-yomi periods ('byoyomi')
+}
+
+/**
+ * Clock state handed to the engine so it manages its own time
+ * Times include the current byo-yomi period, if any
+ */
+export interface EngineClock {
+  baseMs: number; // Time control's main time (XBoard `level`)
+  whiteMs: number;
+  blackMs: number;
+  incrementMs: number; // Increment, or the byo-yomi period length
+}
+
 export interface GameSettings {
   variant: GameVariant;
   mode: GameMode;
-  engineStrength?: number; // 1-20
+  engineStrength?: number; // 1-20, see services/engine-strength.ts
   aiSpeed?: 'instant' | 'fast' | 'normal' | 'slow';
   showAnalysis: boolean;
   showHints: boolean;
+  timeControl?: TimeControl;
 }
 
 export interface ChessTerm {
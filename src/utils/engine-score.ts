@@ -0,0 +1,126 @@
+import {EngineScore} from '../types/game';
+
+/**
+ * Engine score helpers
+ *
+ * Engines report scores from the side to move's point of view:
+ * - UCI: `score cp 35` / `score mate -3`
+ * - XBoard: plain centipawns, mates as ±(100000 + moves) per the protocol
+ *   (some engines use 200000 + moves, older ones ±(32000 - plies))
+ * EngineAnalysis stores them as EngineScore from White's point of view.
+ */
+
+const XBOARD_MATE_BASE = 100000;
+const LEGACY_MATE_BASE = 32000;
+const LEGACY_MATE_THRESHOLD = 31000;
+
+// Centipawn stand-in for mates when a single number is needed (sorting, win chance)
+const MATE_CENTIPAWNS = 10000;
+
+export const EQUAL_SCORE: EngineScore = {type: 'cp', value: 0};
+
+/**
+ * Decode an XBoard thinking-line score (side to move's point of view)
+ */
+export function parseXBoardScore(raw: number): EngineScore {
+  const sign = raw < 0 ? -1 : 1;
+  const abs = Math.abs(raw);
+
+  if (abs >= XBOARD_MATE_BASE) {
+    return {type: 'mate', value: sign * (abs % XBOARD_MATE_BASE)};
+  }
+  if (abs > LEGACY_MATE_THRESHOLD && abs <= LEGACY_MATE_BASE) {
+    // Distance is in plies: mate in N moves = ceil(plies / 2)
+    return {type: 'mate', value: sign * Math.ceil((LEGACY_MATE_BASE - abs) / 2)};
+  }
+  return {type: 'cp', value: raw};
+}
+
+/**
+ * Build a score from UCI `score cp` / `score mate` (side to move's point of view)
+ */
+export function parseUciScore(scoreCp?: number, scoreMate?: number): EngineScore | undefined {
+  if (scoreMate !== undefined) {
+    return {type: 'mate', value: scoreMate};
+  }
+  if (scoreCp !== undefined) {
+    return {type: 'cp', value: scoreCp};
+  }
+  return undefined;
+}
+
+/**
+ * Turn a side-to-move score into White's point of view
+ * @param fen Position the score belongs to (its second field is the side to move)
+ */
+export function normalizeScore(score: EngineScore, fen: string): EngineScore {
+  const sideToMove = fen.split(' ')[1];
+  return sideToMove === 'b' ? {type: score.type, value: -score.value} : score;
+}
+
+/**
+ * Single number for comparisons: mates rank above any centipawn score,
+ * shorter mates above longer ones
+ */
+export function scoreToCentipawns(score: EngineScore): number {
+  if (score.type === 'mate') {
+    const sign = score.value < 0 ? -1 : 1;
+    return sign * (MATE_CENTIPAWNS - Math.abs(score.value));
+  }
+  return score.value;
+}
+
+/**
+ * Display text: "0.35", "-1.20", "M3" (White mates), "-M3" (Black mates)
+ */
+export function formatScore(score: EngineScore): string {
+  if (score.type === 'mate') {
+    return `${score.value < 0 ? '-' : ''}M${Math.abs(score.value)}`;
+  }
+  return (score.value / 100).toFixed(2);
+}
+
+/**
+ * True if the score favours White (used for colouring)
+ */
+export function isWhiteFavoured(score: EngineScore): boolean {
+  return score.value > 0;
+}
+
+/**
+ * White's expected score (0-1), logistic in centipawns; mates are 0 or 1
+ */
+export function winProbability(score: EngineScore): number {
+  if (score.type === 'mate') {
+    return score.value < 0 ? 0 : 1;
+  }
+  return 1 / (1 + Math.pow(10, -score.value / 400));
+}
+
+/**
+ * Plain-language evaluation for the analysis UI
+ */
+export function describeScore(score: EngineScore): string {
+  if (score.type === 'mate') {
+    return score.value < 0 ? 'Black is winning' : 'White is winning';
+  }
+
+  const cp = score.value;
+  const absScore = Math.abs(cp);
+  if (absScore > 300) {
+    return cp > 0
+      ? 'White has a winning advantage'
+      : 'Black has a winning advantage';
+  }
+  if (absScore > 150) {
+    return cp > 0
+      ? 'White has a significant advantage'
+      : 'Black has a significant advantage';
+  }
+  if (absScore > 50) {
+    return cp > 0
+      ? 'White is slightly better'
+      : 'Black is slightly better';
+  }
+  return 'The position is equal';
+}
@@ -0,0 +1,276 @@
+import RNFS from 'react-native-fs';
+import {Chess} from 'chess.js';
+import {EngineScore, GameVariant, TimeControl} from '../types/game';
+import {ClockSide, NO_TIME_CONTROL, SideClock} from './time-control';
+import {ResultReason, RESULT_REASON_LABELS} from './game-stats';
+import {GamePosition} from './move-history';
+import {fenPositionKey} from './position-history';
+import {applyMoveToFEN, validateJanggiMove} from './janggi-fen';
+import {GameFileFormat} from './game-files';
+import {PgnPlayer, PgnResult, exportChessPgn, formatPgnTimeControl} from './pgn';
+import {
+  GameRecordError,
+  JanggiGameRecord,
+  applyMove as applyJanggiMove,
+  boardToFEN,
+  exportGib,
+  exportJanggiPgn,
+  FENToBoard,
+  hashBoard,
+  moveFromEngineNotation,
+  setupsFromBoard,
+} from '../game/janggi';
+
+/**
+ * Game archive: every finished game (and, if enabled, every abandoned one)
+ * kept in game-archive.json in the app's document directory, newest first.
+ * Games are stored as their starting FEN and moves in engine notation, so
+ * they can be replayed for review and exported as PGN or GIB.
+ */
+
+export interface ArchivedPlayer extends PgnPlayer {
+  name: string; // As written to exported records
+}
+
+export interface ArchivedGame {
+  id: string;
+  variant: GameVariant;
+  date: string; // ISO time the game ended or was abandoned
+  white: ArchivedPlayer; // White / Han
+  black: ArchivedPlayer; // Black / Cho
+  startFen: string;
+  moves: string[]; // Engine notation
+  finalFen: string;
+  result: {winner: ClockSide | null; reason: ResultReason} | null; // null = abandoned
+  clock: {control: TimeControl; w: SideClock; b: SideClock} | null; // Time left at the end; null = untimed
+  evals: (EngineScore | null)[]; // Evaluation after each move, from White's / Han's point of view
+}
+
+export type ArchiveResultFilter = 'all' | 'white' | 'black' | 'draw' | 'abandoned';
+
+export type ArchiveDateFilter = 'all' | 'today' | 'week' | 'month';
+
+export interface ArchiveFilter {
+  variant: GameVariant | 'all';
+  result: ArchiveResultFilter;
+  date: ArchiveDateFilter;
+  search: string; // Matches player names, result and ending
+}
+
+export const EMPTY_ARCHIVE_FILTER: ArchiveFilter = {variant: 'all', result: 'all', date: 'all', search: ''};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const getArchivePath = (): string => {
+  return `${RNFS.DocumentDirectoryPath}/game-archive.json`;
+};
+
+// Writes run one at a time so a game archived while another is deleted isn't lost
+let pendingWrite: Promise<unknown> = Promise.resolve();
+
+const updateArchive = (update: (games: ArchivedGame[]) => ArchivedGame[]): Promise<ArchivedGame[]> => {
+  const write = pendingWrite.then(async () => {
+    const games = update(await loadArchive());
+    await RNFS.writeFile(getArchivePath(), JSON.stringify(games), 'utf8');
+    return games;
+  });
+  pendingWrite = write.catch(() => undefined);
+  return write;
+};
+
+export function createArchiveId(date: Date): string {
+  return `${date.getTime().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Archived games, newest first (empty if nothing was archived yet)
+ */
+export async function loadArchive(): Promise<ArchivedGame[]> {
+  const path = getArchivePath();
+  if (!(await RNFS.exists(path))) {
+    return [];
+  }
+  const saved = JSON.parse(await RNFS.readFile(path, 'utf8'));
+  return Array.isArray(saved) ? saved : [];
+}
+
+/**
+ * Add a game, or replace the entry with the same id (a game continued after
+ * undo is archived again when it ends)
+ */
+export function archiveGame(game: ArchivedGame): Promise<ArchivedGame[]> {
+  return updateArchive(games => [game, ...games.filter(archived => archived.id !== game.id)]);
+}
+
+export function deleteArchivedGames(ids: string[]): Promise<ArchivedGame[]> {
+  return updateArchive(games => games.filter(game => !ids.includes(game.id)));
+}
+
+const sideNames = (variant: GameVariant): Record<ClockSide, string> => {
+  return variant === 'chess' ? {w: 'White', b: 'Black'} : {w: 'Han', b: 'Cho'};
+};
+
+/**
+ * Result line: "White wins (Checkmate)", "Draw (Repetition)", "Abandoned"
+ */
+export function archivedResultText(game: ArchivedGame): string {
+  if (!game.result) {
+    return 'Abandoned';
+  }
+  const {winner, reason} = game.result;
+  const outcome = winner === null ? 'Draw' : `${sideNames(game.variant)[winner]} wins`;
+  return `${outcome} (${RESULT_REASON_LABELS[reason]})`;
+}
+
+function matchesResult(game: ArchivedGame, result: ArchiveResultFilter): boolean {
+  switch (result) {
+    case 'all':
+      return true;
+    case 'abandoned':
+      return game.result === null;
+    case 'draw':
+      return game.result !== null && game.result.winner === null;
+    case 'white':
+      return game.result?.winner === 'w';
+    case 'black':
+      return game.result?.winner === 'b';
+  }
+}
+
+function matchesDate(game: ArchivedGame, date: ArchiveDateFilter, now: Date): boolean {
+  if (date === 'all') {
+    return true;
+  }
+  const played = new Date(game.date);
+  if (date === 'today') {
+    return played.toDateString() === now.toDateString();
+  }
+  return now.getTime() - played.getTime() <= (date === 'week' ? 7 : 30) * DAY_MS;
+}
+
+export function filterArchive(games: ArchivedGame[], filter: ArchiveFilter, now: Date = new Date()): ArchivedGame[] {
+  const search = filter.search.trim().toLowerCase();
+  return games.filter(
+    game =>
+      (filter.variant === 'all' || game.variant === filter.variant) &&
+      matchesResult(game, filter.result) &&
+      matchesDate(game, filter.date, now) &&
+      (!search ||
+        [game.white.name, game.black.name, archivedResultText(game)].some(text => text.toLowerCase().includes(search))),
+  );
+}
+
+/**
+ * Positions of an archived game for the move history: the start, then the
+ * position after each move. Throws if a move can't be played.
+ */
+export function replayArchivedGame(game: ArchivedGame): GamePosition[] {
+  const positions: GamePosition[] = [];
+
+  if (game.variant === 'chess') {
+    const chess = new Chess(game.startFen);
+    positions.push({fen: chess.fen(), key: fenPositionKey(chess.fen())});
+    for (const move of game.moves) {
+      chess.move(move);
+      positions.push({fen: chess.fen(), key: fenPositionKey(chess.fen())});
+    }
+    return positions;
+  }
+
+  if (game.variant === 'janggi') {
+    let fen = game.startFen;
+    positions.push({fen, key: fenPositionKey(fen)});
+    game.moves.forEach((move, index) => {
+      const validation = validateJanggiMove(fen, move);
+      if (!validation.isValid) {
+        throw new GameRecordError(`Move ${index + 1} (${move}) is not legal`);
+      }
+      fen = applyMoveToFEN(fen, move);
+      positions.push({fen, key: fenPositionKey(fen)});
+    });
+    return positions;
+  }
+
+  let {board, isHanTurn} = FENToBoard(game.startFen);
+  positions.push({fen: game.startFen, key: hashBoard(board, isHanTurn), board});
+  game.moves.forEach((notation, index) => {
+    const move = moveFromEngineNotation(board, isHanTurn, notation);
+    if (!move) {
+      throw new GameRecordError(`Move ${index + 1} (${notation}) is not legal`);
+    }
+    board = applyJanggiMove(board, move);
+    isHanTurn = !isHanTurn;
+    positions.push({fen: boardToFEN(board, isHanTurn, 1), key: hashBoard(board, isHanTurn), board});
+  });
+  return positions;
+}
+
+/**
+ * Janggi game as a game record (GIB / Fairy-Stockfish PGN); games not started
+ * from the formations with Han to move keep their FEN and can only be PGN
+ */
+function archivedJanggiRecord(game: ArchivedGame): JanggiGameRecord {
+  const {board, isHanTurn} = FENToBoard(game.startFen);
+  const setups = isHanTurn ? setupsFromBoard(board) : null;
+
+  let current = board;
+  const moves = game.moves.map((notation, index) => {
+    const move = moveFromEngineNotation(current, (index % 2 === 0) === isHanTurn, notation);
+    if (!move) {
+      throw new GameRecordError(`Move ${index + 1} (${notation}) is not legal`);
+    }
+    current = applyJanggiMove(current, move);
+    return move;
+  });
+
+  const winner = game.result?.winner;
+  return {
+    setups,
+    ...(setups ? {} : {startFen: game.startFen}),
+    moves,
+    result: !game.result ? null : winner === 'w' ? 1 : winner === 'b' ? -1 : 0,
+    han: game.white.name,
+    cho: game.black.name,
+    date: new Date(game.date),
+    tags: {
+      WhiteType: game.white.type === 'ai' ? 'program' : 'human',
+      BlackType: game.black.type === 'ai' ? 'program' : 'human',
+      TimeControl: formatPgnTimeControl(game.clock?.control ?? NO_TIME_CONTROL),
+    },
+  };
+}
+
+function archivedPgnResult(game: ArchivedGame): PgnResult {
+  if (!game.result) {
+    return '*';
+  }
+  return game.result.winner === 'w' ? '1-0' : game.result.winner === 'b' ? '0-1' : '1/2-1/2';
+}
+
+/**
+ * An archived game as a PGN (any variant) or GIB (Janggi) file
+ * Throws GameRecordError if the game can't be written in that format.
+ */
+export function exportArchivedGame(game: ArchivedGame, format: GameFileFormat): string {
+  if (game.variant === 'chess') {
+    if (format !== 'pgn') {
+      throw new GameRecordError('Chess games are exported as PGN');
+    }
+    return exportChessPgn(
+      {
+        variant: game.variant,
+        white: game.white,
+        black: game.black,
+        result: archivedPgnResult(game),
+        date: new Date(game.date),
+        timeControl: game.clock?.control ?? NO_TIME_CONTROL,
+      },
+      game.startFen,
+      game.moves,
+      game.evals,
+    );
+  }
+
+  const record = archivedJanggiRecord(game);
+  return format === 'gib' ? exportGib(record) : exportJanggiPgn(record);
+}
@@ -0,0 +1,72 @@
+/**
+ * Saved games: PGN and GIB files in the app's document directory
+ */
+
+import RNFS from 'react-native-fs';
+
+export type GameFileFormat = 'pgn' | 'gib';
+
+export interface GameFileInfo {
+  name: string;
+  path: string;
+  format: GameFileFormat;
+  modified: Date | null;
+}
+
+const getGamesDirectory = (): string => {
+  return `${RNFS.DocumentDirectoryPath}/games`;
+};
+
+// Default file name from the time of saving: game-20240517-142301.pgn
+const defaultFileName = (date: Date, format: GameFileFormat): string => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const day = `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+  const time = `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+  return `game-${day}-${time}.${format}`;
+};
+
+const fileFormat = (name: string): GameFileFormat | null => {
+  const extension = name.toLowerCase().split('.').pop();
+  return extension === 'pgn' || extension === 'gib' ? extension : null;
+};
+
+/**
+ * Write a game record to the games directory (created if missing)
+ * Returns the path of the saved file
+ */
+export async function saveGameFile(
+  text: string,
+  format: GameFileFormat,
+  fileName: string = defaultFileName(new Date(), format),
+): Promise<string> {
+  const directory = getGamesDirectory();
+  if (!(await RNFS.exists(directory))) {
+    await RNFS.mkdir(directory);
+  }
+
+  const path = `${directory}/${fileName}`;
+  await RNFS.writeFile(path, text, 'utf8');
+  console.log(`Saved game to ${path}`);
+  return path;
+}
+
+/**
+ * Game files of the given formats in the games directory, newest first
+ */
+export async function listGameFiles(formats: GameFileFormat[]): Promise<GameFileInfo[]> {
+  const directory = getGamesDirectory();
+  if (!(await RNFS.exists(directory))) {
+    return [];
+  }
+
+  const files = await RNFS.readDir(directory);
+  return files
+    .filter(file => file.isFile())
+    .map(file => ({name: file.name, path: file.path, format: fileFormat(file.name), modified: file.mtime ?? null}))
+    .filter((file): file is GameFileInfo => file.format !== null && formats.includes(file.format))
+    .sort((a, b) => (b.modified?.getTime() ?? 0) - (a.modified?.getTime() ?? 0));
+}
+
+export async function readGameFile(path: string): Promise<string> {
+  return RNFS.readFile(path, 'utf8');
+}
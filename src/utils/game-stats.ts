@@ -0,0 +1,101 @@
+/**
+ * Persistent game statistics (saved with the UI state)
+ */
+
+/**
+ * How a recorded game ended
+ */
+export type ResultReason =
+  | 'checkmate'
+  | 'stalemate'
+  | 'insufficient-material'
+  | 'threefold-repetition'
+  | 'draw' // Other chess draws (50-move rule)
+  | 'time'
+  | 'general-captured'
+  | 'bikjang' // Janggi: bikjang accepted, decided by points
+  | 'move-limit' // Janggi: move limit reached, decided by points
+  | 'move-cap'; // AI vs AI game adjudicated as a draw
+
+export const RESULT_REASON_LABELS: Record<ResultReason, string> = {
+  'checkmate': 'Checkmate',
+  'stalemate': 'Stalemate',
+  'insufficient-material': 'Insufficient material',
+  'threefold-repetition': 'Repetition',
+  'draw': 'Draw rule',
+  'time': 'Time',
+  'general-captured': 'General captured',
+  'bikjang': 'Bikjang (points)',
+  'move-limit': 'Move limit (points)',
+  'move-cap': 'Move cap (AI vs AI)',
+};
+
+export interface StrengthRecord {
+  games: number;
+  humanWins: number;
+  aiWins: number;
+  draws: number;
+}
+
+export interface GameStats {
+  whiteWins: number;
+  blackWins: number;
+  draws: number;
+  totalGames: number;
+  byStrength: Record<string, StrengthRecord>; // Human vs AI games, keyed by the AI's strength level (1-20)
+  byReason: Partial<Record<ResultReason, number>>; // Games per ending
+}
+
+export const EMPTY_STATS: GameStats = {
+  whiteWins: 0,
+  blackWins: 0,
+  draws: 0,
+  totalGames: 0,
+  byStrength: {},
+  byReason: {},
+};
+
+/**
+ * A finished game
+ */
+export interface GameOutcome {
+  winner: 'w' | 'b' | null; // null = draw
+  reason: ResultReason;
+  ai?: {side: 'w' | 'b'; strength: number}; // Set for human vs AI games
+}
+
+export function addGameResult(stats: GameStats, outcome: GameOutcome): GameStats {
+  const next: GameStats = {
+    ...stats,
+    totalGames: stats.totalGames + 1,
+    whiteWins: stats.whiteWins + (outcome.winner === 'w' ? 1 : 0),
+    blackWins: stats.blackWins + (outcome.winner === 'b' ? 1 : 0),
+    draws: stats.draws + (outcome.winner === null ? 1 : 0),
+    byReason: {
+      ...stats.byReason,
+      [outcome.reason]: (stats.byReason[outcome.reason] || 0) + 1,
+    },
+  };
+
+  if (outcome.ai) {
+    const key = String(outcome.ai.strength);
+    const record = stats.byStrength[key] || {games: 0, humanWins: 0, aiWins: 0, draws: 0};
+    next.byStrength = {
+      ...stats.byStrength,
+      [key]: {
+        games: record.games + 1,
+        humanWins: record.humanWins + (outcome.winner !== null && outcome.winner !== outcome.ai.side ? 1 : 0),
+        aiWins: record.aiWins + (outcome.winner === outcome.ai.side ? 1 : 0),
+        draws: record.draws + (outcome.winner === null ? 1 : 0),
+      },
+    };
+  }
+  return next;
+}
+
+/**
+ * Fill in fields missing from stats saved by older versions
+ */
+export function normalizeStats(saved: Partial<GameStats>): GameStats {
+  return {...EMPTY_STATS, ...saved, byStrength: saved.byStrength || {}, byReason: saved.byReason || {}};
+}
@@ -12,6 +12,9 @@
  * - Pieces sit on intersections, not in squares
  */
 
+import {parseMove, toBoardIndex} from './move-notation';
+import {fenLayoutErrors} from '../game/janggi';
+
 export interface JanggiPosition {
   board: (string | null)[][]; // 10x9 board
   turn: 'w' | 'b';
@@ -21,8 +24,14 @@ export interface JanggiPosition {
 /**
  * Parse Janggi FEN into a position object
  * Example: rnba1abnr/4k4/1c5c1/p1p1p1p1p/9/9/P1P1P1P1P/1C5C1/4K4/RNBA1ABNR w - - 0 1
+ * Throws if the FEN can't be read (see fenLayoutErrors in src/game/janggi/fen.ts)
  */
 export function parseJanggiFEN(fen: string): JanggiPosition {
+  const [layoutError] = fenLayoutErrors(fen);
+  if (layoutError) {
+    throw new Error(`Invalid Janggi FEN: ${layoutError}`);
+  }
+
   const parts = fen.split(' ');
   const boardPart = parts[0];
   const turn = (parts[1] || 'w') as 'w' | 'b';
@@ -108,56 +117,36 @@ export function positionToFEN(position: JanggiPosition): string {
 /**
  * Validate if a Janggi move is legal (basic validation)
  * @param fen Current position FEN
- * @param move Move in notation like "a0b0" (from square to square)
+ * @param move Move in engine notation like "e1e2", "e10e9" or a pass (see move-notation.ts)
  * @returns Object with isValid boolean and error message if invalid
  */
 export function validateJanggiMove(fen: string, move: string): {isValid: boolean; error?: string} {
-  if (move.length < 4) {
+  // Parse move notation (format: file+rank+file+rank, e.g., "e1e2" or "e10e9")
+  const parsed = parseMove(move, 'janggi');
+  if (!parsed) {
     return {isValid: false, error: 'Invalid move notation'};
   }
 
-  // Parse move notation (format: file+rank+file+rank, e.g., "e1e2" or "e10e9")
-  // Find where second file starts (it's the first letter after the first file)
-  const fromFile = move.charCodeAt(0) - 'a'.charCodeAt(0);
-  let rankSplitIdx = 1;
-  while (rankSplitIdx < move.length && (move[rankSplitIdx] < 'a' || move[rankSplitIdx] > 'i')) {
-    rankSplitIdx++;
+  // Passing is always allowed in Janggi
+  if (parsed.type === 'pass') {
+    return {isValid: true};
   }
-
-  const fromRank = parseInt(move.substring(1, rankSplitIdx), 10);
-  const toFile = move.charCodeAt(rankSplitIdx) - 'a'.charCodeAt(0);
-  const toRank = parseInt(move.substring(rankSplitIdx + 1), 10);
-
-  const from = move.substring(0, rankSplitIdx);
-  const to = move.substring(rankSplitIdx);
-
-  // Check if from and to are different
-  if (from === to) {
-    return {isValid: false, error: 'From and to squares must be different'};
+  if (parsed.type === 'drop') {
+    return {isValid: false, error: 'Janggi has no drops'};
   }
 
-  // Validate coordinates (Janggi uses files a-i [0-8] and ranks 1-10)
-  if (
-    fromFile < 0 ||
-    fromFile > 8 ||
-    toFile < 0 ||
-    toFile > 8 ||
-    fromRank < 1 ||
-    fromRank > 10 ||
-    toRank < 1 ||
-    toRank > 10
-  ) {
-    return {isValid: false, error: 'Move coordinates out of bounds'};
-  }
-
-  // For Janggi, Fairy-Stockfish uses rank notation 1-10 (not 0-9!)
-  // Rank 1 = bottom (red), Rank 10 = top (blue)
-  // FEN array uses 0-9: index 0 = top (blue), index 9 = bottom (red)
-  // Conversion: FEN rank index = 10 - notation rank
-  const fromRankIndex = 10 - fromRank;
-  const toRankIndex = 10 - toRank;
+  // Engine ranks count from the bottom (red); FEN rows count from the top (blue)
+  const fromFile = parsed.from.file;
+  const fromRank = parsed.from.rank;
+  const toFile = parsed.to.file;
+  const fromRankIndex = toBoardIndex(parsed.from, 'janggi').row;
+  const toRankIndex = toBoardIndex(parsed.to, 'janggi').row;
 
   // Parse FEN
+  const [layoutError] = fenLayoutErrors(fen);
+  if (layoutError) {
+    return {isValid: false, error: `Invalid FEN: ${layoutError}`};
+  }
   const position = parseJanggiFEN(fen);
 
   // Check if there's a piece at from square
@@ -166,8 +155,8 @@ export function validateJanggiMove(fen: string, move: string): {isValid: boolean
   // ALWAYS log for debugging the coordinate system
   console.log('=== JANGGI MOVE DEBUG ===');
   console.log('Engine move notation:', move);
-  console.log('Parsed: file', String.fromCharCode(fromFile + 97), '(index', fromFile + ') rank', fromRank);
-  console.log('Conversion: FEN rank', fromRankIndex, '= 10 -', fromRank);
+  console.log('Parsed: file', String.fromCharCode(fromFile + 97), '(index', fromFile + ') rank', fromRank + 1);
+  console.log('Conversion: FEN rank', fromRankIndex, '= 10 -', fromRank + 1);
   console.log('Piece at [', fromRankIndex, '][', fromFile, ']:', piece);
 
   if (!piece) {
@@ -208,7 +197,7 @@ export function validateJanggiMove(fen: string, move: string): {isValid: boolean
 /**
  * Apply a move to a Janggi position and return updated position
  * @param fen Current position FEN
- * @param move Move in notation like "a0b0" (from square to square)
+ * @param move Move in engine notation like "e1e2", "e10e9" or a pass (see move-notation.ts)
  * @returns Updated FEN, or original FEN if move is invalid
  */
 export function applyMoveToFEN(fen: string, move: string): string {
@@ -219,34 +208,23 @@ export function applyMoveToFEN(fen: string, move: string): string {
     return fen;
   }
 
-  // Parse move notation (format: file+rank+file+rank, e.g., "e1e2" or "e10e9")
-  // Find where second file starts (it's the first letter after the first file)
-  const fromFile = move.charCodeAt(0) - 'a'.charCodeAt(0);
-  let rankSplitIdx = 1;
-  while (rankSplitIdx < move.length && (move[rankSplitIdx] < 'a' || move[rankSplitIdx] > 'i')) {
-    rankSplitIdx++;
-  }
-
-  const fromRank = parseInt(move.substring(1, rankSplitIdx), 10);
-  const toFile = move.charCodeAt(rankSplitIdx) - 'a'.charCodeAt(0);
-  const toRank = parseInt(move.substring(rankSplitIdx + 1), 10);
-
-  // For Janggi, Fairy-Stockfish uses rank notation 1-10 (not 0-9!)
-  // Rank 1 = bottom (red), Rank 10 = top (blue)
-  // FEN array uses 0-9: index 0 = top (blue), index 9 = bottom (red)
-  // Conversion: FEN rank index = 10 - notation rank
-  const fromRankIndex = 10 - fromRank;
-  const toRankIndex = 10 - toRank;
+  const parsed = parseMove(move, 'janggi')!;
 
   // Parse FEN
   const position = parseJanggiFEN(fen);
 
-  // Get piece at from square (we already validated it exists)
-  const piece = position.board[fromRankIndex][fromFile]!;
+  if (parsed.type === 'normal') {
+    // Engine ranks count from the bottom (red); FEN rows count from the top (blue)
+    const fromRankIndex = toBoardIndex(parsed.from, 'janggi').row;
+    const toRankIndex = toBoardIndex(parsed.to, 'janggi').row;
 
-  // Move piece
-  position.board[fromRankIndex][fromFile] = null;
-  position.board[toRankIndex][toFile] = piece;
+    // Get piece at from square (we already validated it exists)
+    const piece = position.board[fromRankIndex][parsed.from.file]!;
+
+    // Move piece
+    position.board[fromRankIndex][parsed.from.file] = null;
+    position.board[toRankIndex][parsed.to.file] = piece;
+  }
 
   // Toggle turn
   position.turn = position.turn === 'w' ? 'b' : 'w';
@@ -0,0 +1,112 @@
+import {Board} from '../game/janggi';
+import {PositionKey} from './position-history';
+
+/**
+ * Move history of the current game, with undo/redo
+ *
+ * Holds the starting position and one entry per ply: the move and the
+ * position it leads to. Undo and redo move a cursor over the entries;
+ * playing a new move after an undo drops the undone plies.
+ */
+
+export interface GamePosition {
+  fen: string; // Position for the engine and the analysis panel
+  key: PositionKey; // Repetition key, as pushed to PositionHistory
+  board?: Board; // Standalone Janggi board (janggi2/janggi3)
+}
+
+export interface PlyRecord {
+  move: string; // Engine notation (e2e4, e7e8q; Janggi a0b1, a pass is the general's square twice)
+  position: GamePosition; // Position after the move
+}
+
+export class MoveHistory {
+  private start: GamePosition | null; // Unknown for variants without a starting FEN
+  private plies: PlyRecord[] = [];
+  private cursor: number = 0; // Plies currently played; the ones after it can be redone
+
+  constructor(start: GamePosition | null = null) {
+    this.start = start;
+  }
+
+  /**
+   * Start over from a game's first position
+   */
+  reset(start: GamePosition | null = null): void {
+    this.start = start;
+    this.plies = [];
+    this.cursor = 0;
+  }
+
+  /**
+   * A move was played: record it, dropping any undone plies
+   */
+  push(move: string, position: GamePosition): void {
+    this.plies.splice(this.cursor);
+    this.plies.push({move, position});
+    this.cursor = this.plies.length;
+  }
+
+  canUndo(): boolean {
+    return this.cursor > 0;
+  }
+
+  canRedo(): boolean {
+    return this.cursor < this.plies.length;
+  }
+
+  /**
+   * Step back one ply
+   * Returns the ply taken back, or null at the start of the game
+   */
+  undo(): PlyRecord | null {
+    if (!this.canUndo()) {
+      return null;
+    }
+    this.cursor -= 1;
+    return this.plies[this.cursor];
+  }
+
+  /**
+   * Replay the next undone ply
+   * Returns it, or null if there is nothing to redo
+   */
+  redo(): PlyRecord | null {
+    if (!this.canRedo()) {
+      return null;
+    }
+    this.cursor += 1;
+    return this.plies[this.cursor - 1];
+  }
+
+  /**
+   * Position after the first `ply` plies (0 = starting position)
+   */
+  positionAt(ply: number): GamePosition | null {
+    if (ply <= 0) {
+      return this.start;
+    }
+    return this.plies[ply - 1]?.position ?? null;
+  }
+
+  /**
+   * Position at the cursor
+   */
+  current(): GamePosition | null {
+    return this.positionAt(this.cursor);
+  }
+
+  /**
+   * Number of plies played (the undone ones don't count)
+   */
+  ply(): number {
+    return this.cursor;
+  }
+
+  /**
+   * Moves played so far, in order
+   */
+  moves(): string[] {
+    return this.plies.slice(0, this.cursor).map(ply => ply.move);
+  }
+}
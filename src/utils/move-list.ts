@@ -0,0 +1,69 @@
+import {Chess} from 'chess.js';
+import {GameVariant} from '../types/game';
+import {parseMove, formatSquare, toBoardIndex} from './move-notation';
+import {parseJanggiFEN} from './janggi-fen';
+import {fenLayoutErrors} from '../game/janggi';
+
+/**
+ * Move list notation: the game's moves as players read them
+ * - Chess: SAN from chess.js ("Nf3", "exd5", "O-O", "e8=Q+")
+ * - Janggi: piece letter, then from and to squares in engine coordinates
+ *   ("Hb1-c3", captures as "Ra1xa10", a pass as "Pass").
+ *   Letters are those of the piece sets (see janggi-fen.ts): K general,
+ *   A advisor, E elephant, H horse, R chariot, C cannon, P soldier.
+ *
+ * Moves that can't be read in their position keep their engine notation.
+ */
+
+function janggiMoveLabel(fen: string | null, move: string): string {
+  const parsed = parseMove(move, 'janggi');
+  if (!parsed) {
+    return move;
+  }
+  if (parsed.type === 'pass') {
+    return 'Pass';
+  }
+  if (parsed.type !== 'normal' || !fen || fenLayoutErrors(fen).length > 0) {
+    return move;
+  }
+
+  const {board} = parseJanggiFEN(fen);
+  const from = toBoardIndex(parsed.from, 'janggi');
+  const to = toBoardIndex(parsed.to, 'janggi');
+  const piece = board[from.row]?.[from.col];
+  if (!piece) {
+    return move;
+  }
+  const letter = piece.charAt(1).toUpperCase(); // Cells are color + piece: "rh", "bk"
+  const separator = board[to.row]?.[to.col] ? 'x' : '-';
+  return `${letter}${formatSquare(parsed.from, 'janggi')}${separator}${formatSquare(parsed.to, 'janggi')}`;
+}
+
+/**
+ * Labels for a game's moves
+ * @param fens Position before each move (null where unknown)
+ * @param moves Moves in engine notation
+ */
+export function formatMoveLabels(variant: GameVariant, fens: (string | null)[], moves: string[]): string[] {
+  if (variant === 'janggi' || variant === 'janggi2' || variant === 'janggi3') {
+    return moves.map((move, index) => janggiMoveLabel(fens[index] ?? null, move));
+  }
+  if (variant !== 'chess') {
+    return [...moves];
+  }
+
+  // Replay from the start; after an unreadable move the rest keep engine notation
+  const game = fens[0] ? new Chess(fens[0]) : null;
+  let isReplaying = game !== null;
+  return moves.map(move => {
+    if (!game || !isReplaying) {
+      return move;
+    }
+    try {
+      return game.move(move).san;
+    } catch (error) {
+      isReplaying = false;
+      return move;
+    }
+  });
+}
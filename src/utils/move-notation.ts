@@ -0,0 +1,176 @@
+import {GameVariant} from '../types/game';
+
+/**
+ * Variant-aware move notation
+ * Shared by the engine clients (PV / best move parsing), janggi-fen.ts and the board overlays
+ *
+ * Engine coordinate notation (Fairy-Stockfish):
+ * - Normal move: file + rank + file + rank (+ promotion), e.g. "e2e4", "e7e8q", "a10a9", "c3c4+"
+ * - Drop: piece + '@' + square, e.g. "P@e5"
+ * - Pass: "@@@@" (XBoard), "0000" (UCI null move), or a piece "moving" to its own square, e.g. "e2e2"
+ *
+ * Files are letters from 'a', ranks are numbers counted from the bottom (White/Han side).
+ * UCI and PGN number the ranks from 1; XBoard numbers 10-rank boards from 0
+ * ("a0a1", "b9c7"). The app keeps moves in UCI/PGN notation: the XBoard
+ * engine client converts at the protocol boundary (see convertMove).
+ */
+
+export type NotationProtocol = 'uci' | 'xboard';
+
+export interface BoardGeometry {
+  files: number; // Board width
+  ranks: number; // Board height
+  firstRank: Record<NotationProtocol, number>; // Number of the bottom rank in each protocol
+}
+
+const ONE_BASED = {uci: 1, xboard: 1};
+const TEN_RANKS = {uci: 1, xboard: 0}; // Janggi ranks are 1-10 in UCI, 0-9 in XBoard
+
+export const VARIANT_GEOMETRY: Record<GameVariant, BoardGeometry> = {
+  chess: {files: 8, ranks: 8, firstRank: ONE_BASED},
+  janggi: {files: 9, ranks: 10, firstRank: TEN_RANKS},
+  janggi2: {files: 9, ranks: 10, firstRank: TEN_RANKS},
+  janggi3: {files: 9, ranks: 10, firstRank: TEN_RANKS},
+  xiangqi: {files: 9, ranks: 10, firstRank: TEN_RANKS},
+  shogi: {files: 9, ranks: 9, firstRank: ONE_BASED},
+};
+
+/**
+ * Square as 0-based indices: file 0 = 'a', rank 0 = bottom rank
+ */
+export interface SquareCoord {
+  file: number;
+  rank: number;
+}
+
+export type ParsedMove =
+  | {type: 'normal'; from: SquareCoord; to: SquareCoord; promotion?: string}
+  | {type: 'drop'; piece: string; to: SquareCoord}
+  | {type: 'pass'};
+
+const SQUARE_PATTERN = /^([a-z])(\d{1,2})$/;
+const NORMAL_MOVE_PATTERN = /^([a-z])(\d{1,2})([a-z])(\d{1,2})([a-z+\-])?$/;
+const DROP_MOVE_PATTERN = /^([A-Za-z])@([a-z]\d{1,2})$/;
+const PASS_MOVES = ['@@@@', '0000', 'pass'];
+
+/**
+ * Parse a square like "e4" or "i10"; null if malformed or off the board
+ */
+export function parseSquare(
+  square: string,
+  variant: GameVariant,
+  protocol: NotationProtocol = 'uci',
+): SquareCoord | null {
+  const match = SQUARE_PATTERN.exec(square);
+  if (!match) {
+    return null;
+  }
+
+  const geometry = VARIANT_GEOMETRY[variant];
+  const file = match[1].charCodeAt(0) - 'a'.charCodeAt(0);
+  const rank = parseInt(match[2], 10) - geometry.firstRank[protocol];
+  if (file < 0 || file >= geometry.files || rank < 0 || rank >= geometry.ranks) {
+    return null;
+  }
+  return {file, rank};
+}
+
+export function formatSquare(coord: SquareCoord, variant: GameVariant, protocol: NotationProtocol = 'uci'): string {
+  const geometry = VARIANT_GEOMETRY[variant];
+  return `${String.fromCharCode('a'.charCodeAt(0) + coord.file)}${coord.rank + geometry.firstRank[protocol]}`;
+}
+
+/**
+ * Parse a move in engine coordinate notation; null if it is not a move on this board
+ */
+export function parseMove(move: string, variant: GameVariant, protocol: NotationProtocol = 'uci'): ParsedMove | null {
+  if (PASS_MOVES.includes(move)) {
+    return {type: 'pass'};
+  }
+
+  const drop = DROP_MOVE_PATTERN.exec(move);
+  if (drop) {
+    const to = parseSquare(drop[2], variant, protocol);
+    return to ? {type: 'drop', piece: drop[1], to} : null;
+  }
+
+  const match = NORMAL_MOVE_PATTERN.exec(move);
+  if (!match) {
+    return null;
+  }
+
+  const from = parseSquare(`${match[1]}${match[2]}`, variant, protocol);
+  const to = parseSquare(`${match[3]}${match[4]}`, variant, protocol);
+  if (!from || !to) {
+    return null;
+  }
+
+  // Fairy-Stockfish writes Janggi passes as the general staying on its square
+  if (from.file === to.file && from.rank === to.rank) {
+    return {type: 'pass'};
+  }
+
+  return match[5]
+    ? {type: 'normal', from, to, promotion: match[5]}
+    : {type: 'normal', from, to};
+}
+
+export function formatMove(move: ParsedMove, variant: GameVariant, protocol: NotationProtocol = 'uci'): string {
+  switch (move.type) {
+    case 'pass':
+      return '@@@@';
+    case 'drop':
+      return `${move.piece}@${formatSquare(move.to, variant, protocol)}`;
+    case 'normal':
+      return `${formatSquare(move.from, variant, protocol)}${formatSquare(move.to, variant, protocol)}${move.promotion || ''}`;
+  }
+}
+
+/**
+ * Renumber a move's ranks from one protocol to the other, e.g. XBoard "b0c2" -> UCI "b1c3"
+ * Passes keep their form ("e2e2" stays a same-square move); tokens that are
+ * not a move on this board are returned unchanged.
+ */
+export function convertMove(
+  move: string,
+  variant: GameVariant,
+  from: NotationProtocol,
+  to: NotationProtocol,
+): string {
+  const convertSquare = (square: string): string | null => {
+    const coord = parseSquare(square, variant, from);
+    return coord ? formatSquare(coord, variant, to) : null;
+  };
+
+  const drop = DROP_MOVE_PATTERN.exec(move);
+  if (drop) {
+    const square = convertSquare(drop[2]);
+    return square ? `${drop[1]}@${square}` : move;
+  }
+
+  const match = NORMAL_MOVE_PATTERN.exec(move);
+  if (!match) {
+    return move;
+  }
+  const fromSquare = convertSquare(`${match[1]}${match[2]}`);
+  const toSquare = convertSquare(`${match[3]}${match[4]}`);
+  return fromSquare && toSquare ? `${fromSquare}${toSquare}${match[5] || ''}` : move;
+}
+
+/**
+ * True if the token is a move on this variant's board (used to pick PV moves out of engine output)
+ */
+export function isMoveToken(token: string, variant: GameVariant, protocol: NotationProtocol = 'uci'): boolean {
+  return parseMove(token, variant, protocol) !== null;
+}
+
+/**
+ * Square -> board array indices (row 0 = top of the board as drawn, i.e. FEN order)
+ */
+export function toBoardIndex(coord: SquareCoord, variant: GameVariant): {row: number; col: number} {
+  return {row: VARIANT_GEOMETRY[variant].ranks - 1 - coord.rank, col: coord.file};
+}
+
+export function fromBoardIndex(row: number, col: number, variant: GameVariant): SquareCoord {
+  return {file: col, rank: VARIANT_GEOMETRY[variant].ranks - 1 - row};
+}
@@ -0,0 +1,294 @@
+import {Chess} from 'chess.js';
+import {EngineScore, GameVariant, TimeControl} from '../types/game';
+import {toEngineVariant} from '../services/engine-variants';
+import {strengthLabel} from '../services/engine-strength';
+
+/**
+ * PGN (Portable Game Notation) import and export
+ *
+ * - Tags: the Seven Tag Roster, player types (WhiteType/BlackType "human" or
+ *   "program"), Variant, TimeControl and FEN/SetUp for games not started
+ *   from the initial position
+ * - Engine evaluations are `{[%eval 0.35]}` / `{[%eval #-3]}` comments after
+ *   the move they evaluate, from White's point of view
+ *
+ * Chess moves are checked and converted to SAN by chess.js, the movetext is
+ * written by formatPgn and comments are read by parsePgn; moves are kept in
+ * the app's engine notation (e2e4, e7e8q). Other variants (Janggi, see
+ * src/game/janggi/record.ts) use formatPgn/parsePgn with moves in
+ * Fairy-Stockfish notation.
+ */
+
+export type PgnResult = '1-0' | '0-1' | '1/2-1/2' | '*';
+
+export interface PgnPlayer {
+  type: 'human' | 'ai';
+  strength?: number; // AI strength level (1-20)
+}
+
+export interface PgnGameInfo {
+  variant: GameVariant;
+  white: PgnPlayer;
+  black: PgnPlayer;
+  result: PgnResult;
+  date: Date;
+  timeControl: TimeControl;
+}
+
+export interface ParsedPgn {
+  tags: Record<string, string>;
+  moves: string[]; // Movetext tokens without move numbers
+  comments: (string | null)[]; // Comment after each move
+  result: PgnResult;
+}
+
+export interface ImportedPgn {
+  tags: Record<string, string>;
+  startFen: string;
+  moves: string[]; // Engine notation
+  evals: (EngineScore | null)[]; // Per move, null where the game has no %eval
+  result: PgnResult;
+}
+
+const ENGINE_NAME = 'Fairy-Stockfish';
+const EVAL_PATTERN = /\[%eval\s+([^\]\s]+)\s*\]/;
+const TAG_PATTERN = /^\[(\w+)\s+"((?:[^"\\]|\\.)*)"\]$/;
+const MAX_LINE_LENGTH = 80;
+
+export function toPgnResult(text: string | undefined): PgnResult {
+  return text === '1-0' || text === '0-1' || text === '1/2-1/2' ? text : '*';
+}
+
+export function pgnPlayerName(player: PgnPlayer): string {
+  if (player.type === 'human') {
+    return 'Human';
+  }
+  return player.strength !== undefined ? `${ENGINE_NAME} (${strengthLabel(player.strength)})` : ENGINE_NAME;
+}
+
+/**
+ * Date tag value: "2024.05.17"
+ */
+export function formatPgnDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}.${pad(date.getMonth() + 1)}.${pad(date.getDate())}`;
+}
+
+/**
+ * TimeControl tag value in seconds: "-" (untimed), "300" (sudden death),
+ * "180+2" (increment); byo-yomi, which the standard lacks, as "300+3x30"
+ */
+export function formatPgnTimeControl(control: TimeControl): string {
+  const seconds = (ms: number) => Math.round(ms / 1000);
+  switch (control.type) {
+    case 'none':
+      return '-';
+    case 'sudden-death':
+      return `${seconds(control.baseMs)}`;
+    case 'increment':
+      return `${seconds(control.baseMs)}+${seconds(control.incrementMs)}`;
+    case 'byoyomi':
+      return `${seconds(control.baseMs)}+${control.byoyomiPeriods}x${seconds(control.byoyomiMs)}`;
+  }
+}
+
+/**
+ * %eval value: pawns ("0.35", "-1.20") or mate ("#3", "#-3")
+ */
+export function formatPgnEval(score: EngineScore): string {
+  if (score.type === 'mate') {
+    return `#${score.value}`;
+  }
+  return (score.value / 100).toFixed(2);
+}
+
+/**
+ * Read the %eval of a move comment (null if there is none)
+ */
+export function parsePgnEval(comment: string): EngineScore | null {
+  const match = comment.match(EVAL_PATTERN);
+  if (!match) {
+    return null;
+  }
+  const text = match[1];
+  if (text.startsWith('#')) {
+    const moves = parseInt(text.substring(1), 10);
+    return isNaN(moves) ? null : {type: 'mate', value: moves};
+  }
+  const pawns = parseFloat(text);
+  return isNaN(pawns) ? null : {type: 'cp', value: Math.round(pawns * 100)};
+}
+
+/**
+ * Tags shared by every exported game
+ */
+export function buildPgnTags(info: PgnGameInfo): Record<string, string> {
+  return {
+    Event: 'Casual game',
+    Site: 'Chess Game app',
+    Date: formatPgnDate(info.date),
+    Round: '-',
+    White: pgnPlayerName(info.white),
+    Black: pgnPlayerName(info.black),
+    Result: info.result,
+    WhiteType: info.white.type === 'ai' ? 'program' : 'human',
+    BlackType: info.black.type === 'ai' ? 'program' : 'human',
+    Variant: toEngineVariant(info.variant),
+    TimeControl: formatPgnTimeControl(info.timeControl),
+  };
+}
+
+/**
+ * Write a PGN from tags and moves (for variants chess.js can't play)
+ * Moves are numbered in pairs and the Result tag ends the movetext.
+ */
+export function formatPgn(
+  tags: Record<string, string>,
+  moves: string[],
+  comments: (string | null | undefined)[] = [],
+): string {
+  const escape = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+  const header = Object.entries(tags).map(([name, value]) => `[${name} "${escape(value)}"]`);
+
+  const tokens: string[] = [];
+  moves.forEach((move, index) => {
+    if (index % 2 === 0) {
+      tokens.push(`${index / 2 + 1}.`);
+    }
+    tokens.push(move);
+    const comment = comments[index];
+    if (comment) {
+      tokens.push(`{${comment}}`);
+    }
+  });
+  tokens.push(toPgnResult(tags.Result));
+
+  // Wrap the movetext
+  const lines: string[] = [];
+  let line = '';
+  for (const token of tokens) {
+    if (line && line.length + 1 + token.length > MAX_LINE_LENGTH) {
+      lines.push(line);
+      line = token;
+    } else {
+      line = line ? `${line} ${token}` : token;
+    }
+  }
+  lines.push(line);
+
+  return `${header.join('\n')}\n\n${lines.join('\n')}\n`;
+}
+
+/**
+ * Read the first game of a PGN text without playing its moves
+ * Move numbers, NAGs ($1) and variations (in parentheses) are skipped;
+ * the caller checks the moves against the rules.
+ */
+export function parsePgn(text: string): ParsedPgn {
+  const tags: Record<string, string> = {};
+  const moves: string[] = [];
+  const comments: (string | null)[] = [];
+  let result: PgnResult = '*';
+
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  let index = 0;
+  for (; index < lines.length; index++) {
+    const line = lines[index].trim();
+    if (line === '' && Object.keys(tags).length === 0) {
+      continue;
+    }
+    const tag = line.match(TAG_PATTERN);
+    if (!tag) {
+      break;
+    }
+    tags[tag[1]] = tag[2].replace(/\\(.)/g, '$1');
+  }
+
+  // Movetext, without `;` rest-of-line comments
+  const movetext = lines
+    .slice(index)
+    .map(line => line.replace(/;.*$/, ''))
+    .join(' ');
+  const tokenPattern = /\{([^}]*)\}|\(|\)|[^\s{}()]+/g;
+  let depth = 0; // Inside a variation
+  let match: RegExpExecArray | null;
+  while ((match = tokenPattern.exec(movetext))) {
+    const token = match[0];
+    if (token === '(') {
+      depth++;
+    } else if (token === ')') {
+      depth = Math.max(0, depth - 1);
+    } else if (depth > 0) {
+      continue;
+    } else if (match[1] !== undefined) {
+      if (moves.length > 0) {
+        const previous = comments[moves.length - 1];
+        comments[moves.length - 1] = previous ? `${previous} ${match[1].trim()}` : match[1].trim();
+      }
+    } else if (toPgnResult(token) !== '*' || token === '*') {
+      result = toPgnResult(token);
+      break;
+    } else if (!token.startsWith('$')) {
+      const move = token.replace(/^\d+\.+/, '');
+      if (move) {
+        moves.push(move);
+        comments.push(null);
+      }
+    }
+  }
+
+  return {tags, moves, comments, result: tags.Result ? toPgnResult(tags.Result) : result};
+}
+
+/**
+ * Write a chess game as PGN
+ * @param startFen Position the game started from
+ * @param moves Moves in engine notation
+ * @param evals Evaluation after each move, if known
+ */
+export function exportChessPgn(
+  info: PgnGameInfo,
+  startFen: string,
+  moves: string[],
+  evals: (EngineScore | null | undefined)[] = [],
+): string {
+  const game = new Chess(startFen);
+  const tags = buildPgnTags(info);
+  if (startFen !== new Chess().fen()) {
+    tags.SetUp = '1';
+    tags.FEN = startFen;
+  }
+
+  const sans = moves.map(move => game.move(move).san);
+  const comments = moves.map((_, index) => {
+    const score = evals[index];
+    return score ? `[%eval ${formatPgnEval(score)}]` : null;
+  });
+  return formatPgn(tags, sans, comments);
+}
+
+/**
+ * Read the first game of a PGN text
+ * Throws if the PGN can't be parsed or holds an illegal move.
+ */
+export function importChessPgn(text: string): ImportedPgn {
+  const parsed = new Chess();
+  parsed.loadPgn(text);
+
+  const tags = parsed.getHeaders();
+  const startFen = tags.FEN || new Chess().fen();
+  const history = parsed.history({verbose: true});
+
+  // chess.js keys comments by position, so a repeated position would lose one;
+  // parsePgn gives each move its own comment
+  const {moves: tokens, comments} = parsePgn(text);
+  const moveComments = tokens.length === history.length ? comments : [];
+
+  const moves = history.map(move => move.lan);
+  const evals = history.map((_, index) => {
+    const comment = moveComments[index];
+    return comment ? parsePgnEval(comment) : null;
+  });
+
+  return {tags, startFen, moves, evals, result: toPgnResult(tags.Result)};
+}
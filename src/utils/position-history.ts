@@ -0,0 +1,108 @@
+import {GameVariant} from '../types/game';
+
+/**
+ * Position history and repetition rules
+ *
+ * Positions are stored as keys: Zobrist hashes for the standalone Janggi
+ * boards (src/game/janggi/zobrist.ts), FEN position keys for FEN-based variants.
+ *
+ * - Draw rule (chess): the game is drawn when a position occurs `occurrences` times
+ * - Forbidden rule (Janggi): a move may not bring a position about for the
+ *   `occurrences`-th time; the repeating side has to play something else
+ */
+
+export type PositionKey = string | number;
+
+export type RepetitionRule =
+  | {type: 'draw'; occurrences: number}
+  | {type: 'forbidden'; occurrences: number}
+  | {type: 'none'};
+
+export const REPETITION_RULES: Record<GameVariant, RepetitionRule> = {
+  chess: {type: 'draw', occurrences: 3},
+  janggi: {type: 'none'}, // Engine-driven; Fairy-Stockfish applies its own rules
+  janggi2: {type: 'forbidden', occurrences: 3},
+  janggi3: {type: 'forbidden', occurrences: 3},
+  xiangqi: {type: 'none'},
+  shogi: {type: 'none'},
+};
+
+// AI vs AI games are adjudicated after this many plies
+export const AI_VS_AI_MOVE_CAP = 300;
+
+/**
+ * Position part of a FEN (placement, side to move, castling, en passant),
+ * without the move counters
+ */
+export function fenPositionKey(fen: string): string {
+  return fen.split(' ').slice(0, 4).join(' ');
+}
+
+export class PositionHistory {
+  private keys: PositionKey[] = [];
+  private counts = new Map<PositionKey, number>();
+
+  constructor(initial?: PositionKey) {
+    if (initial !== undefined) {
+      this.push(initial);
+    }
+  }
+
+  /**
+   * Start over from a game's first position (empty if not given)
+   */
+  reset(initial?: PositionKey): void {
+    this.keys = [];
+    this.counts.clear();
+    if (initial !== undefined) {
+      this.push(initial);
+    }
+  }
+
+  push(key: PositionKey): void {
+    this.keys.push(key);
+    this.counts.set(key, (this.counts.get(key) || 0) + 1);
+  }
+
+  /**
+   * Forget the last position (move taken back)
+   */
+  pop(): PositionKey | undefined {
+    const key = this.keys.pop();
+    if (key !== undefined) {
+      const count = (this.counts.get(key) || 1) - 1;
+      if (count > 0) {
+        this.counts.set(key, count);
+      } else {
+        this.counts.delete(key);
+      }
+    }
+    return key;
+  }
+
+  /**
+   * Key of the current position
+   */
+  current(): PositionKey | undefined {
+    return this.keys[this.keys.length - 1];
+  }
+
+  occurrences(key: PositionKey): number {
+    return this.counts.get(key) || 0;
+  }
+
+  /**
+   * The current position draws the game under `rule`
+   */
+  isRepetitionDraw(rule: RepetitionRule): boolean {
+    const key = this.current();
+    return rule.type === 'draw' && key !== undefined && this.occurrences(key) >= rule.occurrences;
+  }
+
+  /**
+   * Moving to the position `key` is not allowed under `rule`
+   */
+  isForbidden(key: PositionKey, rule: RepetitionRule): boolean {
+    return rule.type === 'forbidden' && this.occurrences(key) + 1 >= rule.occurrences;
+  }
+}
@@ -0,0 +1,204 @@
+import {Chess, Square, validateFen} from 'chess.js';
+import {GameVariant} from '../types/game';
+import {fenLayoutErrors, validateFEN as validateJanggiFEN} from '../game/janggi';
+
+/**
+ * Position validation for the position editor, per variant
+ * Each problem is reported as its own message, e.g. "Black has no king" or
+ * "White pawn on e8"; an empty list means the position can be played.
+ *
+ * - Chess: one king per side, kings apart, no pawns on the first or last
+ *   rank, at most 8 pawns and 16 pieces per side (promotions only for
+ *   missing pawns), castling rights and en passant square that fit the
+ *   board, and the side not to move not in check.
+ * - Janggi: see src/game/janggi/validation.ts.
+ */
+
+const CHESS_PIECE_LETTERS = 'pnbrqk';
+const FILES = 'abcdefgh';
+
+type ChessGrid = (string | null)[][]; // FEN letters, row 0 = rank 8
+
+const sideName = (isWhite: boolean): string => (isWhite ? 'White' : 'Black');
+
+const squareName = (row: number, col: number): string => `${FILES[col]}${8 - row}`;
+
+/**
+ * Problems with the FEN text itself (empty if the board can be read)
+ */
+export function positionLayoutErrors(variant: GameVariant, fen: string): string[] {
+  if (variant !== 'chess') {
+    return fenLayoutErrors(fen);
+  }
+
+  const errors: string[] = [];
+  const parts = fen.trim().split(/\s+/);
+  const ranks = parts[0] ? parts[0].split('/') : [];
+  if (ranks.length !== 8) {
+    errors.push(`Expected 8 ranks, found ${ranks.length}`);
+  }
+  ranks.forEach((rankData, row) => {
+    let width = 0;
+    for (const char of rankData) {
+      if (char >= '1' && char <= '8') {
+        width += parseInt(char, 10);
+      } else if (CHESS_PIECE_LETTERS.includes(char.toLowerCase())) {
+        width++;
+      } else {
+        errors.push(`Unknown piece "${char}" on rank ${8 - row}`);
+        return;
+      }
+    }
+    if (width !== 8) {
+      errors.push(`Rank ${8 - row} has ${width} squares instead of 8`);
+    }
+  });
+  if (parts[1] !== 'w' && parts[1] !== 'b') {
+    errors.push(`Side to move must be "w" or "b", not "${parts[1] ?? ''}"`);
+  }
+  return errors;
+}
+
+function parseChessGrid(placement: string): ChessGrid {
+  return placement.split('/').map(rankData => {
+    const row: (string | null)[] = [];
+    for (const char of rankData) {
+      if (char >= '1' && char <= '8') {
+        row.push(...Array<null>(parseInt(char, 10)).fill(null));
+      } else {
+        row.push(char);
+      }
+    }
+    return row;
+  });
+}
+
+function findPieces(grid: ChessGrid, letter: string): {row: number; col: number}[] {
+  const found: {row: number; col: number}[] = [];
+  grid.forEach((rowPieces, row) =>
+    rowPieces.forEach((piece, col) => {
+      if (piece === letter) {
+        found.push({row, col});
+      }
+    }),
+  );
+  return found;
+}
+
+/**
+ * Rule problems of a chess position
+ */
+export function validateChessFEN(fen: string): string[] {
+  const layoutErrors = positionLayoutErrors('chess', fen);
+  if (layoutErrors.length > 0) {
+    return layoutErrors;
+  }
+
+  const [placement, turn, castling = '-', enPassant = '-'] = fen.trim().split(/\s+/);
+  const grid = parseChessGrid(placement);
+  const errors: string[] = [];
+
+  for (const isWhite of [true, false]) {
+    const side = sideName(isWhite);
+    const letter = (piece: string) => (isWhite ? piece.toUpperCase() : piece);
+    const count = (piece: string) => findPieces(grid, letter(piece)).length;
+
+    const kings = count('k');
+    if (kings === 0) {
+      errors.push(`${side} has no king`);
+    } else if (kings > 1) {
+      errors.push(`${side} has ${kings} kings`);
+    }
+
+    const pawns = findPieces(grid, letter('p'));
+    for (const {row, col} of pawns) {
+      if (row === 0 || row === 7) {
+        errors.push(`${side} pawn on ${squareName(row, col)}`);
+      }
+    }
+    if (pawns.length > 8) {
+      errors.push(`${side} has ${pawns.length} pawns (at most 8)`);
+    }
+
+    const pieces = [...CHESS_PIECE_LETTERS].reduce((total, piece) => total + count(piece), 0);
+    if (pieces > 16) {
+      errors.push(`${side} has ${pieces} pieces (at most 16)`);
+    }
+
+    // Pieces beyond the starting set can only come from promoted pawns
+    const promoted =
+      Math.max(0, count('q') - 1) + Math.max(0, count('r') - 2) + Math.max(0, count('b') - 2) + Math.max(0, count('n') - 2);
+    if (promoted > 8 - pawns.length) {
+      errors.push(`${side} has more promoted pieces than missing pawns`);
+    }
+
+    // Castling needs the king and that rook on their starting squares
+    const homeRow = isWhite ? 7 : 0;
+    const rights: [string, number, string][] = [
+      [letter('k'), 7, 'kingside'],
+      [letter('q'), 0, 'queenside'],
+    ];
+    for (const [right, rookCol, wing] of rights) {
+      if (castling.includes(right) && (grid[homeRow][4] !== letter('k') || grid[homeRow][rookCol] !== letter('r'))) {
+        errors.push(`${side} can't castle ${wing}: king or rook is not on its starting square`);
+      }
+    }
+  }
+
+  // Kings can never stand next to each other
+  const [whiteKing] = findPieces(grid, 'K');
+  const [blackKing] = findPieces(grid, 'k');
+  if (whiteKing && blackKing && Math.abs(whiteKing.row - blackKing.row) <= 1 && Math.abs(whiteKing.col - blackKing.col) <= 1) {
+    errors.push('The kings stand next to each other');
+  }
+
+  // En passant: the square behind a pawn that just moved two squares
+  if (enPassant !== '-') {
+    const match = enPassant.match(/^([a-h])([36])$/);
+    const expectedRank = turn === 'w' ? '6' : '3';
+    if (!match || match[2] !== expectedRank) {
+      errors.push(`En passant square ${enPassant} is not on rank ${expectedRank}`);
+    } else {
+      const col = FILES.indexOf(match[1]);
+      const pawnRow = turn === 'w' ? 3 : 4;
+      const targetRow = turn === 'w' ? 2 : 5;
+      if (grid[pawnRow][col] !== (turn === 'w' ? 'p' : 'P') || grid[targetRow][col] !== null) {
+        errors.push(`En passant square ${enPassant} has no pawn that just moved two squares`);
+      }
+    }
+  }
+
+  // The side that just moved can't have left its king in check
+  if (errors.length === 0) {
+    const movedKing = turn === 'w' ? blackKing : whiteKing;
+    const game = new Chess(fen, {skipValidation: true});
+    if (game.isAttacked(squareName(movedKing.row, movedKing.col) as Square, turn === 'w' ? 'w' : 'b')) {
+      errors.push(`${sideName(turn !== 'w')} is in check with ${sideName(turn === 'w')} to move`);
+    }
+  }
+
+  // Anything else chess.js can't load (castling field format, move counters)
+  if (errors.length === 0) {
+    const result = validateFen(fen);
+    if (!result.ok && result.error) {
+      errors.push(result.error.replace(/^Invalid FEN: /, ''));
+    }
+  }
+  return errors;
+}
+
+/**
+ * Problems with a position of the given variant (empty if it can be played)
+ */
+export function validatePositionFEN(variant: GameVariant, fen: string): string[] {
+  switch (variant) {
+    case 'chess':
+      return validateChessFEN(fen);
+    case 'janggi':
+    case 'janggi2':
+    case 'janggi3':
+      return validateJanggiFEN(fen);
+    default:
+      return [`Positions can't be set up for ${variant}`];
+  }
+}
@@ -0,0 +1,252 @@
+import {EngineClock, TimeControl} from '../types/game';
+
+/**
+ * Time controls and the game clock
+ *
+ * - Sudden death: fixed main time per side
+ * - Increment (Fischer): main time, plus incrementMs after every move
+ * - Byo-yomi (Janggi): main time, then byoyomiPeriods periods of byoyomiMs.
+ *   A move made inside a period resets it, an expired period is used up,
+ *   and the flag falls when the last period expires.
+ *
+ * Sides use FEN notation: 'w' = White / Han, 'b' = Black / Cho
+ */
+
+export type ClockSide = 'w' | 'b';
+
+export const NO_TIME_CONTROL: TimeControl = {
+  type: 'none',
+  baseMs: 0,
+  incrementMs: 0,
+  byoyomiMs: 0,
+  byoyomiPeriods: 0,
+};
+
+export const TIME_CONTROL_PRESETS: {label: string; control: TimeControl}[] = [
+  {label: 'Untimed', control: NO_TIME_CONTROL},
+  {
+    label: '5 min',
+    control: {type: 'sudden-death', baseMs: 5 * 60000, incrementMs: 0, byoyomiMs: 0, byoyomiPeriods: 0},
+  },
+  {
+    label: '3+2',
+    control: {type: 'increment', baseMs: 3 * 60000, incrementMs: 2000, byoyomiMs: 0, byoyomiPeriods: 0},
+  },
+  {
+    label: '10+5',
+    control: {type: 'increment', baseMs: 10 * 60000, incrementMs: 5000, byoyomiMs: 0, byoyomiPeriods: 0},
+  },
+  {
+    label: '5m + 3×30s',
+    control: {type: 'byoyomi', baseMs: 5 * 60000, incrementMs: 0, byoyomiMs: 30000, byoyomiPeriods: 3},
+  },
+];
+
+export interface SideClock {
+  mainMs: number; // Main time left
+  periodMs: number; // Time left in the current byo-yomi period
+  periodsLeft: number; // Byo-yomi periods left, including the current one
+}
+
+export interface ClockSnapshot {
+  w: SideClock;
+  b: SideClock;
+  running: ClockSide | null;
+  flagged: ClockSide | null; // Side that ran out of time
+}
+
+/**
+ * Format clock time: "4:59", or "8.3" under ten seconds
+ */
+export function formatClockTime(ms: number): string {
+  const clamped = Math.max(0, ms);
+  if (clamped < 10000) {
+    return (Math.floor(clamped / 100) / 10).toFixed(1);
+  }
+  const totalSeconds = Math.ceil(clamped / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+function opponent(side: ClockSide): ClockSide {
+  return side === 'w' ? 'b' : 'w';
+}
+
+function initialSideClock(control: TimeControl): SideClock {
+  const byoyomi = control.type === 'byoyomi';
+  return {
+    mainMs: control.baseMs,
+    periodMs: byoyomi ? control.byoyomiMs : 0,
+    periodsLeft: byoyomi ? control.byoyomiPeriods : 0,
+  };
+}
+
+/**
+ * Charge thinking time: main time first, then byo-yomi periods
+ */
+function consume(clock: SideClock, elapsedMs: number, control: TimeControl): SideClock {
+  let {mainMs, periodMs, periodsLeft} = clock;
+  const fromMain = Math.min(mainMs, elapsedMs);
+  mainMs -= fromMain;
+  let rest = elapsedMs - fromMain;
+
+  while (rest > 0 && periodsLeft > 0) {
+    if (rest < periodMs) {
+      periodMs -= rest;
+      rest = 0;
+    } else {
+      rest -= periodMs;
+      periodsLeft -= 1;
+      periodMs = periodsLeft > 0 ? control.byoyomiMs : 0;
+    }
+  }
+  return {mainMs, periodMs, periodsLeft};
+}
+
+function isExhausted(clock: SideClock): boolean {
+  return clock.mainMs <= 0 && clock.periodsLeft <= 0;
+}
+
+/**
+ * Two-sided game clock
+ * Time is measured with Date.now() when asked, so the UI can poll it at any rate
+ */
+export class GameClock {
+  private control: TimeControl;
+  private sides: Record<ClockSide, SideClock>;
+  private running: ClockSide | null = null;
+  private turnStartedAt: number = 0;
+  private flagged: ClockSide | null = null;
+
+  constructor(control: TimeControl = NO_TIME_CONTROL) {
+    this.control = control;
+    this.sides = {w: initialSideClock(control), b: initialSideClock(control)};
+  }
+
+  getControl(): TimeControl {
+    return this.control;
+  }
+
+  isTimed(): boolean {
+    return this.control.type !== 'none';
+  }
+
+  getFlagged(): ClockSide | null {
+    return this.flagged;
+  }
+
+  /**
+   * Stop the clock and restore full time (optionally with a new time control)
+   */
+  reset(control: TimeControl = this.control): void {
+    this.control = control;
+    this.sides = {w: initialSideClock(control), b: initialSideClock(control)};
+    this.running = null;
+    this.flagged = null;
+  }
+
+  /**
+   * `side` finished a move: charge its thinking time, add the increment or
+   * reset its byo-yomi period, and start the opponent's clock
+   * The first move of the game starts the clock without charging anyone.
+   */
+  punch(side: ClockSide, now: number = Date.now()): void {
+    if (!this.isTimed() || this.flagged) {
+      return;
+    }
+
+    if (this.running === side) {
+      const clock = consume(this.sides[side], now - this.turnStartedAt, this.control);
+      if (isExhausted(clock)) {
+        this.sides[side] = clock;
+        this.flagged = side;
+        this.running = null;
+        return;
+      }
+
+      if (this.control.type === 'increment') {
+        clock.mainMs += this.control.incrementMs;
+      } else if (this.control.type === 'byoyomi' && clock.mainMs <= 0) {
+        clock.periodMs = this.control.byoyomiMs;
+      }
+      this.sides[side] = clock;
+    }
+
+    this.running = opponent(side);
+    this.turnStartedAt = now;
+  }
+
+  /**
+   * Stop the running clock, keeping the time used so far
+   */
+  pause(now: number = Date.now()): void {
+    if (this.running) {
+      this.sides[this.running] = consume(
+        this.sides[this.running],
+        now - this.turnStartedAt,
+        this.control,
+      );
+      this.running = null;
+    }
+  }
+
+  /**
+   * Give the move back to `side` after a takeback: stop the running clock,
+   * keeping the time used so far, and start `side`'s clock
+   */
+  resume(side: ClockSide, now: number = Date.now()): void {
+    if (!this.isTimed() || this.flagged) {
+      return;
+    }
+    this.pause(now);
+    this.running = side;
+    this.turnStartedAt = now;
+  }
+
+  snapshot(now: number = Date.now()): ClockSnapshot {
+    const sides = {...this.sides};
+    if (this.running) {
+      sides[this.running] = consume(sides[this.running], now - this.turnStartedAt, this.control);
+    }
+    return {...sides, running: this.running, flagged: this.flagged};
+  }
+
+  /**
+   * Detect flag fall on the running side
+   * Returns the side that just ran out of time (once), otherwise null
+   */
+  checkFlag(now: number = Date.now()): ClockSide | null {
+    if (!this.running) {
+      return null;
+    }
+
+    const side = this.running;
+    const clock = consume(this.sides[side], now - this.turnStartedAt, this.control);
+    if (!isExhausted(clock)) {
+      return null;
+    }
+
+    this.sides[side] = clock;
+    this.flagged = side;
+    this.running = null;
+    return side;
+  }
+
+  /**
+   * Current times for a clocked engine search
+   * Byo-yomi is folded in: the current period counts as time left and the
+   * period length as increment, so the engine never plans past its period
+   */
+  engineClock(now: number = Date.now()): EngineClock {
+    const snapshot = this.snapshot(now);
+    const timeLeft = (clock: SideClock) => clock.mainMs + (clock.periodsLeft > 0 ? clock.periodMs : 0);
+
+    return {
+      baseMs: this.control.baseMs,
+      whiteMs: timeLeft(snapshot.w),
+      blackMs: timeLeft(snapshot.b),
+      incrementMs: this.control.type === 'byoyomi' ? this.control.byoyomiMs : this.control.incrementMs,
+    };
+  }
+}